@@ -19,5 +19,55 @@ const customJestConfig = {
   ],
 }
 
+// react-markdown and the unified/remark/rehype ecosystem only ship ES modules,
+// so they have to go through the transform like our own code
+const esmPackages = [
+  'react-markdown',
+  'remark-.*',
+  'rehype-.*',
+  'unified',
+  'bail',
+  'is-plain-obj',
+  'trough',
+  'vfile.*',
+  'unist-.*',
+  'mdast-.*',
+  'micromark.*',
+  'hast-.*',
+  'hastscript',
+  'lowlight',
+  'devlop',
+  'zwitch',
+  'ccount',
+  'longest-streak',
+  'markdown-table',
+  'trim-lines',
+  'escape-string-regexp',
+  'estree-util-.*',
+  'html-url-attributes',
+  'property-information',
+  'space-separated-tokens',
+  'comma-separated-tokens',
+  'decode-named-character-reference',
+  'character-entities.*',
+  'character-reference-invalid',
+  'parse-entities',
+  'stringify-entities',
+  'is-alphabetical',
+  'is-alphanumerical',
+  'is-decimal',
+  'is-hexadecimal',
+  'web-namespaces',
+  'geist',
+]
+
 // createJestConfig is exported this way to ensure that next/jest can load the Next.js config which is async
-module.exports = createJestConfig(customJestConfig)
\ No newline at end of file
+module.exports = async () => {
+  const jestConfig = await createJestConfig(customJestConfig)()
+  // next/jest only lets custom config append ignore patterns, so replace its node_modules ones
+  jestConfig.transformIgnorePatterns = [
+    `/node_modules/(?!(${esmPackages.join('|')})/)`,
+    ...jestConfig.transformIgnorePatterns.filter((pattern) => !pattern.startsWith('/node_modules/')),
+  ]
+  return jestConfig
+}
\ No newline at end of file
@@ -1,7 +1,17 @@
 import '@testing-library/jest-dom'
+import { ReadableStream, TransformStream, WritableStream } from 'stream/web'
+import v8 from 'v8'
 
 // Only set up browser mocks in jsdom environment
 if (typeof window !== 'undefined') {
+  // AI SDK uses web streams, which jsdom doesn't expose
+  Object.assign(global, { ReadableStream, TransformStream, WritableStream })
+
+  // useChat clones messages with structuredClone, which jsdom doesn't expose either
+  if (typeof global.structuredClone === 'undefined') {
+    global.structuredClone = (value) => v8.deserialize(v8.serialize(value))
+  }
+
   // Mock IntersectionObserver which isn't available in test environment
   global.IntersectionObserver = jest.fn(() => ({
     observe: jest.fn(),
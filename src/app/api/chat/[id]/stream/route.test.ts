@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+
+import { GET, DELETE } from './route'
+import { StreamRegistry, setStreamRegistry } from '@/lib/chat/stream-registry'
+
+const context = (id: string) => ({ params: Promise.resolve({ id }) })
+const request = (method: string, query = '') => new Request(`http://localhost/api/chat/conv-1/stream${query}`, { method })
+
+const events = ['data: {"type":"start"}\n\n', 'data: {"type":"text-delta","delta":"Hi"}\n\n', 'data: [DONE]\n\n']
+
+describe('/api/chat/[id]/stream route', () => {
+	let registry: StreamRegistry
+	let signal: AbortSignal
+
+	beforeEach(() => {
+		registry = new StreamRegistry()
+		setStreamRegistry(registry)
+		signal = registry.open('s1', { conversationId: 'conv-1', messageId: 'u1' })
+	})
+
+	afterEach(() => {
+		setStreamRegistry(null)
+	})
+
+	const finish = () =>
+		registry.record(
+			's1',
+			new ReadableStream<string>({
+				start(controller) {
+					events.forEach((event) => controller.enqueue(event))
+					controller.close()
+				},
+			})
+		)
+
+	it("should replay the conversation's reply from the start", async () => {
+		await finish()
+
+		const response = await GET(request('GET', '?messageId=u1'), context('conv-1'))
+
+		expect(response.status).toBe(200)
+		expect(response.headers.get('X-Stream-Id')).toBe('s1')
+		expect(await response.text()).toBe(events.join(''))
+	})
+
+	it('should return 204 when the conversation has no reply to resume', async () => {
+		const response = await GET(request('GET'), context('conv-2'))
+
+		expect(response.status).toBe(204)
+	})
+
+	it('should not resume a reply to another turn', async () => {
+		const response = await GET(request('GET', '?messageId=u0'), context('conv-1'))
+
+		expect(response.status).toBe(204)
+	})
+
+	it("should stop the conversation's reply", async () => {
+		const response = await DELETE(request('DELETE'), context('conv-1'))
+
+		expect(response.status).toBe(204)
+		expect(signal.aborted).toBe(true)
+		expect((await DELETE(request('DELETE'), context('conv-2'))).status).toBe(404)
+	})
+})
@@ -0,0 +1,40 @@
+import { UI_MESSAGE_STREAM_HEADERS } from 'ai'
+
+import { STREAM_ID_HEADER, getStreamRegistry } from '@/lib/chat/stream-registry'
+
+interface RouteContext {
+	params: Promise<{ id: string }>
+}
+
+// The reply a conversation is waiting for, from its first event, e.g. for a
+// page reloaded while it streamed. `messageId` is the last message the page
+// has; a reply asked with another one is not its to resume. 204 when there is
+// nothing to pick up.
+export async function GET(req: Request, { params }: RouteContext) {
+	const { id } = await params
+	const messageId = new URL(req.url).searchParams.get('messageId') ?? undefined
+
+	const streams = getStreamRegistry()
+	const streamId = streams.findByConversation(id, messageId)
+	const stream = streamId && streams.resume(streamId, 0)
+	if (!streamId || !stream) {
+		return new Response(null, { status: 204 })
+	}
+
+	streams.attach(streamId, req.signal)
+	return new Response(stream.pipeThrough(new TextEncoderStream()), {
+		headers: { ...UI_MESSAGE_STREAM_HEADERS, [STREAM_ID_HEADER]: streamId },
+	})
+}
+
+// Stops the conversation's reply; a resumed reply has no request to abort
+export async function DELETE(_req: Request, { params }: RouteContext) {
+	const { id } = await params
+
+	const streams = getStreamRegistry()
+	const streamId = streams.findByConversation(id)
+	if (!streamId || !streams.cancel(streamId)) {
+		return Response.json({ error: 'Stream not found' }, { status: 404 })
+	}
+	return new Response(null, { status: 204 })
+}
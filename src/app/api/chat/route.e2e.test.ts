@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { POST } from './route'
+import { setStreamRegistry } from '@/lib/chat/stream-registry'
+import { FileConversationStore, setConversationStore } from '@/lib/storage'
+
+// Nothing mocked: the mock provider streams through the real AI SDK
+
+// The UI message stream parts of a server-sent event stream
+const readParts = async (response: Response) =>
+	(await response.text())
+		.split('\n\n')
+		.filter((event) => event.startsWith('data: ') && event !== 'data: [DONE]')
+		.map((event) => JSON.parse(event.slice('data: '.length)))
+
+describe('POST /api/chat with the mock provider', () => {
+	const originalEnv = process.env
+
+	beforeEach(() => {
+		process.env = { ...originalEnv, MOCK_TOKEN_DELAY_MS: '0' }
+	})
+
+	afterEach(() => {
+		process.env = originalEnv
+		setStreamRegistry(null)
+	})
+
+	it('streams a Socratic reply as UI message parts', async () => {
+		const response = await POST(
+			new Request('http://localhost/api/chat', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					provider: 'mock',
+					messages: [{ id: 'u1', role: 'user', parts: [{ type: 'text', text: 'Hello there' }] }],
+				}),
+			})
+		)
+
+		expect(response.status).toBe(200)
+		const parts = await readParts(response)
+		const types = parts.map(({ type }) => type)
+		expect(types[0]).toBe('start')
+		expect(types).toEqual(expect.arrayContaining(['text-start', 'text-delta', 'text-end']))
+		expect(types[types.length - 1]).toBe('finish')
+		expect(
+			parts
+				.filter(({ type }) => type === 'text-delta')
+				.map(({ delta }) => delta)
+				.join('')
+		).toBe('Hello! What question has been on your mind lately?')
+		expect(parts[0].messageMetadata.createdAt).toEqual(expect.any(String))
+	})
+
+	it('keeps the progress assessment with the saved conversation', async () => {
+		const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'chat-e2e-'))
+		const conversations = new FileConversationStore(directory)
+		setConversationStore(conversations)
+
+		try {
+			const response = await POST(
+				new Request('http://localhost/api/chat', {
+					method: 'POST',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify({
+						provider: 'mock',
+						conversationId: 'conv-1',
+						messages: [
+							{
+								id: 'u1',
+								role: 'user',
+								parts: [{ type: 'text', text: 'Is 1 prime?' }],
+								metadata: { objective: 'Understand prime numbers' },
+							},
+						],
+					}),
+				})
+			)
+			const parts = await readParts(response)
+
+			const { messages, learningProgress } = (await conversations.get('conv-1'))!
+			expect(messages.map(({ role }) => role)).toEqual(['user', 'assistant'])
+			// The mock model assesses with an empty, schema-conforming object
+			expect(learningProgress).toEqual([
+				{ messageId: messages[1].id, progress: { subGoals: [], misconceptions: [] } },
+			])
+			expect(parts[parts.length - 1].messageMetadata.progress).toEqual(learningProgress?.[0].progress)
+		} finally {
+			setConversationStore(null)
+			await fs.rm(directory, { recursive: true, force: true })
+		}
+	})
+})
@@ -1,50 +1,280 @@
-import { streamText, convertToModelMessages } from 'ai'
-import { openai } from '@ai-sdk/openai'
+import {
+	streamText,
+	convertToModelMessages,
+	generateId,
+	type StreamTextTransform,
+	type ToolSet,
+} from 'ai'
+
+import { resolveModel, ProviderError } from '@/lib/ai/providers'
+import { composeSystemPrompt, getPersona } from '@/lib/personas'
+import { getConversationStore } from '@/lib/storage'
+import { type ChatMessageMetadata, type ChatUIMessage, getMessageText } from '@/lib/chat/messages'
+import { ChatRequestError, chatErrorResponse, toChatErrorBody } from '@/lib/chat/errors'
+import { parseChatRequest } from '@/lib/chat/validation'
+import {
+	compactConversation,
+	formatContextSummary,
+	getContextWindowOptionsFromEnv,
+	getSummarizerFromEnv,
+} from '@/lib/chat/context-window'
+import {
+	type GuardrailVerdict,
+	createGuardrailTransform,
+	enforceSocraticReply,
+	getGuardrailFromEnv,
+} from '@/lib/chat/guardrail'
+import { findHintRequest, formatHintInstruction } from '@/lib/chat/hints'
+import { findRevealRequest, formatRevealPrompt } from '@/lib/chat/reveal'
+import {
+	type Reflection,
+	WRAP_UP_INSTRUCTION,
+	generateReflection,
+	isWrapUpRequest,
+} from '@/lib/chat/reflection'
+import { createReplyReviewTransform } from '@/lib/chat/reply-review'
+import { CONTINUE_INSTRUCTION, findStoppedReply, markReplyStopped } from '@/lib/chat/continuation'
+import { STREAM_ID_HEADER, getStreamRegistry } from '@/lib/chat/stream-registry'
+import {
+	type LearningProgress,
+	assessProgress,
+	createProgressTransform,
+	findObjective,
+	findSavedProgress,
+	formatObjective,
+} from '@/lib/chat/learning'
+import { limitRequest } from '@/lib/rate-limit'
 
 export async function POST(req: Request) {
+	// Set once the reply is registered, so a failure before it streams drops it
+	let openedStreamId: string | undefined
 	try {
-		const { messages } = await req.json()
-
-		// Validate messages
-		if (!messages || !Array.isArray(messages) || messages.length === 0) {
-			return Response.json(
-				{ error: 'Messages array is required and cannot be empty' },
-				{ status: 400 }
-			)
-		}
+		// Checked before anything else so a flood of requests stays cheap
+		const limit = await limitRequest(req)
+		if (limit instanceof Response) return limit
+
+		// Rejects malformed bodies with a 4xx and a stable error code
+		const { messages, provider, model, personaId, conversationId } =
+			await parseChatRequest(req)
+
+		// Pick the provider/model; each provider checks its own configuration
+		const resolved = resolveModel({ provider, model })
+		const chatModel = limit.charge(resolved.model)
+
+		// What the server keeps of the conversation: its own summaries of older
+		// turns and progress assessments, and every branch. The client's copy
+		// may have been edited.
+		const savedConversation = conversationId
+			? await getConversationStore()
+					.get(conversationId)
+					.catch((error) => {
+						console.error('Error loading conversation:', error)
+						return null
+					})
+			: null
+		const savedSummaries = savedConversation?.contextSummaries ?? []
+
+		// Long sessions send a summary of older turns instead of the turns
+		const contextOptions = getContextWindowOptionsFromEnv()
+		const context = await compactConversation(
+			messages,
+			contextOptions,
+			getSummarizerFromEnv(chatModel),
+			savedSummaries
+		).catch((error) => {
+			console.error('Error summarizing conversation:', error)
+			return compactConversation(messages, contextOptions, undefined, savedSummaries)
+		})
+		const objective = findObjective(messages)
+		const previousProgress = findSavedProgress(messages, savedConversation?.learningProgress ?? [])
+
+		// Continuing a stopped reply answers the same learner turn as before
+		const stoppedReply = findStoppedReply(messages)
+		const request = stoppedReply ? messages.slice(0, -1) : messages
+
+		// Hint levels count the hints saved on every branch, not only the ones
+		// the client sends back, so the ladder can't be reset from the browser
+		const hint = findHintRequest(
+			request,
+			savedConversation
+				? Object.values(savedConversation.tree.nodes)
+						.map((node) => node.message)
+						.filter((message) => message.id !== stoppedReply?.id)
+				: []
+		)
+
+		// A confirmed reveal swaps the Socratic prompt for a full explanation,
+		// for this reply only
+		const revealed = findRevealRequest(request)
+		const isWrapUp = isWrapUpRequest(request)
 
-		// Check for OpenAI API key
-		if (!process.env.OPENAI_API_KEY) {
-			return Response.json(
-				{ error: 'OpenAI API key not configured' },
-				{ status: 500 }
-			)
+		const system = [
+			revealed ? formatRevealPrompt(revealed) : composeSystemPrompt(getPersona(personaId)),
+			objective && !revealed && formatObjective(objective, previousProgress),
+			context.summary && formatContextSummary(context.summary),
+			hint && formatHintInstruction(hint),
+			isWrapUp && WRAP_UP_INSTRUCTION,
+			stoppedReply && CONTINUE_INSTRUCTION,
+		]
+			.filter(Boolean)
+			.join('\n\n')
+
+		// Replies that give the answer away are rewritten before the learner sees
+		// them, unless the learner asked for the answer. The closing reply asks
+		// no question, so it isn't checked either.
+		const guardrail = revealed || isWrapUp ? null : getGuardrailFromEnv(chatModel)
+		const learnerMessage = getMessageText(request[request.length - 1])
+		let verdict: GuardrailVerdict | undefined
+		let progress: LearningProgress | undefined
+		let reflection: Reflection | undefined
+
+		const transforms = [
+			guardrail &&
+				createGuardrailTransform(
+					(reply) => enforceSocraticReply(reply, { ...guardrail, learnerMessage }),
+					(result) => {
+						verdict = result
+					}
+				),
+			// With an objective set, progress is re-assessed after every reply
+			objective &&
+				createProgressTransform(
+					(reply) =>
+						assessProgress({
+							model: chatModel,
+							objective,
+							previous: previousProgress,
+							messages: [
+								...context.messages,
+								{ id: 'reply', role: 'assistant', parts: [{ type: 'text', text: reply }] },
+							],
+						}).catch((error) => {
+							console.error('Error assessing learning progress:', error)
+							return null
+						}),
+					(result) => {
+						progress = result
+					}
+				),
+			// Wrapping up attaches a reflection on the whole session to the closing reply
+			isWrapUp &&
+				createReplyReviewTransform(
+					(reply) =>
+						generateReflection({
+							model: chatModel,
+							messages: [
+								...context.messages,
+								{ id: 'reply', role: 'assistant', parts: [{ type: 'text', text: reply }] },
+							],
+							summary: context.summary,
+						}).catch((error) => {
+							console.error('Error generating reflection:', error)
+							return null
+						}),
+					(result) => {
+						reflection = result
+					}
+				),
+		].filter((transform): transform is StreamTextTransform<ToolSet> => !!transform)
+
+		// The reply outlives this request: a client that lost its connection can
+		// resume it, and it only stops when cancelled or nobody comes back for it
+		const streamId = generateId()
+		const streams = getStreamRegistry()
+		const abortSignal = streams.open(
+			streamId,
+			conversationId ? { conversationId, messageId: messages[messages.length - 1].id } : undefined
+		)
+		openedStreamId = streamId
+		streams.attach(streamId, req.signal)
+
+		// Saves the learner's turn before the reply, so a page reloaded while it
+		// streams finds the turn unanswered and picks the reply back up
+		if (conversationId) {
+			try {
+				await getConversationStore().saveMessages(conversationId, messages)
+				// A new summary is kept for the next requests to build on
+				if (context.summary && !savedSummaries.includes(context.summary)) {
+					await getConversationStore().saveContextSummary(conversationId, context.summary)
+				}
+			} catch (error) {
+				console.error('Error saving conversation:', error)
+			}
 		}
 
 		// Convert UIMessages to ModelMessages using the correct v5 function
-		const modelMessages = convertToModelMessages(messages)
+		const modelMessages = convertToModelMessages(context.messages)
 		const result = streamText({
-			model: openai('gpt-4o-mini'),
-			system: `You are a Socratic tutor. Your role is to guide users to discover insights through thoughtful questions rather than providing direct answers.
-
-Key principles:
-- Ask probing questions that help users think deeper
-- Guide users to discover answers themselves
-- Be encouraging and supportive
-- Ask one question at a time
-- Build on the user's responses
-- Help users explore different perspectives
-
-Always respond in a conversational, engaging manner that encourages further exploration of the topic.`,
+			model: chatModel,
+			system,
 			messages: modelMessages,
+			abortSignal,
+			...(transforms.length > 0 && { experimental_transform: transforms }),
 		})
 
-		return result.toUIMessageStreamResponse()
+		return result.toUIMessageStreamResponse<ChatUIMessage>({
+			originalMessages: messages,
+			headers: {
+				[STREAM_ID_HEADER]: streamId,
+				...limit.headers,
+			},
+			generateMessageId: generateId,
+			// Keeps reading the reply after the browser goes away, for readers
+			// that resume and so onFinish still saves what was generated
+			consumeSseStream: ({ stream }) => streams.record(streamId, stream),
+			// The reply has started streaming, so failures can't change the status;
+			// the client reads the code from the error part like from a rejection
+			onError: (error) => {
+				console.error('Error streaming reply:', error)
+				return JSON.stringify(toChatErrorBody(error))
+			},
+			messageMetadata: ({ part }): ChatMessageMetadata | undefined => {
+				// A continued reply keeps the metadata it started with
+				if (part.type === 'start' && stoppedReply) return { stopped: false }
+				if (part.type === 'start') {
+					return {
+						createdAt: new Date().toISOString(),
+						...(context.summary && { contextSummary: context.summary }),
+						...(hint && { hint: { questionId: hint.question.id, level: hint.level } }),
+						...(revealed && { reveal: { questionId: revealed.id } }),
+					}
+				}
+				if (part.type === 'finish' && (verdict || progress || reflection)) {
+					return {
+						...(verdict && { guardrail: verdict }),
+						...(progress && { progress }),
+						...(reflection && { reflection }),
+					}
+				}
+			},
+			// Persist both turns once the reply is complete, or what there is of
+			// the reply when the learner stopped it
+			onFinish: async ({ messages: updatedMessages, responseMessage, isAborted }) => {
+				if (!conversationId) return
+
+				try {
+					await getConversationStore().saveMessages(
+						conversationId,
+						isAborted ? markReplyStopped(updatedMessages) : updatedMessages
+					)
+					// The next reply is steered and assessed from here
+					if (progress) {
+						await getConversationStore().saveLearningProgress(conversationId, responseMessage.id, progress)
+					}
+				} catch (error) {
+					console.error('Error saving conversation:', error)
+				}
+			},
+		})
 	} catch (error) {
+		// Nothing will be recorded, so a reloaded page mustn't wait for it
+		if (openedStreamId) getStreamRegistry().discard(openedStreamId)
+
+		if (error instanceof ChatRequestError || error instanceof ProviderError) {
+			return chatErrorResponse(error.code, error.message, error.status)
+		}
+
 		console.error('Error in chat API:', error)
-		return Response.json(
-			{ error: 'Failed to process chat request' },
-			{ status: 500 }
-		)
+		return chatErrorResponse('INTERNAL_ERROR', 'Failed to process chat request', 500)
 	}
 }
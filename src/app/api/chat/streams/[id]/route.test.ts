@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ */
+
+import { GET, DELETE } from './route'
+import { StreamRegistry, setStreamRegistry } from '@/lib/chat/stream-registry'
+
+const context = (id: string) => ({ params: Promise.resolve({ id }) })
+const request = (method: string, query = '') => new Request(`http://localhost/api/chat/streams/s1${query}`, { method })
+
+const events = ['data: {"type":"start"}\n\n', 'data: {"type":"text-delta","delta":"Hi"}\n\n', 'data: [DONE]\n\n']
+
+const finished = async (registry: StreamRegistry) => {
+	const signal = registry.open('s1')
+	await registry.record(
+		's1',
+		new ReadableStream<string>({
+			start(controller) {
+				events.forEach((event) => controller.enqueue(event))
+				controller.close()
+			},
+		})
+	)
+	return signal
+}
+
+describe('/api/chat/streams/[id] route', () => {
+	let registry: StreamRegistry
+
+	beforeEach(() => {
+		registry = new StreamRegistry()
+		setStreamRegistry(registry)
+	})
+
+	afterEach(() => {
+		setStreamRegistry(null)
+	})
+
+	it('should replay the reply after the events already read', async () => {
+		await finished(registry)
+
+		const response = await GET(request('GET', '?after=1'), context('s1'))
+
+		expect(response.status).toBe(200)
+		expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+		expect(await response.text()).toBe(events.slice(1).join(''))
+	})
+
+	it('should replay the whole reply without `after`', async () => {
+		await finished(registry)
+
+		const response = await GET(request('GET'), context('s1'))
+
+		expect(await response.text()).toBe(events.join(''))
+	})
+
+	it('should return 404 for an unknown stream', async () => {
+		const response = await GET(request('GET'), context('missing'))
+
+		expect(response.status).toBe(404)
+	})
+
+	it('should reject an invalid `after`', async () => {
+		await finished(registry)
+
+		const response = await GET(request('GET', '?after=-1'), context('s1'))
+
+		expect(response.status).toBe(400)
+	})
+
+	it('should stop the reply when it is cancelled', async () => {
+		const signal = registry.open('s1')
+
+		const response = await DELETE(request('DELETE'), context('s1'))
+
+		expect(response.status).toBe(204)
+		expect(signal.aborted).toBe(true)
+		expect((await DELETE(request('DELETE'), context('missing'))).status).toBe(404)
+	})
+})
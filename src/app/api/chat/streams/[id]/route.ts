@@ -0,0 +1,36 @@
+import { UI_MESSAGE_STREAM_HEADERS } from 'ai'
+
+import { getStreamRegistry } from '@/lib/chat/stream-registry'
+
+interface RouteContext {
+	params: Promise<{ id: string }>
+}
+
+// Replays a reply from the event after the ones the client already read, then
+// follows it live. The client's own request to /api/chat may have dropped.
+export async function GET(req: Request, { params }: RouteContext) {
+	const { id } = await params
+	const after = Number(new URL(req.url).searchParams.get('after') ?? 0)
+	if (!Number.isInteger(after) || after < 0) {
+		return Response.json({ error: '`after` must be a non-negative integer' }, { status: 400 })
+	}
+
+	const streams = getStreamRegistry()
+	const stream = streams.resume(id, after)
+	if (!stream) {
+		return Response.json({ error: 'Stream not found' }, { status: 404 })
+	}
+
+	streams.attach(id, req.signal)
+	return new Response(stream.pipeThrough(new TextEncoderStream()), { headers: UI_MESSAGE_STREAM_HEADERS })
+}
+
+// Stops a reply for good; dropping the connection only pauses it
+export async function DELETE(_req: Request, { params }: RouteContext) {
+	const { id } = await params
+
+	if (!getStreamRegistry().cancel(id)) {
+		return Response.json({ error: 'Stream not found' }, { status: 404 })
+	}
+	return new Response(null, { status: 204 })
+}
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { POST } from './route'
+import { FileConversationStore, setConversationStore } from '@/lib/storage'
+import { MemoryRateLimitStore, RateLimiter, setRateLimiter } from '@/lib/rate-limit'
+
+const generate = (id: string, body: Record<string, unknown> = { provider: 'mock' }) =>
+	POST(
+		new Request(`http://localhost/api/conversations/${id}/flashcards`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(body),
+		}),
+		{ params: Promise.resolve({ id }) }
+	)
+
+describe('/api/conversations/[id]/flashcards', () => {
+	let directory: string
+	let conversations: FileConversationStore
+	let limiter: RateLimiter
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), 'flashcards-api-'))
+		conversations = new FileConversationStore(directory)
+		setConversationStore(conversations)
+		limiter = new RateLimiter(new MemoryRateLimitStore(), { burst: 100, requestsPerMinute: 60, dailyTokenQuota: 100 })
+		setRateLimiter(limiter)
+	})
+
+	afterEach(async () => {
+		setConversationStore(null)
+		setRateLimiter(null)
+		await fs.rm(directory, { recursive: true, force: true })
+	})
+
+	it('should draft cards from the conversation with the chosen model', async () => {
+		await conversations.create({
+			id: 'conv-1',
+			messages: [{ id: 'u1', role: 'user', parts: [{ type: 'text', text: 'Not every prime is odd.' }] }],
+		})
+
+		const response = await generate('conv-1')
+
+		expect(response.status).toBe(200)
+		// The offline mock model answers with an empty, schema-conforming object
+		expect(await response.json()).toEqual({ flashcards: [] })
+	})
+
+	it('should charge the model call against the daily token quota', async () => {
+		await conversations.create({
+			id: 'conv-1',
+			messages: [{ id: 'u1', role: 'user', parts: [{ type: 'text', text: 'Not every prime is odd.' }] }],
+		})
+		const recordUsage = jest.spyOn(limiter, 'recordUsage')
+
+		await generate('conv-1')
+
+		// The mock model reports no usage, but the call is still recorded
+		expect(recordUsage).toHaveBeenCalledWith('anonymous', 0)
+	})
+
+	it('should tell a spent quota apart from too many requests', async () => {
+		await limiter.recordUsage('anonymous', 150)
+
+		const response = await generate('conv-1')
+
+		expect(response.status).toBe(429)
+		expect((await response.json()).code).toBe('QUOTA_EXCEEDED')
+		expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0)
+	})
+
+	it('should need learner messages to draw from', async () => {
+		await conversations.create({ id: 'empty' })
+
+		expect((await generate('missing')).status).toBe(404)
+		expect((await generate('empty')).status).toBe(400)
+	})
+
+	it('should report unknown providers', async () => {
+		const response = await generate('conv-1', { provider: 'nope' })
+
+		expect(response.status).toBe(400)
+		expect((await response.json()).code).toBe('UNKNOWN_PROVIDER')
+	})
+})
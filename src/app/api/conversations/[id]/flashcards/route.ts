@@ -0,0 +1,46 @@
+import { ProviderError, resolveModel } from '@/lib/ai/providers'
+import { chatErrorResponse } from '@/lib/chat/errors'
+import { generateFlashcards } from '@/lib/flashcards/generate'
+import { limitRequest } from '@/lib/rate-limit'
+import { ConversationStoreError, getConversationStore } from '@/lib/storage'
+
+interface RouteContext {
+	params: Promise<{ id: string }>
+}
+
+// Drafts flashcards from the conversation's active branch. The deck and its
+// schedule are kept by the browser, so nothing is stored here.
+export async function POST(req: Request, { params }: RouteContext) {
+	try {
+		// A model call like any chat turn, so it counts against the same limits
+		const limit = await limitRequest(req)
+		if (limit instanceof Response) return limit
+
+		const { id } = await params
+		const body = await req.json().catch(() => ({}))
+		const resolved = resolveModel({ provider: body?.provider, model: body?.model })
+
+		const conversation = await getConversationStore().get(id)
+		if (!conversation) {
+			return Response.json({ error: 'Conversation not found' }, { status: 404 })
+		}
+		if (!conversation.messages.some((message) => message.role === 'user')) {
+			return Response.json({ error: 'There is nothing to make flashcards from yet' }, { status: 400 })
+		}
+
+		// Charged against the client's daily quota like a reply
+		const model = limit.charge(resolved.model)
+		const flashcards = await generateFlashcards({ model, messages: conversation.messages })
+		return Response.json({ flashcards }, { headers: limit.headers })
+	} catch (error) {
+		if (error instanceof ProviderError) {
+			return chatErrorResponse(error.code, error.message, error.status)
+		}
+		if (error instanceof ConversationStoreError) {
+			return Response.json({ error: error.message }, { status: error.status })
+		}
+
+		console.error('Error generating flashcards:', error)
+		return Response.json({ error: 'Failed to generate flashcards' }, { status: 500 })
+	}
+}
@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { GET, POST, PATCH, DELETE } from './route'
+import { FileConversationStore, setConversationStore } from '@/lib/storage'
+
+const context = (id: string) => ({ params: Promise.resolve({ id }) })
+const request = (method: string, body?: unknown) =>
+	new Request('http://localhost/api/conversations/conv-1', {
+		method,
+		headers: { 'Content-Type': 'application/json' },
+		body: body === undefined ? undefined : JSON.stringify(body),
+	})
+
+const messages = [
+	{ id: 'm1', role: 'user', parts: [{ type: 'text', text: 'What is courage?' }] },
+	{ id: 'm2', role: 'assistant', parts: [{ type: 'text', text: 'What do you think?' }] },
+]
+
+describe('/api/conversations/[id] route', () => {
+	let directory: string
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), 'conversation-api-'))
+		setConversationStore(new FileConversationStore(directory))
+	})
+
+	afterEach(async () => {
+		setConversationStore(null)
+		await fs.rm(directory, { recursive: true, force: true })
+	})
+
+	it('should return 404 for an unknown conversation', async () => {
+		const response = await GET(request('GET'), context('conv-1'))
+
+		expect(response.status).toBe(404)
+	})
+
+	it('should save and load messages', async () => {
+		const saved = await POST(request('POST', { messages }), context('conv-1'))
+		expect(saved.status).toBe(200)
+
+		const response = await GET(request('GET'), context('conv-1'))
+		const data = await response.json()
+
+		expect(response.status).toBe(200)
+		expect(data.conversation.messages).toEqual(messages)
+	})
+
+	it('should return 400 when saving without messages', async () => {
+		const response = await POST(request('POST', {}), context('conv-1'))
+
+		expect(response.status).toBe(400)
+	})
+
+	it('should reject malformed messages with the chat error codes', async () => {
+		const response = await POST(
+			request('POST', { messages: [{ id: 'x', role: 'user', parts: [null] }] }),
+			context('conv-1')
+		)
+
+		expect(response.status).toBe(400)
+		expect((await response.json()).code).toBe('INVALID_MESSAGE')
+		expect((await GET(request('GET'), context('conv-1'))).status).toBe(404)
+	})
+
+	it('should return 400 for an invalid id', async () => {
+		const response = await GET(request('GET'), context('..'))
+
+		expect(response.status).toBe(400)
+	})
+
+	it('should rename a conversation and keep the title on later saves', async () => {
+		await POST(request('POST', { messages }), context('conv-1'))
+
+		const response = await PATCH(request('PATCH', { title: '  Courage  ' }), context('conv-1'))
+		const data = await response.json()
+
+		expect(response.status).toBe(200)
+		expect(data.conversation.title).toBe('Courage')
+
+		await POST(request('POST', { messages }), context('conv-1'))
+		const loaded = await (await GET(request('GET'), context('conv-1'))).json()
+		expect(loaded.conversation.title).toBe('Courage')
+	})
+
+	it('should return 400 for an empty title', async () => {
+		const response = await PATCH(request('PATCH', { title: ' ' }), context('conv-1'))
+
+		expect(response.status).toBe(400)
+	})
+
+	it('should return 404 when renaming an unknown conversation', async () => {
+		const response = await PATCH(request('PATCH', { title: 'Courage' }), context('conv-1'))
+
+		expect(response.status).toBe(404)
+	})
+
+	it('should delete a conversation', async () => {
+		await POST(request('POST', { messages }), context('conv-1'))
+
+		const response = await DELETE(request('DELETE'), context('conv-1'))
+
+		expect(response.status).toBe(204)
+		expect((await GET(request('GET'), context('conv-1'))).status).toBe(404)
+	})
+
+	it('should return 404 when deleting an unknown conversation', async () => {
+		const response = await DELETE(request('DELETE'), context('conv-1'))
+
+		expect(response.status).toBe(404)
+	})
+})
@@ -0,0 +1,100 @@
+import {
+	ConversationStoreError,
+	MAX_TITLE_LENGTH,
+	getConversationStore,
+} from '@/lib/storage'
+import { ChatRequestError, chatErrorResponse } from '@/lib/chat/errors'
+import { validateMessages } from '@/lib/chat/validation'
+
+interface RouteContext {
+	params: Promise<{ id: string }>
+}
+
+const errorResponse = (error: unknown, fallback: string) => {
+	if (error instanceof ChatRequestError) {
+		return chatErrorResponse(error.code, error.message, error.status)
+	}
+	if (error instanceof ConversationStoreError) {
+		return Response.json({ error: error.message }, { status: error.status })
+	}
+
+	console.error(`${fallback}:`, error)
+	return Response.json({ error: fallback }, { status: 500 })
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+	try {
+		const { id } = await params
+		const conversation = await getConversationStore().get(id)
+
+		if (!conversation) {
+			return Response.json({ error: 'Conversation not found' }, { status: 404 })
+		}
+
+		return Response.json({ conversation })
+	} catch (error) {
+		return errorResponse(error, 'Failed to load conversation')
+	}
+}
+
+// Sets the active branch, e.g. after switching branches client-side
+export async function POST(req: Request, { params }: RouteContext) {
+	try {
+		const { id } = await params
+		const body = await req.json().catch(() => null)
+
+		if (!body || !Array.isArray(body.messages)) {
+			return Response.json(
+				{ error: 'Messages array is required' },
+				{ status: 400 }
+			)
+		}
+
+		// Checked like chat requests, since searches and the tutor read them back.
+		// Rewinding to before the first turn leaves an empty path.
+		const messages = body.messages.length > 0 ? validateMessages(body.messages) : []
+		const conversation = await getConversationStore().saveMessages(id, messages)
+		return Response.json({ conversation })
+	} catch (error) {
+		return errorResponse(error, 'Failed to save conversation')
+	}
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+	try {
+		const { id } = await params
+		const body = await req.json().catch(() => null)
+		const title = typeof body?.title === 'string' ? body.title.trim() : ''
+
+		if (!title || title.length > MAX_TITLE_LENGTH) {
+			return Response.json(
+				{ error: `Title must be 1-${MAX_TITLE_LENGTH} characters` },
+				{ status: 400 }
+			)
+		}
+
+		const conversation = await getConversationStore().rename(id, title)
+		if (!conversation) {
+			return Response.json({ error: 'Conversation not found' }, { status: 404 })
+		}
+
+		return Response.json({ conversation })
+	} catch (error) {
+		return errorResponse(error, 'Failed to rename conversation')
+	}
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+	try {
+		const { id } = await params
+		const deleted = await getConversationStore().delete(id)
+
+		if (!deleted) {
+			return Response.json({ error: 'Conversation not found' }, { status: 404 })
+		}
+
+		return new Response(null, { status: 204 })
+	} catch (error) {
+		return errorResponse(error, 'Failed to delete conversation')
+	}
+}
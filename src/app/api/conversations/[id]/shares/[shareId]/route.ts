@@ -0,0 +1,28 @@
+import { ConversationStoreError, getShareStore, toPublicTranscript } from '@/lib/storage'
+
+interface RouteContext {
+	params: Promise<{ id: string; shareId: string }>
+}
+
+// Revokes a link; only reachable through the conversation it was shared from
+export async function DELETE(_req: Request, { params }: RouteContext) {
+	try {
+		const { id, shareId } = await params
+		const store = getShareStore()
+		const share = await store.get(shareId)
+
+		if (!share || share.conversationId !== id) {
+			return Response.json({ error: 'Shared transcript not found' }, { status: 404 })
+		}
+
+		const revoked = await store.revoke(shareId)
+		return Response.json({ share: revoked && toPublicTranscript(revoked) })
+	} catch (error) {
+		if (error instanceof ConversationStoreError) {
+			return Response.json({ error: error.message }, { status: error.status })
+		}
+
+		console.error('Error revoking shared transcript:', error)
+		return Response.json({ error: 'Failed to revoke shared transcript' }, { status: 500 })
+	}
+}
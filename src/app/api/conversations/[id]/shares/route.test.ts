@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { POST } from './route'
+import { DELETE } from './[shareId]/route'
+import {
+	FileConversationStore,
+	FileShareStore,
+	getShareStore,
+	setConversationStore,
+	setShareStore,
+} from '@/lib/storage'
+
+const messages = [
+	{ id: 'm1', role: 'user' as const, parts: [{ type: 'text' as const, text: 'What is justice?' }] },
+]
+
+const share = (id: string) =>
+	POST(new Request(`http://localhost/api/conversations/${id}/shares`, { method: 'POST' }), {
+		params: Promise.resolve({ id }),
+	})
+
+const revoke = (id: string, shareId: string) =>
+	DELETE(new Request(`http://localhost/api/conversations/${id}/shares/${shareId}`, { method: 'DELETE' }), {
+		params: Promise.resolve({ id, shareId }),
+	})
+
+describe('/api/conversations/[id]/shares', () => {
+	let directory: string
+	let conversations: FileConversationStore
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), 'shares-api-'))
+		conversations = new FileConversationStore(path.join(directory, 'conversations'))
+		setConversationStore(conversations)
+		setShareStore(new FileShareStore(path.join(directory, 'shares')))
+	})
+
+	afterEach(async () => {
+		setConversationStore(null)
+		setShareStore(null)
+		await fs.rm(directory, { recursive: true, force: true })
+	})
+
+	it('should snapshot the conversation without revealing where it came from', async () => {
+		await conversations.create({ id: 'conv-1', messages })
+
+		const response = await share('conv-1')
+		const data = await response.json()
+
+		expect(response.status).toBe(201)
+		expect(data.share).toEqual({
+			id: expect.any(String),
+			title: 'What is justice?',
+			createdAt: expect.any(String),
+			messages,
+		})
+		expect(data.share).not.toHaveProperty('conversationId')
+	})
+
+	it('should not share missing or empty conversations', async () => {
+		await conversations.create({ id: 'empty' })
+
+		expect((await share('missing')).status).toBe(404)
+		expect((await share('empty')).status).toBe(400)
+	})
+
+	it('should revoke a link only from the conversation it was shared from', async () => {
+		await conversations.create({ id: 'conv-1', messages })
+		const { share: shared } = await (await share('conv-1')).json()
+
+		expect((await revoke('conv-2', shared.id)).status).toBe(404)
+		expect((await getShareStore().get(shared.id))?.revokedAt).toBeUndefined()
+
+		const response = await revoke('conv-1', shared.id)
+
+		expect(response.status).toBe(200)
+		expect((await getShareStore().get(shared.id))?.revokedAt).toEqual(expect.any(String))
+	})
+})
@@ -0,0 +1,39 @@
+import {
+	ConversationStoreError,
+	getConversationStore,
+	getShareStore,
+	toPublicTranscript,
+} from '@/lib/storage'
+
+interface RouteContext {
+	params: Promise<{ id: string }>
+}
+
+// Snapshots the conversation's active branch as a read-only shared transcript
+export async function POST(_req: Request, { params }: RouteContext) {
+	try {
+		const { id } = await params
+		const conversation = await getConversationStore().get(id)
+
+		if (!conversation) {
+			return Response.json({ error: 'Conversation not found' }, { status: 404 })
+		}
+		if (conversation.messages.length === 0) {
+			return Response.json({ error: 'There is nothing to share yet' }, { status: 400 })
+		}
+
+		const share = await getShareStore().create({
+			conversationId: id,
+			title: conversation.title,
+			messages: conversation.messages,
+		})
+		return Response.json({ share: toPublicTranscript(share) }, { status: 201 })
+	} catch (error) {
+		if (error instanceof ConversationStoreError) {
+			return Response.json({ error: error.message }, { status: error.status })
+		}
+
+		console.error('Error sharing conversation:', error)
+		return Response.json({ error: 'Failed to share conversation' }, { status: 500 })
+	}
+}
@@ -0,0 +1,64 @@
+import {
+	ConversationStoreError,
+	getConversationStore,
+	isValidConversationId,
+} from '@/lib/storage'
+import { ChatRequestError } from '@/lib/chat/errors'
+import { validateMessages } from '@/lib/chat/validation'
+
+// `?q=` filters by title and message text
+export async function GET(req: Request) {
+	try {
+		const query = new URL(req.url).searchParams.get('q')?.trim()
+		const store = getConversationStore()
+		const conversations = query ? await store.search(query) : await store.list()
+		return Response.json({ conversations })
+	} catch (error) {
+		console.error('Error listing conversations:', error)
+		return Response.json(
+			{ error: 'Failed to list conversations' },
+			{ status: 500 }
+		)
+	}
+}
+
+export async function POST(req: Request) {
+	try {
+		const body = await req.json().catch(() => null)
+		if (!body || typeof body !== 'object') {
+			return Response.json(
+				{ error: 'Request body must be a JSON object' },
+				{ status: 400 }
+			)
+		}
+
+		const { id, title, messages } = body
+		if (id !== undefined && !isValidConversationId(id)) {
+			return Response.json({ error: 'Invalid conversation id' }, { status: 400 })
+		}
+		if (title !== undefined && typeof title !== 'string') {
+			return Response.json({ error: 'Title must be a string' }, { status: 400 })
+		}
+		if (messages !== undefined && !Array.isArray(messages)) {
+			return Response.json({ error: 'Messages must be an array' }, { status: 400 })
+		}
+
+		// Imported conversations must be ones /api/chat will accept later
+		const conversation = await getConversationStore().create({
+			id,
+			title,
+			messages: messages?.length ? validateMessages(messages) : messages,
+		})
+		return Response.json({ conversation }, { status: 201 })
+	} catch (error) {
+		if (error instanceof ConversationStoreError || error instanceof ChatRequestError) {
+			return Response.json({ error: error.message }, { status: error.status })
+		}
+
+		console.error('Error creating conversation:', error)
+		return Response.json(
+			{ error: 'Failed to create conversation' },
+			{ status: 500 }
+		)
+	}
+}
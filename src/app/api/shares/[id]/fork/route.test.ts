@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { POST } from './route'
+import {
+	FileConversationStore,
+	FileShareStore,
+	setConversationStore,
+	setShareStore,
+} from '@/lib/storage'
+
+const messages = [
+	{ id: 'm1', role: 'user' as const, parts: [{ type: 'text' as const, text: 'What is justice?' }] },
+]
+
+const fork = (id: string) =>
+	POST(new Request(`http://localhost/api/shares/${id}/fork`, { method: 'POST' }), {
+		params: Promise.resolve({ id }),
+	})
+
+describe('/api/shares/[id]/fork', () => {
+	let directory: string
+	let conversations: FileConversationStore
+	let shares: FileShareStore
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), 'fork-api-'))
+		conversations = new FileConversationStore(path.join(directory, 'conversations'))
+		shares = new FileShareStore(path.join(directory, 'shares'))
+		setConversationStore(conversations)
+		setShareStore(shares)
+	})
+
+	afterEach(async () => {
+		setConversationStore(null)
+		setShareStore(null)
+		await fs.rm(directory, { recursive: true, force: true })
+	})
+
+	it('should copy the transcript into a new conversation', async () => {
+		const shared = await shares.create({ conversationId: 'conv-1', title: 'Justice', messages })
+
+		const response = await fork(shared.id)
+		const { conversation } = await response.json()
+
+		expect(response.status).toBe(201)
+		expect(conversation.id).not.toBe('conv-1')
+		expect(await conversations.get(conversation.id)).toMatchObject({ title: 'Justice', messages })
+	})
+
+	it('should refuse revoked and unknown links', async () => {
+		const shared = await shares.create({ conversationId: 'conv-1', title: 'Justice', messages })
+		await shares.revoke(shared.id)
+
+		expect((await fork(shared.id)).status).toBe(410)
+		expect((await fork('missing')).status).toBe(404)
+	})
+})
@@ -0,0 +1,33 @@
+import { ConversationStoreError, getConversationStore, getShareStore } from '@/lib/storage'
+
+interface RouteContext {
+	params: Promise<{ id: string }>
+}
+
+// Copies a shared transcript into a new conversation of the reader's own
+export async function POST(_req: Request, { params }: RouteContext) {
+	try {
+		const { id } = await params
+		const share = await getShareStore().get(id)
+
+		if (!share) {
+			return Response.json({ error: 'Shared transcript not found' }, { status: 404 })
+		}
+		if (share.revokedAt) {
+			return Response.json({ error: 'This link has been revoked' }, { status: 410 })
+		}
+
+		const conversation = await getConversationStore().create({
+			title: share.title,
+			messages: share.messages,
+		})
+		return Response.json({ conversation }, { status: 201 })
+	} catch (error) {
+		if (error instanceof ConversationStoreError) {
+			return Response.json({ error: error.message }, { status: error.status })
+		}
+
+		console.error('Error forking shared transcript:', error)
+		return Response.json({ error: 'Failed to fork shared transcript' }, { status: 500 })
+	}
+}
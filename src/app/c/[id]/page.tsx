@@ -0,0 +1,15 @@
+import { notFound } from 'next/navigation'
+
+import { ChatWorkspace } from '@/components/ChatWorkspace'
+import { isValidConversationId } from '@/lib/storage/conversation-store'
+
+interface ConversationPageProps {
+	params: Promise<{ id: string }>
+}
+
+export default async function ConversationPage({ params }: ConversationPageProps) {
+	const { id } = await params
+	if (!isValidConversationId(id)) notFound()
+
+	return <ChatWorkspace conversationId={id} />
+}
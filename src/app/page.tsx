@@ -1,14 +1,20 @@
-import { ChatContainer } from '@/components/ChatContainer'
-
-export default function Home() {
-	return (
-		<main className="font-sans min-h-screen flex flex-col">
-			<ChatContainer
-				autoScroll
-				showMessageActions
-				maxHeight="1200px"
-			/>
-		</main>
-	)
+import { randomUUID } from 'crypto'
+
+import { ChatWorkspace } from '@/components/ChatWorkspace'
+import { MAX_OBJECTIVE_LENGTH } from '@/lib/chat/learning'
+
+// Every visit to `/` starts a fresh conversation
+export const dynamic = 'force-dynamic'
+
+interface HomeProps {
+	searchParams: Promise<{ objective?: string | string[] }>
 }
 
+// `/?objective=...` lets a teacher hand out a link with the objective preset
+export default async function Home({ searchParams }: HomeProps) {
+	const { objective } = await searchParams
+	const initialObjective =
+		typeof objective === 'string' ? objective.trim().slice(0, MAX_OBJECTIVE_LENGTH) : undefined
+
+	return <ChatWorkspace conversationId={randomUUID()} initialObjective={initialObjective} />
+}
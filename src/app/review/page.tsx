@@ -0,0 +1,6 @@
+import { ReviewSession } from '@/components/ReviewSession'
+
+// The deck is kept in the browser, so the page itself has nothing to load
+export default function ReviewPage() {
+	return <ReviewSession />
+}
@@ -0,0 +1,52 @@
+/**
+ * @jest-environment node
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import SharePage from './page'
+import { RevokedTranscript, SharedTranscript } from '@/components/SharedTranscript'
+import { FileShareStore, setShareStore } from '@/lib/storage'
+
+const messages = [
+	{ id: 'm1', role: 'user' as const, parts: [{ type: 'text' as const, text: 'What is justice?' }] },
+]
+
+const renderPage = (id: string) => SharePage({ params: Promise.resolve({ id }) })
+
+describe('/share/[id]', () => {
+	let directory: string
+	let shares: FileShareStore
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), 'share-page-'))
+		shares = new FileShareStore(directory)
+		setShareStore(shares)
+	})
+
+	afterEach(async () => {
+		setShareStore(null)
+		await fs.rm(directory, { recursive: true, force: true })
+	})
+
+	it('should show an active transcript', async () => {
+		const shared = await shares.create({ conversationId: 'conv-1', title: 'Justice', messages })
+
+		const page = await renderPage(shared.id)
+
+		expect(page.type).toBe(SharedTranscript)
+		expect(page.props.transcript.messages).toEqual(messages)
+	})
+
+	it('should not send the messages of a revoked transcript', async () => {
+		const shared = await shares.create({ conversationId: 'conv-1', title: 'Justice', messages })
+		const revoked = await shares.revoke(shared.id)
+
+		const page = await renderPage(shared.id)
+
+		expect(page.type).toBe(RevokedTranscript)
+		expect(page.props).toEqual({ title: 'Justice', revokedAt: revoked?.revokedAt })
+	})
+})
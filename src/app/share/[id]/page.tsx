@@ -0,0 +1,25 @@
+import { notFound } from 'next/navigation'
+
+import { RevokedTranscript, SharedTranscript } from '@/components/SharedTranscript'
+import { getShareStore, isValidShareId, toPublicTranscript } from '@/lib/storage'
+
+// Read on every request so a revoked link stops working straight away
+export const dynamic = 'force-dynamic'
+
+interface SharePageProps {
+	params: Promise<{ id: string }>
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+	const { id } = await params
+	if (!isValidShareId(id)) notFound()
+
+	const share = await getShareStore().get(id)
+	if (!share) notFound()
+
+	// Decided here, so the messages of a revoked share are never sent along
+	if (share.revokedAt) {
+		return <RevokedTranscript title={share.title} revokedAt={share.revokedAt} />
+	}
+	return <SharedTranscript transcript={toPublicTranscript(share)} />
+}
@@ -3,12 +3,23 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import '@testing-library/jest-dom'
 import { ChatContainer, ChatContainerProps } from './ChatContainer'
+import type { Message } from '../ConversationView'
+import { createConversationTree, mergeMessagePath } from '@/lib/chat/conversation-tree'
 
 // Mock the child components to focus on integration logic
 jest.mock('../ConversationView', () => ({
-  ConversationView: ({ messages, onRetry, autoScroll, maxHeight, showMessageActions, onCopyMessage }: any) => (
+  ConversationView: ({ messages, onRetry, autoScroll, maxHeight, showMessageActions, onCopyMessage, onSwitchBranch }: any) => (
     <div data-testid="conversation-view">
       <div data-testid="message-count">{messages.length}</div>
+      <div data-testid="message-contents">{messages.map((m: Message) => m.content).join('|')}</div>
+      <div data-testid="message-statuses">{messages.map((m: Message) => m.status).join('|')}</div>
+      {messages
+        .filter((m: Message) => m.branch)
+        .map((m: Message) => (
+          <button key={m.id} onClick={() => onSwitchBranch(m.id, 'previous')}>
+            Branch {m.branch?.index} / {m.branch?.count}
+          </button>
+        ))}
       <div data-testid="auto-scroll">{autoScroll?.toString()}</div>
       <div data-testid="max-height">{maxHeight || 'none'}</div>
       {onRetry && <button onClick={() => onRetry('test-retry')}>Mock Retry</button>}
@@ -105,6 +116,121 @@ describe('ChatContainer Component', () => {
     })
   })
 
+  describe('Conversation Persistence', () => {
+    const originalFetch = global.fetch
+
+    afterEach(() => {
+      global.fetch = originalFetch
+    })
+
+    it('hydrates saved messages for a conversation ID', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          conversation: {
+            id: 'saved-conversation',
+            messages: [
+              { id: 'm1', role: 'user', parts: [{ type: 'text', text: 'Hello' }] },
+              { id: 'm2', role: 'assistant', parts: [{ type: 'text', text: 'Hi!' }] },
+            ],
+          },
+        }),
+      })
+
+      render(<ChatContainer conversationId="saved-conversation" />)
+
+      await waitFor(() => {
+        expect(screen.getByTestId('message-count')).toHaveTextContent('2')
+      })
+      expect(global.fetch).toHaveBeenCalledWith('/api/conversations/saved-conversation')
+    })
+
+    it('reports the saved learning objective and progress', async () => {
+      const progress = { subGoals: [{ description: 'Define a prime', reached: true }], misconceptions: [] }
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          conversation: {
+            id: 'objective',
+            messages: [
+              { id: 'm1', role: 'user', parts: [{ type: 'text', text: 'Hi' }], metadata: { objective: 'Primes' } },
+              { id: 'm2', role: 'assistant', parts: [{ type: 'text', text: 'Is 2 prime?' }], metadata: { progress } },
+            ],
+          },
+        }),
+      })
+      const onLearningStateChange = jest.fn()
+
+      render(<ChatContainer conversationId="objective" onLearningStateChange={onLearningStateChange} />)
+
+      await waitFor(() => {
+        expect(onLearningStateChange).toHaveBeenCalledWith({ objective: 'Primes', progress })
+      })
+    })
+
+    it('starts empty when nothing has been saved yet', async () => {
+      global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 404 })
+
+      render(<ChatContainer conversationId="new-conversation" />)
+
+      await waitFor(() => expect(global.fetch).toHaveBeenCalled())
+      expect(screen.getByTestId('message-count')).toHaveTextContent('0')
+    })
+
+    it('does not fetch when initial messages are provided', () => {
+      global.fetch = jest.fn()
+
+      render(
+        <ChatContainer
+          conversationId="conversation"
+          initialMessages={[
+            { id: '1', role: 'user', content: 'Hi', status: 'complete', timestamp: new Date() },
+          ]}
+        />
+      )
+
+      expect(global.fetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Branching', () => {
+    const originalFetch = global.fetch
+    const message = (id: string, role: 'user' | 'assistant', text: string) => ({
+      id,
+      role,
+      parts: [{ type: 'text' as const, text }],
+    })
+
+    afterEach(() => {
+      global.fetch = originalFetch
+    })
+
+    it('switches to an earlier branch and saves the selection', async () => {
+      const original = [message('u1', 'user', 'First answer'), message('a1', 'assistant', 'Why?')]
+      const edited = [message('u2', 'user', 'Second answer'), message('a2', 'assistant', 'How so?')]
+      const tree = mergeMessagePath(createConversationTree(original), edited)
+
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ conversation: { id: 'forked', messages: edited, tree } }),
+      })
+
+      render(<ChatContainer conversationId="forked" />)
+
+      const switcher = await screen.findByRole('button', { name: 'Branch 2 / 2' })
+      expect(screen.getByTestId('message-contents')).toHaveTextContent('Second answer|How so?')
+
+      fireEvent.click(switcher)
+
+      expect(screen.getByTestId('message-contents')).toHaveTextContent('First answer|Why?')
+      expect(screen.getByRole('button', { name: 'Branch 1 / 2' })).toBeInTheDocument()
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        '/api/conversations/forked',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ messages: original }) })
+      )
+    })
+  })
+
   describe('Message State Management', () => {
     it('adds new message when user sends via MessageInput', async () => {
       render(<ChatContainer />)
@@ -295,6 +421,77 @@ describe('ChatContainer Component', () => {
     })
   })
 
+  describe('Export', () => {
+    const originalCreateObjectURL = URL.createObjectURL
+    const originalRevokeObjectURL = URL.revokeObjectURL
+
+    afterEach(() => {
+      URL.createObjectURL = originalCreateObjectURL
+      URL.revokeObjectURL = originalRevokeObjectURL
+    })
+
+    it('downloads the conversation in the chosen format', async () => {
+      URL.createObjectURL = jest.fn(() => 'blob:export')
+      URL.revokeObjectURL = jest.fn()
+      const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+      render(
+        <ChatContainer
+          initialMessages={[
+            { id: '1', role: 'user', content: 'What is justice?', status: 'complete', timestamp: new Date() },
+          ]}
+        />
+      )
+
+      fireEvent.click(screen.getByRole('button', { name: 'Export' }))
+      fireEvent.click(screen.getByRole('menuitem', { name: 'Markdown' }))
+
+      const blob = (URL.createObjectURL as jest.Mock).mock.calls[0][0] as Blob
+      expect(blob.type).toBe('text/markdown;charset=utf-8')
+      // jsdom's Blob has no text()
+      const text = await new Promise((resolve) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result)
+        reader.readAsText(blob)
+      })
+      expect(text).toContain('# What is justice?')
+      expect(click.mock.instances[0]).toHaveAttribute('download', 'what-is-justice.md')
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:export')
+      expect(screen.queryByRole('menu')).not.toBeInTheDocument()
+      click.mockRestore()
+    })
+
+    it('has nothing to export before the first message', () => {
+      render(<ChatContainer />)
+
+      expect(screen.getByRole('button', { name: 'Export' })).toBeDisabled()
+    })
+  })
+
+  describe('Wrap-up', () => {
+    it('can wrap up once the tutor has replied', () => {
+      const { rerender } = render(
+        <ChatContainer
+          initialMessages={[
+            { id: '1', role: 'user', content: 'What is justice?', status: 'complete', timestamp: new Date() },
+          ]}
+        />
+      )
+      expect(screen.getByRole('button', { name: 'Wrap up' })).toBeDisabled()
+
+      rerender(
+        <ChatContainer
+          key="replied"
+          initialMessages={[
+            { id: '1', role: 'user', content: 'What is justice?', status: 'complete', timestamp: new Date() },
+            { id: '2', role: 'assistant', content: 'What do you think?', status: 'complete', timestamp: new Date() },
+          ]}
+        />
+      )
+      expect(screen.getByRole('button', { name: 'Wrap up' })).toBeEnabled()
+    })
+  })
+
   describe('Loading and Error States', () => {
     it('shows loading state during message processing', async () => {
       render(<ChatContainer />)
@@ -317,6 +514,58 @@ describe('ChatContainer Component', () => {
       expect(onError).toBeDefined()
     })
 
+    it('explains rejected requests using the error code', async () => {
+      const originalFetch = global.fetch
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        status: 400,
+        text: async () =>
+          JSON.stringify({ error: 'Message 0 is too long', code: 'MESSAGE_TOO_LONG' }),
+      })
+
+      try {
+        render(<ChatContainer />)
+
+        const mockInput = screen.getByTestId('mock-input')
+        fireEvent.change(mockInput, { target: { value: 'Test message' } })
+        fireEvent.blur(mockInput)
+
+        expect(await screen.findByRole('alert')).toHaveTextContent(
+          'Your message is too long. Try shortening it.'
+        )
+      } finally {
+        global.fetch = originalFetch
+      }
+    })
+
+    it('counts down and resends when the request is rate limited', async () => {
+      const originalFetch = global.fetch
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: false,
+        status: 429,
+        text: async () =>
+          JSON.stringify({ error: 'Too many requests', code: 'RATE_LIMITED', retryAfter: 1 }),
+      })
+
+      try {
+        render(<ChatContainer />)
+
+        const mockInput = screen.getByTestId('mock-input')
+        fireEvent.change(mockInput, { target: { value: 'Test message' } })
+        fireEvent.blur(mockInput)
+
+        const notice = await screen.findByRole('alert')
+        expect(notice).toHaveTextContent('You are sending messages too quickly')
+        expect(screen.getByRole('timer')).toHaveTextContent('1s')
+        expect(screen.getByTestId('input-disabled')).toHaveTextContent('true')
+        expect(screen.getByTestId('message-statuses')).toHaveTextContent('complete')
+
+        await waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(2), { timeout: 3000 })
+      } finally {
+        global.fetch = originalFetch
+      }
+    })
+
     it('recovers from error states', async () => {
       render(<ChatContainer />)
 
@@ -1,87 +1,128 @@
 'use client'
 
-import React, { useCallback } from 'react'
-import { useChat } from '@ai-sdk/react'
-import { DefaultChatTransport } from 'ai'
+import React, { useCallback, useState } from 'react'
+import { NotebookPen } from 'lucide-react'
 
 import { ConversationView, Message } from '../ConversationView'
 import { MessageInput } from '../MessageInput'
+import { PersonaSelector } from '../PersonaSelector'
+import { RateLimitNotice } from './RateLimitNotice'
+import { ExportMenu } from './ExportMenu'
+import { ShareMenu } from './ShareMenu'
+import { FlashcardsAction } from './FlashcardsAction'
+import { Button } from '@/components/ui/button'
+import { useStreamingChat } from '@/hooks/useStreamingChat'
+import { DEFAULT_PERSONA_ID, PersonaId } from '@/lib/personas'
+import type { ChatMessageMetadata } from '@/lib/chat/messages'
+import { getChatErrorMessage } from '@/lib/chat/errors'
+import type { LearningState } from '@/lib/chat/learning'
+import { HINT_REQUEST_TEXT } from '@/lib/chat/hints'
+import { REVEAL_REQUEST_TEXT } from '@/lib/chat/reveal'
+import { WRAP_UP_REQUEST_TEXT } from '@/lib/chat/reflection'
+import {
+	type ExportFormat,
+	EXPORT_FORMATS,
+	createConversationExport,
+	getExportFilename,
+	serializeConversation,
+} from '@/lib/chat/export'
+import { deriveConversationTitle } from '@/lib/storage/conversation-store'
+import { MAX_USER_MESSAGE_LENGTH } from '@/lib/chat/validation'
 
 export interface ChatContainerProps {
 	conversationId?: string
+	provider?: string
+	model?: string
+	personaId?: PersonaId
+	// Sent with each learner message so the tutor steers toward it
+	objective?: string
 	initialMessages?: Message[]
 	autoScroll?: boolean
 	maxHeight?: string
 	showMessageActions?: boolean
 	onMessageSent?: (message: Message) => void
+	onResponseComplete?: () => void
 	onRetry?: (messageId: string) => void
 	onCopyMessage?: (messageId: string, content: string) => void
 	onError?: (error: Error) => void
-}
-
-interface AIMessagePart {
-	type: 'text'
-	text: string
-}
-export interface AIMessage {
-	id: string
-	role: 'user' | 'assistant'
-	parts: AIMessagePart[]
-	createdAt: Date
+	onPersonaChange?: (personaId: PersonaId) => void
+	onLearningStateChange?: (state: LearningState) => void
 }
 
 export function ChatContainer({
 	conversationId,
+	provider,
+	model,
+	personaId: initialPersonaId = DEFAULT_PERSONA_ID,
+	objective,
 	initialMessages = [],
 	autoScroll = true,
 	maxHeight,
 	showMessageActions = false,
 	onMessageSent,
+	onResponseComplete,
 	onRetry,
 	onCopyMessage,
 	onError,
+	onPersonaChange,
+	onLearningStateChange,
 }: ChatContainerProps) {
-	// Use AI SDK's useChat hook
+	const [personaId, setPersonaId] = useState<PersonaId>(initialPersonaId)
+
 	const {
-		messages: aiMessages,
-		sendMessage,
+		messages,
+		chatMessages: aiMessages,
 		status,
+		isStreaming: isLoading,
 		error,
-		regenerate,
+		retryAfter,
+		send,
 		stop,
-	} = useChat({
-		transport: new DefaultChatTransport({ api: '/api/chat' }),
-		messages: initialMessages?.map((msg) => ({
-			id: msg.id,
-			role: msg.role,
-			parts: [{ type: 'text' as const, text: msg.content }],
-			createdAt: msg.timestamp,
-		})),
-	})
-
-	// Convert AI SDK messages to our format for compatibility
-	const isLoading = status === 'streaming'
-	const messages = aiMessages.map((msg: AIMessage) => {
-		const textPart = msg.parts?.find(
-			(part: AIMessagePart) => part.type === 'text'
-		)
-
-		return {
-			id: msg.id,
-			role: msg.role as 'user' | 'assistant',
-			content: textPart?.text || '',
-			status:
-				isLoading && msg === aiMessages[aiMessages.length - 1]
-					? ('streaming' as const)
-					: error
-					? ('failed' as const)
-					: ('complete' as const),
-			timestamp: msg.createdAt || new Date(),
-		}
+		regenerate,
+		continueReply,
+		edit,
+		switchBranch,
+		clearError,
+	} = useStreamingChat({
+		conversationId,
+		provider,
+		model,
+		personaId,
+		objective,
+		initialMessages,
+		onResponseComplete,
+		onLearningStateChange,
 	})
 
+	const isRateLimited = retryAfter !== null
 	const isProcessing = isLoading
 
+	const handleSendMessage = useCallback(
+		(content: string, metadata?: ChatMessageMetadata) => {
+			const message = send(content, metadata)
+			onMessageSent?.(message)
+		},
+		[send, onMessageSent]
+	)
+
+	// Asks for the next hint on the tutor's question; the server decides how strong
+	const handleRequestHint = useCallback(
+		(messageId: string) => handleSendMessage(HINT_REQUEST_TEXT, { hintFor: messageId }),
+		[handleSendMessage]
+	)
+
+	// Confirmed in the UI; the server answers in full for this one reply
+	const handleRevealAnswer = useCallback(
+		(messageId: string) => handleSendMessage(REVEAL_REQUEST_TEXT, { revealFor: messageId }),
+		[handleSendMessage]
+	)
+
+	// Ends the session; the closing reply carries the reflection
+	const handleWrapUp = useCallback(
+		() => handleSendMessage(WRAP_UP_REQUEST_TEXT, { wrapUp: true }),
+		[handleSendMessage]
+	)
+
 	// Handle streaming errors
 	React.useEffect(() => {
 		if (error && onError) {
@@ -93,8 +134,7 @@ export function ChatContainer({
 	const handleRetry = useCallback(
 		async (messageId: string) => {
 			try {
-				// Use AI SDK's regenerate function to retry
-				regenerate()
+				regenerate(messageId)
 
 				// Also call parent's onRetry if provided
 				onRetry?.(messageId)
@@ -106,6 +146,40 @@ export function ChatContainer({
 		[regenerate, onRetry, onError]
 	)
 
+	const handleRateLimitExpired = useCallback(() => {
+		clearError()
+		if (aiMessages[aiMessages.length - 1]?.role === 'user') {
+			regenerate()
+		}
+	}, [clearError, aiMessages, regenerate])
+
+	const handlePersonaChange = useCallback(
+		(nextPersonaId: PersonaId) => {
+			setPersonaId(nextPersonaId)
+			onPersonaChange?.(nextPersonaId)
+		},
+		[onPersonaChange]
+	)
+
+	// Downloads the active branch as a file in the chosen format
+	const handleExport = useCallback(
+		(format: ExportFormat) => {
+			const title = deriveConversationTitle(aiMessages)
+			const data = createConversationExport({ id: conversationId, title, personaId, messages: aiMessages })
+			const blob = new Blob([serializeConversation(data, format)], { type: EXPORT_FORMATS[format].mimeType })
+			const url = URL.createObjectURL(blob)
+
+			const link = document.createElement('a')
+			link.href = url
+			link.download = getExportFilename(title, format)
+			document.body.appendChild(link)
+			link.click()
+			document.body.removeChild(link)
+			URL.revokeObjectURL(url)
+		},
+		[aiMessages, conversationId, personaId]
+	)
+
 	// Handle copy message functionality
 	const handleCopyMessage = useCallback(
 		async (messageId: string, content: string) => {
@@ -145,29 +219,88 @@ export function ChatContainer({
 			role="region"
 			aria-label="Chat conversation interface"
 		>
+			{/* Tutor persona, applied from the next message on */}
+			<div className="flex items-center justify-between px-4 py-2 border-b">
+				<PersonaSelector
+					value={personaId}
+					onChange={handlePersonaChange}
+					isDisabled={isProcessing}
+				/>
+				<div className="flex items-center gap-1">
+					<Button
+						variant="ghost"
+						size="sm"
+						className="gap-1"
+						onClick={handleWrapUp}
+						disabled={!aiMessages.some((msg) => msg.role === 'assistant') || isProcessing || isRateLimited}
+					>
+						<NotebookPen className="h-4 w-4" />
+						Wrap up
+					</Button>
+					{conversationId && (
+						<FlashcardsAction
+							conversationId={conversationId}
+							provider={provider}
+							model={model}
+							isDisabled={!aiMessages.some((msg) => msg.role === 'user') || isProcessing}
+						/>
+					)}
+					{conversationId && (
+						<ShareMenu
+							conversationId={conversationId}
+							isDisabled={aiMessages.length === 0 || isProcessing}
+						/>
+					)}
+					<ExportMenu isDisabled={aiMessages.length === 0} onExport={handleExport} />
+				</div>
+			</div>
+
 			{/* Conversation Area */}
 			<div className="flex-1 overflow-hidden">
 				<ConversationView
 					messages={messages}
 					isLoading={isProcessing}
-					onRetry={onRetry ? handleRetry : undefined}
+					onRetry={handleRetry}
 					autoScroll={autoScroll}
 					maxHeight={maxHeight}
 					showMessageActions={showMessageActions}
 					onCopyMessage={showMessageActions ? handleCopyMessage : undefined}
+					onEditMessage={edit}
+					onSwitchBranch={switchBranch}
+					onRequestHint={handleRequestHint}
+					onRevealAnswer={handleRevealAnswer}
+					onContinue={continueReply}
 				/>
 			</div>
 
+			{/* Why the last request failed, in words the learner can act on */}
+			{error && isRateLimited && (
+				<RateLimitNotice
+					key={error.message}
+					message={getChatErrorMessage(error)}
+					retryAfter={retryAfter}
+					onExpire={handleRateLimitExpired}
+				/>
+			)}
+			{error && !isRateLimited && (
+				<div
+					role="alert"
+					className="mx-4 mb-2 rounded-md border border-destructive/50 bg-destructive/10 px-3 py-2 text-sm text-destructive"
+				>
+					{getChatErrorMessage(error)}
+				</div>
+			)}
+
 			{/* Input Area - Fixed to bottom */}
 			<div className="border-t bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
 				<MessageInput
-					onSendMessage={(content: string) => sendMessage({ text: content })}
-					isDisabled={isProcessing}
+					onSendMessage={handleSendMessage}
+					isDisabled={isProcessing || isRateLimited}
 					placeholder="Type your message..."
 					multiline={true}
 					showCharCount={true}
-					maxLength={2000}
-					onCancelStream={isLoading ? stop : undefined}
+					maxLength={MAX_USER_MESSAGE_LENGTH}
+					onCancelStream={isLoading || status === 'submitted' ? stop : undefined}
 				/>
 			</div>
 		</div>
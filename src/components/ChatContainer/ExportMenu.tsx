@@ -0,0 +1,74 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Download } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { EXPORT_FORMATS, type ExportFormat } from '@/lib/chat/export'
+
+interface ExportMenuProps {
+	isDisabled?: boolean
+	onExport: (format: ExportFormat) => void
+}
+
+const FORMATS = Object.keys(EXPORT_FORMATS) as ExportFormat[]
+
+export function ExportMenu({ isDisabled = false, onExport }: ExportMenuProps) {
+	const [isOpen, setIsOpen] = useState(false)
+	const containerRef = useRef<HTMLDivElement>(null)
+
+	// Close on a click elsewhere or Escape, like a native menu
+	useEffect(() => {
+		if (!isOpen) return
+
+		const handlePointerDown = (event: PointerEvent) => {
+			if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false)
+		}
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (event.key === 'Escape') setIsOpen(false)
+		}
+		document.addEventListener('pointerdown', handlePointerDown)
+		document.addEventListener('keydown', handleKeyDown)
+		return () => {
+			document.removeEventListener('pointerdown', handlePointerDown)
+			document.removeEventListener('keydown', handleKeyDown)
+		}
+	}, [isOpen])
+
+	return (
+		<div ref={containerRef} className="relative">
+			<Button
+				variant="ghost"
+				size="sm"
+				className="gap-1"
+				onClick={() => setIsOpen((open) => !open)}
+				disabled={isDisabled}
+				aria-haspopup="menu"
+				aria-expanded={isOpen}
+			>
+				<Download className="h-4 w-4" />
+				Export
+			</Button>
+			{isOpen && (
+				<div
+					role="menu"
+					aria-label="Export conversation"
+					className="absolute right-0 z-10 mt-1 flex min-w-40 flex-col rounded-md border bg-popover p-1 text-sm shadow-md"
+				>
+					{FORMATS.map((format) => (
+						<button
+							key={format}
+							type="button"
+							role="menuitem"
+							className="rounded-sm px-2 py-1.5 text-left hover:bg-accent focus-visible:bg-accent focus-visible:outline-none"
+							onClick={() => {
+								setIsOpen(false)
+								onExport(format)
+							}}
+						>
+							{EXPORT_FORMATS[format].label}
+						</button>
+					))}
+				</div>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,90 @@
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { Layers } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { addToDeck, loadDeck, saveDeck } from '@/lib/flashcards/deck'
+
+interface FlashcardsActionProps {
+	conversationId: string
+	provider?: string
+	model?: string
+	isDisabled?: boolean
+}
+
+type FlashcardsState =
+	| { status: 'idle' }
+	| { status: 'working' }
+	| { status: 'added'; count: number }
+	| { status: 'error'; message: string }
+
+// Drafts cards from the saved conversation and adds them to the local deck
+export function FlashcardsAction({ conversationId, provider, model, isDisabled = false }: FlashcardsActionProps) {
+	const [isOpen, setIsOpen] = useState(false)
+	const [state, setState] = useState<FlashcardsState>({ status: 'idle' })
+
+	const generate = async () => {
+		setIsOpen(true)
+		setState({ status: 'working' })
+		try {
+			const response = await fetch(`/api/conversations/${conversationId}/flashcards`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ provider, model }),
+			})
+			if (!response.ok) {
+				const data = await response.json().catch(() => null)
+				throw new Error(data?.error ?? `Failed to make flashcards (${response.status})`)
+			}
+
+			const { flashcards } = await response.json()
+			const { deck, added } = addToDeck(loadDeck(), flashcards, conversationId)
+			saveDeck(deck)
+			setState({ status: 'added', count: added.length })
+		} catch (error) {
+			setState({ status: 'error', message: (error as Error).message })
+		}
+	}
+
+	return (
+		<div className="relative">
+			<Button
+				variant="ghost"
+				size="sm"
+				className="gap-1"
+				onClick={isOpen ? () => setIsOpen(false) : generate}
+				disabled={isDisabled}
+				aria-expanded={isOpen}
+			>
+				<Layers className="h-4 w-4" />
+				Flashcards
+			</Button>
+			{isOpen && (
+				<div
+					role="dialog"
+					aria-label="Flashcards"
+					className="absolute right-0 z-10 mt-1 flex w-72 flex-col gap-2 rounded-md border bg-popover p-3 text-sm shadow-md"
+				>
+					{state.status === 'working' && <p className="text-muted-foreground">Drafting flashcards…</p>}
+					{state.status === 'added' && (
+						<>
+							<p>
+								{state.count === 0
+									? 'No new flashcards: your deck already has what this conversation covers.'
+									: `Added ${state.count} flashcard${state.count === 1 ? '' : 's'} to your deck.`}
+							</p>
+							<Link href="/review" className="self-end font-medium text-primary underline-offset-4 hover:underline">
+								Review now
+							</Link>
+						</>
+					)}
+					{state.status === 'error' && (
+						<p role="alert" className="text-destructive">
+							{state.message}
+						</p>
+					)}
+				</div>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,58 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Clock } from 'lucide-react'
+
+interface RateLimitNoticeProps {
+	message: string
+	// Seconds to wait, from the server's Retry-After
+	retryAfter: number
+	onExpire: () => void
+}
+
+export function formatRetryAfter(seconds: number): string {
+	if (seconds < 60) return `${seconds}s`
+
+	const hours = Math.floor(seconds / 3600)
+	const minutes = Math.floor((seconds % 3600) / 60)
+	if (hours > 0) return `${hours}h ${minutes}m`
+	return `${minutes}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+export function RateLimitNotice({ message, retryAfter, onExpire }: RateLimitNoticeProps) {
+	const [deadline] = useState(() => Date.now() + retryAfter * 1000)
+	const [remaining, setRemaining] = useState(retryAfter)
+
+	const onExpireRef = useRef(onExpire)
+	useEffect(() => {
+		onExpireRef.current = onExpire
+	}, [onExpire])
+
+	useEffect(() => {
+		// Measured against a deadline so throttled background tabs stay accurate
+		const interval = setInterval(() => {
+			const seconds = Math.max(Math.ceil((deadline - Date.now()) / 1000), 0)
+			setRemaining(seconds)
+			if (seconds === 0) {
+				clearInterval(interval)
+				onExpireRef.current()
+			}
+		}, 1000)
+
+		return () => clearInterval(interval)
+	}, [deadline])
+
+	return (
+		<div
+			role="alert"
+			className="mx-4 mb-2 flex items-center gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 px-3 py-2 text-sm text-amber-700 dark:text-amber-400"
+		>
+			<Clock className="h-4 w-4 shrink-0" aria-hidden="true" />
+			<span>
+				{message} Your message will be sent in{' '}
+				<span role="timer" className="font-medium tabular-nums">
+					{formatRetryAfter(remaining)}
+				</span>
+				.
+			</span>
+		</div>
+	)
+}
@@ -0,0 +1,109 @@
+import React, { useState } from 'react'
+import { Copy, Link2Off, Share2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface ShareMenuProps {
+	conversationId: string
+	isDisabled?: boolean
+}
+
+type ShareState =
+	| { status: 'idle' }
+	| { status: 'working' }
+	| { status: 'shared'; shareId: string; url: string }
+	| { status: 'revoked' }
+	| { status: 'error'; message: string }
+
+// Each press snapshots the conversation as it is now; later turns aren't shared
+export function ShareMenu({ conversationId, isDisabled = false }: ShareMenuProps) {
+	const [isOpen, setIsOpen] = useState(false)
+	const [state, setState] = useState<ShareState>({ status: 'idle' })
+
+	const share = async () => {
+		setIsOpen(true)
+		setState({ status: 'working' })
+		try {
+			const response = await fetch(`/api/conversations/${conversationId}/shares`, { method: 'POST' })
+			if (!response.ok) {
+				throw new Error(
+					response.status === 404
+						? 'Send a message before sharing this conversation.'
+						: `Failed to share conversation (${response.status})`
+				)
+			}
+
+			const { share } = await response.json()
+			setState({ status: 'shared', shareId: share.id, url: `${window.location.origin}/share/${share.id}` })
+		} catch (error) {
+			setState({ status: 'error', message: (error as Error).message })
+		}
+	}
+
+	const revoke = async (shareId: string) => {
+		setState({ status: 'working' })
+		try {
+			const response = await fetch(`/api/conversations/${conversationId}/shares/${shareId}`, {
+				method: 'DELETE',
+			})
+			if (!response.ok) {
+				throw new Error(`Failed to revoke link (${response.status})`)
+			}
+			setState({ status: 'revoked' })
+		} catch (error) {
+			setState({ status: 'error', message: (error as Error).message })
+		}
+	}
+
+	const copy = (url: string) => {
+		navigator.clipboard?.writeText(url).catch((error) => console.error('Error copying link:', error))
+	}
+
+	return (
+		<div className="relative">
+			<Button
+				variant="ghost"
+				size="sm"
+				className="gap-1"
+				onClick={isOpen ? () => setIsOpen(false) : share}
+				disabled={isDisabled}
+				aria-expanded={isOpen}
+			>
+				<Share2 className="h-4 w-4" />
+				Share
+			</Button>
+			{isOpen && (
+				<div
+					role="dialog"
+					aria-label="Share conversation"
+					className="absolute right-0 z-10 mt-1 flex w-80 flex-col gap-2 rounded-md border bg-popover p-3 text-sm shadow-md"
+				>
+					{state.status === 'working' && <p className="text-muted-foreground">Working…</p>}
+					{state.status === 'shared' && (
+						<>
+							<p>Anyone with this link can read the conversation as it is now, but not change it.</p>
+							<Input readOnly value={state.url} aria-label="Share link" onFocus={(event) => event.target.select()} />
+							<div className="flex justify-end gap-2">
+								<Button variant="ghost" size="sm" className="gap-1" onClick={() => revoke(state.shareId)}>
+									<Link2Off className="h-3 w-3" />
+									Revoke link
+								</Button>
+								<Button size="sm" className="gap-1" onClick={() => copy(state.url)}>
+									<Copy className="h-3 w-3" />
+									Copy link
+								</Button>
+							</div>
+						</>
+					)}
+					{state.status === 'revoked' && <p>Link revoked. It no longer shows the conversation.</p>}
+					{state.status === 'error' && (
+						<p role="alert" className="text-destructive">
+							{state.message}
+						</p>
+					)}
+				</div>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,133 @@
+'use client'
+
+import React, { useCallback, useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import { ChatContainer } from '../ChatContainer'
+import { ConversationSidebar } from '../ConversationSidebar'
+import { LearningProgressPanel } from '../LearningProgressPanel'
+import { useConversations } from '@/hooks/useConversations'
+import type { LearningProgress, LearningState } from '@/lib/chat/learning'
+import { ConversationImportError, parseConversationImport } from '@/lib/chat/import'
+
+export interface ChatWorkspaceProps {
+	conversationId: string
+	initialObjective?: string
+}
+
+export function ChatWorkspace({ conversationId, initialObjective = '' }: ChatWorkspaceProps) {
+	const router = useRouter()
+	const [objective, setObjective] = useState(initialObjective)
+	const [progress, setProgress] = useState<LearningProgress | null>(null)
+	const {
+		conversations,
+		searchQuery,
+		setSearchQuery,
+		isLoading,
+		refresh,
+		createConversation,
+		renameConversation,
+		deleteConversation,
+	} = useConversations()
+
+	const handleCreate = useCallback(async () => {
+		try {
+			const conversation = await createConversation()
+			router.push(`/c/${conversation.id}`)
+		} catch (error) {
+			console.error('Error creating conversation:', error)
+		}
+	}, [createConversation, router])
+
+	// Opens the file as a new conversation that continues where it left off
+	const handleImport = useCallback(
+		async (file: File) => {
+			try {
+				const { title, messages } = parseConversationImport(await file.text())
+				const conversation = await createConversation({ title, messages })
+				router.push(`/c/${conversation.id}`)
+			} catch (error) {
+				if (error instanceof ConversationImportError) {
+					window.alert(`Could not import ${file.name}: ${error.message}`)
+					return
+				}
+				console.error('Error importing conversation:', error)
+			}
+		},
+		[createConversation, router]
+	)
+
+	const handleRename = useCallback(
+		async (id: string, title: string) => {
+			try {
+				await renameConversation(id, title)
+			} catch (error) {
+				console.error('Error renaming conversation:', error)
+			}
+		},
+		[renameConversation]
+	)
+
+	const handleDelete = useCallback(
+		async (id: string) => {
+			if (!window.confirm('Delete this conversation? This cannot be undone.')) return
+
+			try {
+				await deleteConversation(id)
+				if (id === conversationId) router.push('/')
+			} catch (error) {
+				console.error('Error deleting conversation:', error)
+			}
+		},
+		[deleteConversation, conversationId, router]
+	)
+
+	// A fresh chat on `/` only gets its own URL once there is something to keep
+	const handleMessageSent = useCallback(() => {
+		const path = `/c/${conversationId}`
+		if (window.location.pathname !== path) {
+			window.history.replaceState(null, '', path)
+		}
+	}, [conversationId])
+
+	// A saved conversation brings back its objective unless one was just set
+	const handleLearningStateChange = useCallback(({ objective: saved, progress }: LearningState) => {
+		setProgress(progress)
+		if (saved) setObjective((current) => current || saved)
+	}, [])
+
+	return (
+		<div className="flex h-screen">
+			<ConversationSidebar
+				conversations={conversations}
+				activeConversationId={conversationId}
+				searchQuery={searchQuery}
+				isLoading={isLoading}
+				onSearchChange={setSearchQuery}
+				onCreate={handleCreate}
+				onRename={handleRename}
+				onDelete={handleDelete}
+				onImport={handleImport}
+			/>
+			<main className="flex-1 min-w-0 font-sans flex flex-col">
+				<ChatContainer
+					key={conversationId}
+					conversationId={conversationId}
+					autoScroll
+					showMessageActions
+					maxHeight="1200px"
+					objective={objective || undefined}
+					onMessageSent={handleMessageSent}
+					onResponseComplete={refresh}
+					onLearningStateChange={handleLearningStateChange}
+				/>
+			</main>
+			<LearningProgressPanel
+				key={objective}
+				objective={objective}
+				progress={progress}
+				onObjectiveChange={setObjective}
+			/>
+		</div>
+	)
+}
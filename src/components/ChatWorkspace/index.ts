@@ -0,0 +1 @@
+export { ChatWorkspace, type ChatWorkspaceProps } from './ChatWorkspace'
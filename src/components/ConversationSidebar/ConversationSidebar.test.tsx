@@ -0,0 +1,146 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ConversationSidebar, ConversationSidebarProps } from './ConversationSidebar'
+
+const conversations = [
+	{
+		id: 'conv-1',
+		title: 'What is justice?',
+		createdAt: '2025-09-18T10:00:00.000Z',
+		updatedAt: '2025-09-18T12:00:00.000Z',
+		messageCount: 4,
+	},
+	{
+		id: 'conv-2',
+		title: 'Can machines think?',
+		createdAt: '2025-09-17T10:00:00.000Z',
+		updatedAt: '2025-09-17T11:00:00.000Z',
+		messageCount: 2,
+		snippet: '…the Turing test…',
+	},
+]
+
+describe('ConversationSidebar', () => {
+	const defaultProps: ConversationSidebarProps = {
+		conversations,
+		onSearchChange: jest.fn(),
+		onCreate: jest.fn(),
+		onRename: jest.fn(),
+		onDelete: jest.fn(),
+	}
+
+	beforeEach(() => {
+		jest.clearAllMocks()
+	})
+
+	describe('Rendering', () => {
+		it('should list conversations in the given order with links', () => {
+			render(<ConversationSidebar {...defaultProps} />)
+
+			const links = screen.getAllByRole('link')
+			expect(links).toHaveLength(2)
+			expect(links[0]).toHaveTextContent('What is justice?')
+			expect(links[0]).toHaveAttribute('href', '/c/conv-1')
+			expect(links[1]).toHaveAttribute('href', '/c/conv-2')
+		})
+
+		it('should show search snippets', () => {
+			render(<ConversationSidebar {...defaultProps} />)
+
+			expect(screen.getByText('…the Turing test…')).toBeInTheDocument()
+		})
+
+		it('should mark the active conversation', () => {
+			render(<ConversationSidebar {...defaultProps} activeConversationId="conv-2" />)
+
+			expect(screen.getByRole('link', { name: /can machines think/i })).toHaveAttribute(
+				'aria-current',
+				'page'
+			)
+		})
+
+		it('should show an empty state', () => {
+			render(<ConversationSidebar {...defaultProps} conversations={[]} />)
+
+			expect(screen.getByText('No conversations yet.')).toBeInTheDocument()
+		})
+
+		it('should show a no-results state while searching', () => {
+			render(<ConversationSidebar {...defaultProps} conversations={[]} searchQuery="zeno" />)
+
+			expect(screen.getByText('No conversations match your search.')).toBeInTheDocument()
+		})
+	})
+
+	describe('Actions', () => {
+		it('should create a conversation', async () => {
+			const user = userEvent.setup()
+			render(<ConversationSidebar {...defaultProps} />)
+
+			await user.click(screen.getByRole('button', { name: /new conversation/i }))
+
+			expect(defaultProps.onCreate).toHaveBeenCalled()
+		})
+
+		it('should report search input', async () => {
+			const user = userEvent.setup()
+			render(<ConversationSidebar {...defaultProps} />)
+
+			await user.type(screen.getByRole('searchbox', { name: /search conversations/i }), 'z')
+
+			expect(defaultProps.onSearchChange).toHaveBeenCalledWith('z')
+		})
+
+		it('should rename a conversation inline', async () => {
+			const user = userEvent.setup()
+			render(<ConversationSidebar {...defaultProps} />)
+
+			await user.click(screen.getByRole('button', { name: 'Rename What is justice?' }))
+			const input = screen.getByRole('textbox', { name: /conversation title/i })
+			await user.clear(input)
+			await user.type(input, 'Justice{Enter}')
+
+			expect(defaultProps.onRename).toHaveBeenCalledWith('conv-1', 'Justice')
+			expect(screen.queryByRole('textbox', { name: /conversation title/i })).not.toBeInTheDocument()
+		})
+
+		it('should cancel renaming on Escape', async () => {
+			const user = userEvent.setup()
+			render(<ConversationSidebar {...defaultProps} />)
+
+			await user.click(screen.getByRole('button', { name: 'Rename What is justice?' }))
+			await user.type(screen.getByRole('textbox', { name: /conversation title/i }), 'x{Escape}')
+
+			expect(defaultProps.onRename).not.toHaveBeenCalled()
+			expect(screen.getByRole('link', { name: /what is justice/i })).toBeInTheDocument()
+		})
+
+		it('should delete a conversation', async () => {
+			const user = userEvent.setup()
+			render(<ConversationSidebar {...defaultProps} />)
+
+			await user.click(screen.getByRole('button', { name: 'Delete Can machines think?' }))
+
+			expect(defaultProps.onDelete).toHaveBeenCalledWith('conv-2')
+		})
+
+		it('should import a picked file', async () => {
+			const user = userEvent.setup()
+			const onImport = jest.fn()
+			const file = new File(['User: Hi'], 'transcript.txt', { type: 'text/plain' })
+			render(<ConversationSidebar {...defaultProps} onImport={onImport} />)
+
+			expect(screen.getByRole('button', { name: 'Import conversation' })).toBeInTheDocument()
+			await user.upload(screen.getByTestId('import-file-input'), file)
+
+			expect(onImport).toHaveBeenCalledWith(file)
+		})
+
+		it('should hide importing when not supported', () => {
+			render(<ConversationSidebar {...defaultProps} />)
+
+			expect(screen.queryByRole('button', { name: 'Import conversation' })).not.toBeInTheDocument()
+		})
+	})
+})
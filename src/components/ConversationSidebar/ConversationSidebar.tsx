@@ -0,0 +1,208 @@
+'use client'
+
+import React, { useRef, useState, ChangeEvent, KeyboardEvent } from 'react'
+import Link from 'next/link'
+import { Pencil, Plus, Search, Trash2, Upload } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { cn } from '@/lib/utils'
+import type { ConversationSearchResult } from '@/lib/storage/conversation-store'
+
+export interface ConversationSidebarProps {
+	conversations: ConversationSearchResult[]
+	activeConversationId?: string
+	searchQuery?: string
+	isLoading?: boolean
+	onSearchChange: (query: string) => void
+	onCreate: () => void
+	onRename: (id: string, title: string) => void
+	onDelete: (id: string) => void
+	// Exported JSON or a plain text transcript to open as a new conversation
+	onImport?: (file: File) => void
+}
+
+const formatLastActivity = (updatedAt: string) => {
+	const date = new Date(updatedAt)
+	if (isNaN(date.getTime())) return ''
+
+	const isToday = date.toDateString() === new Date().toDateString()
+	return isToday
+		? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+		: date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
+export function ConversationSidebar({
+	conversations,
+	activeConversationId,
+	searchQuery = '',
+	isLoading = false,
+	onSearchChange,
+	onCreate,
+	onRename,
+	onDelete,
+	onImport,
+}: ConversationSidebarProps) {
+	const [editingId, setEditingId] = useState<string | null>(null)
+	const [draftTitle, setDraftTitle] = useState('')
+	const fileInputRef = useRef<HTMLInputElement>(null)
+
+	const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0]
+		// Cleared so picking the same file again still fires a change
+		event.target.value = ''
+		if (file) onImport?.(file)
+	}
+
+	const startRename = (conversation: ConversationSearchResult) => {
+		setEditingId(conversation.id)
+		setDraftTitle(conversation.title)
+	}
+
+	const commitRename = () => {
+		const title = draftTitle.trim()
+		const conversation = conversations.find((item) => item.id === editingId)
+
+		if (conversation && title && title !== conversation.title) {
+			onRename(conversation.id, title)
+		}
+		setEditingId(null)
+	}
+
+	const handleRenameKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+		if (event.key === 'Enter') {
+			event.preventDefault()
+			commitRename()
+		} else if (event.key === 'Escape') {
+			setEditingId(null)
+		}
+	}
+
+	return (
+		<aside
+			className="flex flex-col w-72 shrink-0 border-r bg-muted/30 h-full"
+			aria-label="Conversations"
+		>
+			<div className="flex flex-col gap-2 p-3 border-b">
+				<div className="flex gap-2">
+					<Button onClick={onCreate} className="flex-1 justify-start" variant="outline">
+						<Plus className="h-4 w-4" />
+						New conversation
+					</Button>
+					{onImport && (
+						<>
+							<Button
+								variant="outline"
+								onClick={() => fileInputRef.current?.click()}
+								aria-label="Import conversation"
+								title="Import an exported conversation or a User:/Assistant: transcript"
+							>
+								<Upload className="h-4 w-4" />
+							</Button>
+							<input
+								ref={fileInputRef}
+								type="file"
+								accept=".json,.txt,.md,application/json,text/plain,text/markdown"
+								className="hidden"
+								onChange={handleFileChange}
+								data-testid="import-file-input"
+							/>
+						</>
+					)}
+				</div>
+				<div className="relative">
+					<Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+					<Input
+						type="search"
+						className="pl-8"
+						placeholder="Search conversations..."
+						value={searchQuery}
+						onChange={(event) => onSearchChange(event.target.value)}
+						aria-label="Search conversations"
+					/>
+				</div>
+			</div>
+
+			<nav className="flex-1 overflow-y-auto p-2" aria-busy={isLoading}>
+				{!isLoading && conversations.length === 0 && (
+					<p className="px-2 py-4 text-sm text-muted-foreground">
+						{searchQuery.trim()
+							? 'No conversations match your search.'
+							: 'No conversations yet.'}
+					</p>
+				)}
+
+				<ul className="flex flex-col gap-1">
+					{conversations.map((conversation) => {
+						const isActive = conversation.id === activeConversationId
+
+						return (
+							<li
+								key={conversation.id}
+								className={cn(
+									'group flex items-start gap-1 rounded-md px-2 py-2 text-sm hover:bg-accent',
+									isActive && 'bg-accent'
+								)}
+							>
+								{editingId === conversation.id ? (
+									<Input
+										className="h-7"
+										value={draftTitle}
+										onChange={(event) => setDraftTitle(event.target.value)}
+										onKeyDown={handleRenameKeyDown}
+										onBlur={commitRename}
+										aria-label="Conversation title"
+										autoFocus
+									/>
+								) : (
+									<>
+										<Link
+											href={`/c/${conversation.id}`}
+											className="flex-1 min-w-0"
+											aria-current={isActive ? 'page' : undefined}
+										>
+											<span className="block truncate font-medium">
+												{conversation.title}
+											</span>
+											{conversation.snippet && (
+												<span className="block truncate text-xs text-muted-foreground">
+													{conversation.snippet}
+												</span>
+											)}
+											<time
+												dateTime={conversation.updatedAt}
+												className="block text-xs text-muted-foreground"
+											>
+												{formatLastActivity(conversation.updatedAt)}
+											</time>
+										</Link>
+										<div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+											<Button
+												variant="ghost"
+												size="sm"
+												className="h-6 w-6 p-0"
+												onClick={() => startRename(conversation)}
+												aria-label={`Rename ${conversation.title}`}
+											>
+												<Pencil className="h-3 w-3" />
+											</Button>
+											<Button
+												variant="ghost"
+												size="sm"
+												className="h-6 w-6 p-0 hover:text-destructive"
+												onClick={() => onDelete(conversation.id)}
+												aria-label={`Delete ${conversation.title}`}
+											>
+												<Trash2 className="h-3 w-3" />
+											</Button>
+										</div>
+									</>
+								)}
+							</li>
+						)
+					})}
+				</ul>
+			</nav>
+		</aside>
+	)
+}
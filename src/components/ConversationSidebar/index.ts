@@ -0,0 +1,4 @@
+export {
+	ConversationSidebar,
+	type ConversationSidebarProps,
+} from './ConversationSidebar'
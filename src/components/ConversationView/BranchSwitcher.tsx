@@ -0,0 +1,43 @@
+import React from 'react'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import type { BranchDirection, BranchInfo } from '@/lib/chat/conversation-tree'
+
+interface BranchSwitcherProps {
+	branch: BranchInfo
+	isDisabled?: boolean
+	onSwitch: (direction: BranchDirection) => void
+}
+
+export function BranchSwitcher({ branch, isDisabled = false, onSwitch }: BranchSwitcherProps) {
+	const { index, count } = branch
+
+	return (
+		<div className="flex items-center gap-0.5" role="group" aria-label="Branches">
+			<Button
+				variant="ghost"
+				size="sm"
+				className="h-6 w-6 p-0 hover:bg-accent"
+				onClick={() => onSwitch('previous')}
+				disabled={isDisabled || index <= 1}
+				aria-label="Previous branch"
+			>
+				<ChevronLeft className="h-3 w-3" />
+			</Button>
+			<span className="tabular-nums" aria-live="polite">
+				{index} / {count}
+			</span>
+			<Button
+				variant="ghost"
+				size="sm"
+				className="h-6 w-6 p-0 hover:bg-accent"
+				onClick={() => onSwitch('next')}
+				disabled={isDisabled || index >= count}
+				aria-label="Next branch"
+			>
+				<ChevronRight className="h-3 w-3" />
+			</Button>
+		</div>
+	)
+}
@@ -0,0 +1,56 @@
+import React, { useId, useState } from 'react'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import type { ContextSummary } from '@/lib/chat/context-window'
+
+interface ContextSummaryMarkerProps {
+	summary: ContextSummary
+}
+
+// Marks where the tutor's memory switches from a summary to the full turns
+export function ContextSummaryMarker({ summary }: ContextSummaryMarkerProps) {
+	const [isExpanded, setIsExpanded] = useState(false)
+	const contentId = useId()
+
+	return (
+		<div className="mb-4" data-testid="context-summary">
+			<div className="flex items-center gap-2 text-xs text-muted-foreground">
+				<div className="h-px flex-1 bg-border" />
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-6 gap-1 px-2 text-xs"
+					aria-expanded={isExpanded}
+					aria-controls={contentId}
+					onClick={() => setIsExpanded((expanded) => !expanded)}
+				>
+					{isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+					{summary.summarizedCount} earlier messages summarized for the tutor
+				</Button>
+				<div className="h-px flex-1 bg-border" />
+			</div>
+
+			{isExpanded && (
+				<div
+					id={contentId}
+					className="mx-auto mt-2 max-w-[70%] space-y-2 rounded-md border bg-muted/50 px-3 py-2 text-sm"
+				>
+					<p className="whitespace-pre-wrap">{summary.text}</p>
+					{summary.claims.length > 0 && (
+						<div>
+							<p className="font-medium">Your words, kept as you wrote them</p>
+							<ul className="mt-1 list-disc space-y-1 pl-5">
+								{summary.claims.map((claim, index) => (
+									<li key={index}>
+										<q>{claim}</q>
+									</li>
+								))}
+							</ul>
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	)
+}
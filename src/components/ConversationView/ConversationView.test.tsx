@@ -810,4 +810,336 @@ describe('ConversationView', () => {
       expect(container).toHaveClass('conversation-view--scrollable')
     })
   })
-})
\ No newline at end of file
+  describe('Markdown Rendering', () => {
+    it('renders assistant replies as Markdown', () => {
+      const messages = [
+        createMockMessage({ id: 'a1', role: 'assistant', content: 'Consider **virtue**:\n\n- courage\n- wisdom' }),
+      ]
+      render(<ConversationView messages={messages} />)
+
+      expect(screen.getByText('virtue').tagName).toBe('STRONG')
+      expect(screen.getAllByRole('listitem')).toHaveLength(2)
+    })
+
+    it('keeps learner messages literal', () => {
+      const messages = [createMockMessage({ id: 'u1', role: 'user', content: 'Is 2*3*4 **24**?' })]
+      render(<ConversationView messages={messages} />)
+
+      expect(screen.getByText('Is 2*3*4 **24**?')).toBeInTheDocument()
+    })
+  })
+
+  describe('Branching', () => {
+    it('edits a user message and reports the new text', async () => {
+      const user = userEvent.setup()
+      const onEditMessage = jest.fn()
+      const messages = createMockMessages(2)
+      render(<ConversationView messages={messages} onEditMessage={onEditMessage} />)
+
+      await user.click(screen.getByRole('button', { name: /edit message: message 1/i }))
+      const editor = screen.getByRole('textbox', { name: /edit message/i })
+      await user.clear(editor)
+      await user.type(editor, 'A better answer{Enter}')
+
+      expect(onEditMessage).toHaveBeenCalledWith('msg-0', 'A better answer')
+      expect(screen.queryByRole('textbox', { name: /edit message/i })).not.toBeInTheDocument()
+    })
+
+    it('does not offer editing for assistant messages or while loading', () => {
+      const messages = createMockMessages(2)
+      const { rerender } = render(
+        <ConversationView messages={messages} onEditMessage={jest.fn()} />
+      )
+
+      expect(screen.getAllByRole('button', { name: /edit message/i })).toHaveLength(1)
+
+      rerender(<ConversationView messages={messages} onEditMessage={jest.fn()} isLoading />)
+      expect(screen.queryByRole('button', { name: /edit message/i })).not.toBeInTheDocument()
+    })
+
+    it('cancels an edit without forking', async () => {
+      const user = userEvent.setup()
+      const onEditMessage = jest.fn()
+      render(<ConversationView messages={createMockMessages(1)} onEditMessage={onEditMessage} />)
+
+      await user.click(screen.getByRole('button', { name: /edit message/i }))
+      await user.type(screen.getByRole('textbox', { name: /edit message/i }), 'x{Escape}')
+
+      expect(onEditMessage).not.toHaveBeenCalled()
+      expect(screen.getByText('Message 1')).toBeInTheDocument()
+    })
+
+    it('keeps an edit draft while other messages update', async () => {
+      const user = userEvent.setup()
+      const messages = createMockMessages(2)
+      const { rerender } = render(<ConversationView messages={messages} onEditMessage={jest.fn()} />)
+
+      await user.click(screen.getByRole('button', { name: /edit message: message 1/i }))
+      await user.type(screen.getByRole('textbox', { name: /edit message/i }), ' and more')
+      rerender(
+        <ConversationView
+          messages={[messages[0], { ...messages[1], content: 'Message 2 grows' }]}
+          onEditMessage={jest.fn()}
+        />
+      )
+
+      expect(screen.getByRole('textbox', { name: /edit message/i })).toHaveValue('Message 1 and more')
+    })
+
+    it('shows a branch switcher on forked messages', async () => {
+      const user = userEvent.setup()
+      const onSwitchBranch = jest.fn()
+      const messages = [
+        { ...createMockMessage({ id: 'msg-0' }), branch: { index: 2, count: 3 } },
+      ]
+      render(<ConversationView messages={messages} onSwitchBranch={onSwitchBranch} />)
+
+      expect(screen.getByText('2 / 3')).toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: /previous branch/i }))
+      await user.click(screen.getByRole('button', { name: /next branch/i }))
+
+      expect(onSwitchBranch).toHaveBeenNthCalledWith(1, 'msg-0', 'previous')
+      expect(onSwitchBranch).toHaveBeenNthCalledWith(2, 'msg-0', 'next')
+    })
+
+    it('disables branch navigation at either end', () => {
+      const messages = [
+        { ...createMockMessage({ id: 'msg-0' }), branch: { index: 1, count: 2 } },
+      ]
+      render(<ConversationView messages={messages} onSwitchBranch={jest.fn()} />)
+
+      expect(screen.getByRole('button', { name: /previous branch/i })).toBeDisabled()
+      expect(screen.getByRole('button', { name: /next branch/i })).toBeEnabled()
+    })
+  })
+
+  describe('Context summary', () => {
+    const contextSummary = {
+      text: '- The tutor asked: What is courage?',
+      claims: ['Courage is acting despite fear.'],
+      throughMessageId: 'msg-1',
+      summarizedCount: 2,
+    }
+
+    it('marks where older turns were summarized and expands on demand', async () => {
+      const user = userEvent.setup()
+      const messages = createMockMessages(3)
+      messages[1] = { ...messages[1], contextSummary } as Message
+      render(<ConversationView messages={messages} />)
+
+      const toggle = screen.getByRole('button', { name: /2 earlier messages summarized/i })
+      expect(toggle).toHaveAttribute('aria-expanded', 'false')
+      expect(screen.queryByText('Courage is acting despite fear.')).not.toBeInTheDocument()
+
+      // The marker sits between the summarized turns and the ones sent in full
+      const items = screen.getAllByText(/Message \d/)
+      expect(
+        items[1].compareDocumentPosition(screen.getByTestId('context-summary')) &
+          Node.DOCUMENT_POSITION_FOLLOWING
+      ).toBeTruthy()
+
+      await user.click(toggle)
+
+      expect(toggle).toHaveAttribute('aria-expanded', 'true')
+      expect(screen.getByText('- The tutor asked: What is courage?')).toBeInTheDocument()
+      expect(screen.getByText('Courage is acting despite fear.')).toBeInTheDocument()
+    })
+  })
+
+  describe('Hints', () => {
+    it('offers a hint on the question the tutor is waiting on', async () => {
+      const user = userEvent.setup()
+      const onRequestHint = jest.fn()
+      render(<ConversationView messages={createMockMessages(4)} onRequestHint={onRequestHint} />)
+
+      const buttons = screen.getAllByRole('button', { name: 'Get a hint' })
+      expect(buttons).toHaveLength(1)
+
+      await user.click(buttons[0])
+      expect(onRequestHint).toHaveBeenCalledWith('msg-3')
+    })
+
+    it('labels hint replies and stops after the strongest hint', () => {
+      const messages = createMockMessages(2)
+      const onRequestHint = jest.fn()
+      const { rerender } = render(
+        <ConversationView
+          messages={[messages[0], { ...messages[1], hintLevel: 2 } as Message]}
+          onRequestHint={onRequestHint}
+        />
+      )
+
+      expect(screen.getByText(/Hint 2 of 3 · Pointed question/)).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: 'Get a stronger hint' })).toBeInTheDocument()
+
+      rerender(
+        <ConversationView
+          messages={[messages[0], { ...messages[1], hintLevel: 3 } as Message]}
+          onRequestHint={onRequestHint}
+        />
+      )
+      expect(screen.queryByRole('button', { name: /hint/i })).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Answer reveal', () => {
+    it('reveals the answer only after confirmation', async () => {
+      const user = userEvent.setup()
+      const onRevealAnswer = jest.fn()
+      render(<ConversationView messages={createMockMessages(2)} onRevealAnswer={onRevealAnswer} />)
+
+      await user.click(screen.getByRole('button', { name: 'Reveal answer' }))
+      expect(onRevealAnswer).not.toHaveBeenCalled()
+
+      await user.click(screen.getByRole('button', { name: 'Keep trying' }))
+      expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: 'Reveal answer' }))
+      await user.click(
+        within(screen.getByRole('alertdialog', { name: 'Reveal the answer?' })).getByRole('button', {
+          name: 'Show answer',
+        })
+      )
+      expect(onRevealAnswer).toHaveBeenCalledWith('msg-1')
+    })
+
+    it('flags revealed answers and does not offer another reveal on them', () => {
+      const messages = createMockMessages(2)
+      render(
+        <ConversationView
+          messages={[messages[0], { ...messages[1], isAnswerReveal: true } as Message]}
+          onRevealAnswer={jest.fn()}
+        />
+      )
+
+      expect(screen.getByText('Answer revealed on request')).toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: 'Reveal answer' })).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Session reflection', () => {
+    const reflection = {
+      insights: ['Not every prime is odd'],
+      openQuestions: [],
+      nextTopics: ['Prime factorization'],
+    }
+
+    it('shows the reflection as a summary card after the closing reply', () => {
+      const messages = createMockMessages(2)
+      render(
+        <ConversationView
+          messages={[messages[0], { ...messages[1], reflection } as Message]}
+          onRequestHint={jest.fn()}
+          onRevealAnswer={jest.fn()}
+        />
+      )
+
+      const card = screen.getByRole('region', { name: 'Session reflection' })
+      expect(within(card).getByText('Not every prime is odd')).toBeInTheDocument()
+      expect(within(card).getByText('Suggested next topics')).toBeInTheDocument()
+      expect(within(card).queryByText('Open questions')).not.toBeInTheDocument()
+      // The session is over, so there is no question left to help with
+      expect(screen.queryByRole('button', { name: 'Get a hint' })).not.toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: 'Reveal answer' })).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Message links', () => {
+    const originalScrollIntoView = Element.prototype.scrollIntoView
+
+    afterEach(() => {
+      Element.prototype.scrollIntoView = originalScrollIntoView
+      window.location.hash = ''
+    })
+
+    it('scrolls to the message named in the URL once it has loaded', () => {
+      const scrollIntoView = jest.fn()
+      Element.prototype.scrollIntoView = scrollIntoView
+      window.location.hash = '#message-msg-1'
+
+      const { rerender } = render(<ConversationView messages={[]} />)
+      expect(scrollIntoView).not.toHaveBeenCalled()
+
+      rerender(<ConversationView messages={createMockMessages(2)} />)
+      expect(scrollIntoView).toHaveBeenCalledTimes(1)
+      expect(scrollIntoView.mock.instances[0]).toHaveAttribute('id', 'message-msg-1')
+
+      rerender(<ConversationView messages={createMockMessages(3)} />)
+      expect(scrollIntoView).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Stopped replies', () => {
+    it('offers to continue the last reply the learner stopped', async () => {
+      const user = userEvent.setup()
+      const onContinue = jest.fn()
+      const messages = createMockMessages(2)
+      render(
+        <ConversationView
+          messages={[messages[0], { ...messages[1], isStopped: true } as Message]}
+          onContinue={onContinue}
+          onRequestHint={jest.fn()}
+        />
+      )
+
+      expect(screen.getByText('Stopped')).toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: 'Get a hint' })).not.toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: 'Continue reply' }))
+      expect(onContinue).toHaveBeenCalledWith('msg-1')
+    })
+
+    it('does not offer to continue while a reply is streaming', () => {
+      const messages = createMockMessages(2)
+      render(
+        <ConversationView
+          messages={[messages[0], { ...messages[1], isStopped: true } as Message]}
+          onContinue={jest.fn()}
+          isLoading
+        />
+      )
+
+      expect(screen.queryByRole('button', { name: 'Continue reply' })).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Failures', () => {
+    const failed = (kind: string) =>
+      createMockMessage({
+        id: 'failed-msg',
+        status: 'failed',
+        content: 'Why is 1 not prime?',
+        failure: { kind, code: null },
+      } as Partial<Message>)
+
+    it('explains the failure and offers a retry when retrying can help', async () => {
+      const user = userEvent.setup()
+      const onRetry = jest.fn()
+      render(<ConversationView messages={[failed('network')]} onRetry={onRetry} onEditMessage={jest.fn()} />)
+
+      expect(screen.getByText(/Could not reach the tutor/)).toBeInTheDocument()
+      expect(screen.getByText('Check your connection, then retry.')).toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: /Edit message/ })).not.toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: /Retry message/ }))
+      expect(onRetry).toHaveBeenCalledWith('failed-msg')
+    })
+
+    it('asks for a rephrased message when the content filter blocked it', () => {
+      render(<ConversationView messages={[failed('content-filtered')]} onRetry={jest.fn()} onEditMessage={jest.fn()} />)
+
+      expect(screen.getByText(/Blocked by the content filter/)).toBeInTheDocument()
+      expect(screen.getByRole('button', { name: /Edit message/ })).toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: /Retry message/ })).not.toBeInTheDocument()
+    })
+
+    it('offers no action when the server is not set up', () => {
+      render(<ConversationView messages={[failed('configuration')]} onRetry={jest.fn()} onEditMessage={jest.fn()} />)
+
+      expect(screen.getByText(/The tutor is not set up/)).toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: /Retry message/ })).not.toBeInTheDocument()
+      expect(screen.queryByRole('button', { name: /Edit message/ })).not.toBeInTheDocument()
+    })
+  })
+})
@@ -1,11 +1,20 @@
 'use client'
 
-import React, { useEffect, useRef, memo } from 'react'
+import React, { useCallback, useEffect, useRef, useState, memo } from 'react'
 
 import { MessageBubble } from './MessageBubble'
 import { MessageActions } from './MessageActions'
+import { MessageEditor } from './MessageEditor'
+import { BranchSwitcher } from './BranchSwitcher'
 import { EmptyState } from './EmptyState'
+import { ContextSummaryMarker } from './ContextSummaryMarker'
+import { ReflectionCard } from './ReflectionCard'
 import { TypingIndicator } from '@/components/ui/typing-indicator'
+import type { BranchDirection, BranchInfo } from '@/lib/chat/conversation-tree'
+import type { ContextSummary } from '@/lib/chat/context-window'
+import { type HintLevel, MAX_HINT_LEVEL } from '@/lib/chat/hints'
+import type { Reflection } from '@/lib/chat/reflection'
+import type { ChatFailure } from '@/lib/chat/errors'
 
 export interface Message {
 	id: string
@@ -13,6 +22,23 @@ export interface Message {
 	content: string
 	status: 'complete' | 'streaming' | 'failed'
 	timestamp: Date
+	// Set when this turn has alternatives, e.g. after the learner edited it
+	branch?: BranchInfo
+	// Set on the last message the tutor now only sees as part of a summary
+	contextSummary?: ContextSummary
+	// Learner turns that asked for a hint, and the hint replies with their strength
+	isHintRequest?: boolean
+	hintLevel?: HintLevel
+	// Learner turns that asked to see the answer, and the replies that gave it
+	isRevealRequest?: boolean
+	isAnswerReveal?: boolean
+	// Learner turns that ended the session, and the reflection on the reply
+	isWrapUpRequest?: boolean
+	reflection?: Reflection
+	// Replies the learner stopped part-way; the last one can be continued
+	isStopped?: boolean
+	// Why a failed turn failed, which decides how it can be recovered
+	failure?: ChatFailure
 }
 
 export interface ConversationViewProps {
@@ -23,8 +49,113 @@ export interface ConversationViewProps {
 	maxHeight?: string
 	showMessageActions?: boolean
 	onCopyMessage?: (messageId: string, content: string) => void
+	onEditMessage?: (messageId: string, content: string) => void
+	onSwitchBranch?: (messageId: string, direction: BranchDirection) => void
+	onRequestHint?: (messageId: string) => void
+	onRevealAnswer?: (messageId: string) => void
+	onContinue?: (messageId: string) => void
 }
 
+const formatTimestamp = (timestamp: Date) => {
+	if (!timestamp || isNaN(timestamp.getTime())) {
+		return ''
+	}
+	return timestamp.toLocaleTimeString([], {
+		hour: '2-digit',
+		minute: '2-digit',
+	})
+}
+
+interface MessageItemProps {
+	message: Message
+	isLoading: boolean
+	isEditing: boolean
+	showMessageActions: boolean
+	onCopyMessage?: (messageId: string, content: string) => void
+	onRetry?: (messageId: string) => void
+	onEdit?: (messageId: string) => void
+	onSubmitEdit: (message: Message, content: string) => void
+	onCancelEdit: () => void
+	onSwitchBranch?: (messageId: string, direction: BranchDirection) => void
+	onHint?: (messageId: string) => void
+	onReveal?: (messageId: string) => void
+	onContinue?: (messageId: string) => void
+}
+
+// Memoized message component for performance during streaming; declared out
+// here so a render doesn't remount every message and lose its state
+const MessageItem = memo(function MessageItem({
+	message,
+	isLoading,
+	isEditing,
+	showMessageActions,
+	onCopyMessage,
+	onRetry,
+	onEdit,
+	onSubmitEdit,
+	onCancelEdit,
+	onSwitchBranch,
+	onHint,
+	onReveal,
+	onContinue,
+}: MessageItemProps) {
+	const role = message.role ?? 'user'
+	const isUser = role === 'user'
+	return (
+		<div
+			id={`message-${message.id}`}
+			className={`flex w-full mb-4 scroll-mt-4 ${
+				isUser ? 'justify-end' : 'justify-start'
+			}`}
+			data-role={role}
+			data-status={message.status}
+		>
+			<div
+				className={`flex flex-col max-w-[70%] ${
+					isUser ? 'items-end' : 'items-start'
+				}`}
+			>
+				{/* Message bubble, or the editor when forking from this turn */}
+				{isEditing ? (
+					<MessageEditor
+						initialValue={message.content}
+						onSubmit={(content) => onSubmitEdit(message, content)}
+						onCancel={onCancelEdit}
+					/>
+				) : (
+					<MessageBubble message={message} />
+				)}
+
+				{/* Message metadata and actions */}
+				<div
+					className={`flex items-center gap-2 mt-1 text-xs text-muted-foreground ${
+						isUser ? 'flex-row-reverse' : 'flex-row'
+					}`}
+				>
+					<time>{formatTimestamp(message.timestamp)}</time>
+					{message.branch && message.branch.count > 1 && onSwitchBranch && (
+						<BranchSwitcher
+							branch={message.branch}
+							isDisabled={isLoading}
+							onSwitch={(direction) => onSwitchBranch(message.id, direction)}
+						/>
+					)}
+					<MessageActions
+						message={message}
+						showMessageActions={showMessageActions}
+						onCopyMessage={onCopyMessage}
+						onRetry={onRetry}
+						onEdit={onEdit}
+						onHint={onHint}
+						onReveal={onReveal}
+						onContinue={onContinue}
+					/>
+				</div>
+			</div>
+		</div>
+	)
+})
+
 export function ConversationView({
 	messages = [],
 	isLoading = false,
@@ -33,8 +164,39 @@ export function ConversationView({
 	maxHeight,
 	showMessageActions = false,
 	onCopyMessage,
+	onEditMessage,
+	onSwitchBranch,
+	onRequestHint,
+	onRevealAnswer,
+	onContinue,
 }: ConversationViewProps) {
 	const containerRef = useRef<HTMLDivElement>(null)
+	const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+
+	const submitEdit = useCallback(
+		(message: Message, content: string) => {
+			// An unchanged message would only duplicate the branch
+			if (content !== message.content.trim()) {
+				onEditMessage?.(message.id, content)
+			}
+			setEditingMessageId(null)
+		},
+		[onEditMessage]
+	)
+	const cancelEdit = useCallback(() => setEditingMessageId(null), [])
+
+	// Links such as a flashcard's point at `#message-<id>`. The messages load
+	// after the page does, so the browser can't scroll there by itself.
+	const linkedMessageIdRef = useRef<string | null>(null)
+	useEffect(() => {
+		const hash = window.location.hash
+		if (linkedMessageIdRef.current || !hash.startsWith('#message-')) return
+
+		const target = document.getElementById(hash.slice(1))
+		if (!target) return
+		linkedMessageIdRef.current = hash.slice('#message-'.length)
+		target.scrollIntoView?.({ block: 'center' })
+	}, [messages])
 
 	// Auto-scroll functionality with streaming optimization
 	useEffect(() => {
@@ -48,6 +210,8 @@ export function ConversationView({
 			const hasStreamingMessage = messages.some(
 				(msg) => msg.status === 'streaming'
 			)
+			// Stay on a linked message until the conversation moves on
+			if (linkedMessageIdRef.current && !hasStreamingMessage) return
 			if (isAtBottom || container.scrollTop === 0 || hasStreamingMessage) {
 				// Use requestAnimationFrame for smooth scrolling during streaming
 				requestAnimationFrame(() => {
@@ -57,58 +221,21 @@ export function ConversationView({
 		}
 	}, [messages, autoScroll])
 
-	const formatTimestamp = (timestamp: Date) => {
-		if (!timestamp || isNaN(timestamp.getTime())) {
-			return ''
-		}
-		return timestamp.toLocaleTimeString([], {
-			hour: '2-digit',
-			minute: '2-digit',
-		})
-	}
-
-	// Memoized message component for performance during streaming
-	const MessageItem = memo(({ message }: { message: Message }) => {
-		const role = message.role ?? 'user'
-		const isUser = role === 'user'
-		return (
-			<div
-				key={message.id}
-				className={`flex w-full mb-4 ${
-					isUser ? 'justify-end' : 'justify-start'
-				}`}
-				data-role={role}
-				data-status={message.status}
-			>
-				<div
-					className={`flex flex-col max-w-[70%] ${
-						isUser ? 'items-end' : 'items-start'
-					}`}
-				>
-					{/* Message bubble */}
-					<MessageBubble message={message} />
-
-					{/* Message metadata and actions */}
-					<div
-						className={`flex items-center gap-2 mt-1 text-xs text-muted-foreground ${
-							isUser ? 'flex-row-reverse' : 'flex-row'
-						}`}
-					>
-						<time>{formatTimestamp(message.timestamp)}</time>
-						<MessageActions
-							message={message}
-							showMessageActions={showMessageActions}
-							onCopyMessage={onCopyMessage}
-							onRetry={onRetry}
-						/>
-					</div>
-				</div>
-			</div>
-		)
-	})
-
-	// Add display name for debugging
-	MessageItem.displayName = 'MessageItem'
+	// Hints and reveals are for the question the tutor is waiting on; a
+	// session that was wrapped up, or a reply cut short, has none
+	const lastMessage = messages[messages.length - 1]
+	const questionId =
+		!isLoading &&
+		lastMessage?.role === 'assistant' &&
+		lastMessage.status === 'complete' &&
+		!lastMessage.reflection &&
+		!lastMessage.isStopped
+			? lastMessage.id
+			: null
+	const stoppedReplyId =
+		!isLoading && lastMessage?.role === 'assistant' && lastMessage.isStopped ? lastMessage.id : null
+	const canHint = !!onRequestHint && (lastMessage?.hintLevel ?? 0) < MAX_HINT_LEVEL
+	const canReveal = !!onRevealAnswer && !lastMessage?.isAnswerReveal
 
 	// Generate dynamic class names and styles
 	const containerClassName = [
@@ -135,7 +262,29 @@ export function ConversationView({
 				<EmptyState />
 			) : (
 				messages.map((message) => (
-					<MessageItem key={message.id} message={message} />
+					<React.Fragment key={message.id}>
+						<MessageItem
+							message={message}
+							isLoading={isLoading}
+							isEditing={editingMessageId === message.id}
+							showMessageActions={showMessageActions}
+							onCopyMessage={onCopyMessage}
+							onRetry={onRetry}
+							onEdit={
+								onEditMessage && !isLoading && editingMessageId !== message.id
+									? setEditingMessageId
+									: undefined
+							}
+							onSubmitEdit={submitEdit}
+							onCancelEdit={cancelEdit}
+							onSwitchBranch={onSwitchBranch}
+							onHint={message.id === questionId && canHint ? onRequestHint : undefined}
+							onReveal={message.id === questionId && canReveal ? onRevealAnswer : undefined}
+							onContinue={message.id === stoppedReplyId ? onContinue : undefined}
+						/>
+						{message.contextSummary && <ContextSummaryMarker summary={message.contextSummary} />}
+						{message.reflection && <ReflectionCard reflection={message.reflection} />}
+					</React.Fragment>
 				))
 			)}
 
@@ -1,13 +1,19 @@
 import React from 'react'
 import { Button } from '@/components/ui/button'
-import { Copy, RotateCcw } from 'lucide-react'
+import { Copy, Lightbulb, Pencil, Play, RotateCcw } from 'lucide-react'
 import { Message } from './ConversationView'
+import { RevealAnswerAction } from './RevealAnswerAction'
+import { CHAT_FAILURES } from '@/lib/chat/errors'
 
 interface MessageActionsProps {
 	message: Message
 	showMessageActions: boolean
 	onCopyMessage?: (messageId: string, content: string) => void
 	onRetry?: (messageId: string) => void
+	onEdit?: (messageId: string) => void
+	onHint?: (messageId: string) => void
+	onReveal?: (messageId: string) => void
+	onContinue?: (messageId: string) => void
 }
 
 export function MessageActions({
@@ -15,13 +21,26 @@ export function MessageActions({
 	showMessageActions,
 	onCopyMessage,
 	onRetry,
+	onEdit,
+	onHint,
+	onReveal,
+	onContinue,
 }: MessageActionsProps) {
-	const { id, content, status } = message
+	const { id, role, content, status } = message
+	// Failures without a class keep the retry they always had
+	const recovery =
+		status === 'failed' ? (message.failure ? CHAT_FAILURES[message.failure.kind].recovery : 'retry') : null
+	const canEdit = role === 'user' && (status === 'complete' || recovery === 'edit') && !!onEdit
+	const canRetry = recovery === 'retry' && !!onRetry
 
 	// Don't show actions if not needed
 	if (
 		!(showMessageActions && status === 'complete' && onCopyMessage) &&
-		!(status === 'failed' && onRetry)
+		!canRetry &&
+		!canEdit &&
+		!onHint &&
+		!onReveal &&
+		!onContinue
 	) {
 		return null
 	}
@@ -39,7 +58,43 @@ export function MessageActions({
 					<Copy className="h-3 w-3" />
 				</Button>
 			)}
-			{status === 'failed' && onRetry && (
+			{canEdit && (
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-6 w-6 p-0 hover:bg-accent"
+					onClick={() => onEdit(id)}
+					aria-label={`Edit message: ${content.substring(0, 50)}`}
+				>
+					<Pencil className="h-3 w-3" />
+				</Button>
+			)}
+			{onHint && (
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-6 px-1.5 gap-1 text-xs hover:bg-accent"
+					onClick={() => onHint(id)}
+					aria-label={message.hintLevel ? 'Get a stronger hint' : 'Get a hint'}
+				>
+					<Lightbulb className="h-3 w-3" />
+					Hint
+				</Button>
+			)}
+			{onReveal && <RevealAnswerAction onConfirm={() => onReveal(id)} />}
+			{onContinue && (
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-6 px-1.5 gap-1 text-xs hover:bg-accent"
+					onClick={() => onContinue(id)}
+					aria-label="Continue reply"
+				>
+					<Play className="h-3 w-3" />
+					Continue
+				</Button>
+			)}
+			{canRetry && (
 				<Button
 					variant="ghost"
 					size="sm"
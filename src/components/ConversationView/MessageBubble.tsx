@@ -1,6 +1,10 @@
 import React from 'react'
+import { CircleStop, Eye, Lightbulb } from 'lucide-react'
 import { Message } from './ConversationView'
+import { HINT_LEVEL_LABELS, MAX_HINT_LEVEL } from '@/lib/chat/hints'
+import { CHAT_FAILURES } from '@/lib/chat/errors'
 import { TypingIndicator } from '@/components/ui/typing-indicator'
+import { MarkdownContent, MathText } from '@/components/MarkdownContent'
 
 interface MessageBubbleProps {
 	message: Message
@@ -11,6 +15,7 @@ export function MessageBubble({ message }: MessageBubbleProps) {
 	const role = message.role ?? 'user'
 	const status = message.status ?? 'complete'
 	const isUser = role === 'user'
+	const failure = message.failure ? CHAT_FAILURES[message.failure.kind] : null
 
 	return (
 		<article
@@ -22,14 +27,35 @@ export function MessageBubble({ message }: MessageBubbleProps) {
 						: 'bg-muted text-foreground rounded-bl-sm'
 				}
         ${status === 'failed' ? 'ring-2 ring-destructive' : ''}
+        ${message.hintLevel ? 'border border-amber-400/60' : ''}
+        ${message.isAnswerReveal ? 'border border-sky-400/60' : ''}
+        ${message.isHintRequest || message.isRevealRequest || message.isWrapUpRequest ? 'italic' : ''}
       `}
-			aria-label={`${isUser ? 'User' : 'Assistant'} message`}
+			aria-label={`${isUser ? 'User' : 'Assistant'} ${message.hintLevel ? 'hint' : 'message'}`}
 		>
-			<div className="whitespace-pre-wrap break-words">
+			{message.hintLevel && (
+				<div className="flex items-center gap-1 mb-1 text-xs font-medium text-amber-700 dark:text-amber-400">
+					<Lightbulb className="h-3 w-3" aria-hidden="true" />
+					Hint {message.hintLevel} of {MAX_HINT_LEVEL} · {HINT_LEVEL_LABELS[message.hintLevel]}
+				</div>
+			)}
+			{message.isAnswerReveal && (
+				<div className="flex items-center gap-1 mb-1 text-xs font-medium text-sky-700 dark:text-sky-400">
+					<Eye className="h-3 w-3" aria-hidden="true" />
+					Answer revealed on request
+				</div>
+			)}
+			{message.isStopped && (
+				<div className="flex items-center gap-1 mb-1 text-xs font-medium text-muted-foreground">
+					<CircleStop className="h-3 w-3" aria-hidden="true" />
+					Stopped
+				</div>
+			)}
+			<div className={isUser || status === 'failed' ? 'whitespace-pre-wrap break-words' : 'break-words'}>
 				{status === 'failed' ? (
 					<div className="text-destructive">
 						<div className="flex items-center gap-2 mb-2">
-							<span className="text-sm font-medium">⚠️ Failed to send message</span>
+							<span className="text-sm font-medium">⚠️ {failure?.title ?? 'Failed to send message'}</span>
 						</div>
 						{content && (
 							<div className="text-xs opacity-75 italic">
@@ -37,12 +63,17 @@ export function MessageBubble({ message }: MessageBubbleProps) {
 							</div>
 						)}
 						<div className="text-xs opacity-75 mt-1">
-							Please try again or check your connection.
+							{failure?.advice ?? 'Please try again or check your connection.'}
 						</div>
 					</div>
 				) : (
 					<>
-						{content}
+						{/* Learners type plain text (plus math); only the tutor's replies are Markdown */}
+						{isUser ? (
+							<MathText text={content} />
+						) : (
+							<MarkdownContent content={content} isStreaming={status === 'streaming'} />
+						)}
 						{status === 'streaming' && (
 							<span className="ml-2">
 								<TypingIndicator aria-label="Assistant is typing" size="sm" />
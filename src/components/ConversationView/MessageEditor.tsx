@@ -0,0 +1,45 @@
+import React, { KeyboardEvent, useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+
+interface MessageEditorProps {
+	initialValue: string
+	onSubmit: (value: string) => void
+	onCancel: () => void
+}
+
+// Inline editor for an earlier user turn; submitting forks a new branch
+export function MessageEditor({ initialValue, onSubmit, onCancel }: MessageEditorProps) {
+	const [value, setValue] = useState(initialValue)
+	const canSubmit = value.trim().length > 0
+
+	const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+		if (event.key === 'Enter' && !event.shiftKey) {
+			event.preventDefault()
+			if (canSubmit) onSubmit(value.trim())
+		} else if (event.key === 'Escape') {
+			onCancel()
+		}
+	}
+
+	return (
+		<div className="flex flex-col gap-2 w-full min-w-[16rem]">
+			<Textarea
+				value={value}
+				onChange={(event) => setValue(event.target.value)}
+				onKeyDown={handleKeyDown}
+				aria-label="Edit message"
+				autoFocus
+			/>
+			<div className="flex justify-end gap-2">
+				<Button variant="ghost" size="sm" onClick={onCancel}>
+					Cancel
+				</Button>
+				<Button size="sm" onClick={() => onSubmit(value.trim())} disabled={!canSubmit}>
+					Send
+				</Button>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,40 @@
+import React from 'react'
+import { NotebookPen } from 'lucide-react'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { type Reflection, REFLECTION_SECTIONS } from '@/lib/chat/reflection'
+
+interface ReflectionCardProps {
+	reflection: Reflection
+}
+
+// The end-of-session summary, set apart from the dialogue
+export function ReflectionCard({ reflection }: ReflectionCardProps) {
+	const sections = REFLECTION_SECTIONS.filter(({ key }) => reflection[key].length > 0)
+
+	return (
+		<Card role="region" aria-label="Session reflection" className="mb-4 gap-3 border-emerald-400/60 py-4">
+			<CardHeader className="px-4">
+				<CardTitle className="flex items-center gap-2 text-sm">
+					<NotebookPen className="h-4 w-4 text-emerald-700 dark:text-emerald-400" aria-hidden="true" />
+					Session reflection
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="space-y-3 px-4 text-sm">
+				{sections.length === 0 && (
+					<p className="text-muted-foreground">Nothing to reflect on yet.</p>
+				)}
+				{sections.map(({ key, title }) => (
+					<section key={key}>
+						<h3 className="font-medium">{title}</h3>
+						<ul className="mt-1 list-disc space-y-1 pl-5">
+							{reflection[key].map((item, index) => (
+								<li key={index}>{item}</li>
+							))}
+						</ul>
+					</section>
+				))}
+			</CardContent>
+		</Card>
+	)
+}
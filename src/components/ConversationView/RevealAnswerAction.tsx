@@ -0,0 +1,57 @@
+import React, { useState } from 'react'
+import { Eye } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+
+interface RevealAnswerActionProps {
+	onConfirm: () => void
+}
+
+// Giving the answer away is a deliberate choice, so it takes a second click
+export function RevealAnswerAction({ onConfirm }: RevealAnswerActionProps) {
+	const [isConfirming, setIsConfirming] = useState(false)
+
+	if (!isConfirming) {
+		return (
+			<Button
+				variant="ghost"
+				size="sm"
+				className="h-6 px-1.5 gap-1 text-xs hover:bg-accent"
+				onClick={() => setIsConfirming(true)}
+				aria-label="Reveal answer"
+			>
+				<Eye className="h-3 w-3" />
+				Answer
+			</Button>
+		)
+	}
+
+	return (
+		<div
+			role="alertdialog"
+			aria-label="Reveal the answer?"
+			className="flex flex-wrap items-center gap-2 rounded-md border bg-background px-2 py-1 text-foreground"
+		>
+			<span>Working it out yourself sticks better. Show the full answer anyway?</span>
+			<Button
+				size="sm"
+				className="h-6 px-2 text-xs"
+				onClick={() => {
+					setIsConfirming(false)
+					onConfirm()
+				}}
+			>
+				Show answer
+			</Button>
+			<Button
+				variant="ghost"
+				size="sm"
+				className="h-6 px-2 text-xs"
+				onClick={() => setIsConfirming(false)}
+				autoFocus
+			>
+				Keep trying
+			</Button>
+		</div>
+	)
+}
@@ -1,2 +1,4 @@
 export { ConversationView } from './ConversationView'
-export type { Message, ConversationViewProps } from './ConversationView'
\ No newline at end of file
+export type { Message, ConversationViewProps } from './ConversationView'
+export { toMessage, fromMessage } from './toMessage'
+export type { MessageDetails } from './toMessage'
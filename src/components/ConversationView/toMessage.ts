@@ -0,0 +1,48 @@
+import type { Message } from './ConversationView'
+import type { BranchInfo } from '@/lib/chat/conversation-tree'
+import type { ContextSummary } from '@/lib/chat/context-window'
+import type { ChatFailure } from '@/lib/chat/errors'
+import { type ChatUIMessage, getMessageText } from '@/lib/chat/messages'
+
+// What the chat knows about a message beyond the message itself
+export interface MessageDetails {
+	status?: Message['status']
+	branch?: BranchInfo | null
+	contextSummary?: ContextSummary | null
+	// Only kept on failed messages
+	failure?: ChatFailure | null
+}
+
+// The one mapping from stored/streamed messages to what ConversationView shows
+export const toMessage = (
+	message: ChatUIMessage,
+	{ status = 'complete', branch, contextSummary, failure }: MessageDetails = {}
+): Message => ({
+	id: message.id,
+	role: message.role as Message['role'],
+	content: getMessageText(message),
+	status,
+	...(status === 'failed' && failure && { failure }),
+	// Messages without a time show none rather than the time they were rendered
+	timestamp: new Date(message.metadata?.createdAt ?? NaN),
+	...(branch && branch.count > 1 && { branch }),
+	...(contextSummary?.throughMessageId === message.id && { contextSummary }),
+	...(message.metadata?.hintFor && { isHintRequest: true }),
+	...(message.metadata?.hint && { hintLevel: message.metadata.hint.level }),
+	...(message.metadata?.revealFor && { isRevealRequest: true }),
+	...(message.metadata?.reveal && { isAnswerReveal: true }),
+	...(message.metadata?.wrapUp && { isWrapUpRequest: true }),
+	...(message.metadata?.reflection && { reflection: message.metadata.reflection }),
+	...(message.metadata?.stopped && { isStopped: true }),
+})
+
+// Messages from a parent component, in the shape useChat keeps
+export const fromMessage = (message: Message): ChatUIMessage => ({
+	id: message.id,
+	role: message.role,
+	parts: [{ type: 'text', text: message.content }],
+	metadata: {
+		createdAt:
+			message.timestamp && !isNaN(message.timestamp.getTime()) ? message.timestamp.toISOString() : undefined,
+	},
+})
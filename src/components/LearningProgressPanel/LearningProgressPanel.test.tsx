@@ -0,0 +1,60 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { LearningProgressPanel, LearningProgressPanelProps } from './LearningProgressPanel'
+
+const progress = {
+	subGoals: [
+		{ description: 'Define a prime number', reached: true },
+		{ description: 'Explain why 1 is not prime', reached: false },
+	],
+	misconceptions: ['All odd numbers are prime'],
+}
+
+describe('LearningProgressPanel', () => {
+	const defaultProps: LearningProgressPanelProps = {
+		objective: 'Understand prime numbers',
+		progress,
+		onObjectiveChange: jest.fn(),
+	}
+
+	beforeEach(() => {
+		jest.clearAllMocks()
+	})
+
+	it('shows sub-goals and misconceptions', () => {
+		render(<LearningProgressPanel {...defaultProps} />)
+
+		expect(screen.getByText('Understand prime numbers')).toBeInTheDocument()
+		expect(screen.getByText('1 of 2 sub-goals reached')).toBeInTheDocument()
+		expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '1')
+		expect(screen.getByLabelText('Reached')).toBeInTheDocument()
+		expect(screen.getByText('All odd numbers are prime')).toBeInTheDocument()
+	})
+
+	it('asks for an objective when none is set', async () => {
+		const user = userEvent.setup()
+		const onObjectiveChange = jest.fn()
+		render(
+			<LearningProgressPanel objective="" progress={null} onObjectiveChange={onObjectiveChange} />
+		)
+
+		expect(screen.getByText('Set an objective to track your progress.')).toBeInTheDocument()
+		await user.type(screen.getByLabelText('Learning objective'), '  Factor integers {enter}')
+
+		expect(onObjectiveChange).toHaveBeenCalledWith('Factor integers')
+	})
+
+	it('edits the objective and cancels with Escape', async () => {
+		const user = userEvent.setup()
+		render(<LearningProgressPanel {...defaultProps} />)
+
+		await user.click(screen.getByLabelText('Edit learning objective'))
+		const input = screen.getByLabelText('Learning objective')
+		await user.clear(input)
+		await user.type(input, 'Something else{escape}')
+
+		expect(defaultProps.onObjectiveChange).not.toHaveBeenCalled()
+		expect(screen.getByText('Understand prime numbers')).toBeInTheDocument()
+	})
+})
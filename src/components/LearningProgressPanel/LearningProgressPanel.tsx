@@ -0,0 +1,158 @@
+'use client'
+
+import React, { useState, KeyboardEvent } from 'react'
+import { AlertCircle, CheckCircle2, Circle, Pencil, Target } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { MAX_OBJECTIVE_LENGTH, type LearningProgress } from '@/lib/chat/learning'
+
+export interface LearningProgressPanelProps {
+	objective: string
+	progress: LearningProgress | null
+	onObjectiveChange: (objective: string) => void
+}
+
+export function LearningProgressPanel({
+	objective,
+	progress,
+	onObjectiveChange,
+}: LearningProgressPanelProps) {
+	const [isEditing, setIsEditing] = useState(!objective)
+	const [draft, setDraft] = useState(objective)
+
+	const startEditing = () => {
+		setDraft(objective)
+		setIsEditing(true)
+	}
+
+	const commitObjective = () => {
+		const next = draft.trim()
+		if (!next) return
+
+		if (next !== objective) onObjectiveChange(next)
+		setIsEditing(false)
+	}
+
+	const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+		if (event.key === 'Enter' && !event.shiftKey) {
+			event.preventDefault()
+			commitObjective()
+		} else if (event.key === 'Escape' && objective) {
+			setIsEditing(false)
+		}
+	}
+
+	const reachedCount = progress?.subGoals.filter((goal) => goal.reached).length ?? 0
+	const goalCount = progress?.subGoals.length ?? 0
+
+	return (
+		<aside
+			className="flex flex-col w-72 shrink-0 border-l bg-muted/30 h-full overflow-y-auto"
+			aria-label="Learning progress"
+		>
+			<section className="flex flex-col gap-2 p-3 border-b">
+				<h2 className="flex items-center gap-2 text-sm font-semibold">
+					<Target className="h-4 w-4" />
+					Learning objective
+				</h2>
+
+				{isEditing ? (
+					<>
+						<Textarea
+							value={draft}
+							onChange={(event) => setDraft(event.target.value)}
+							onKeyDown={handleKeyDown}
+							maxLength={MAX_OBJECTIVE_LENGTH}
+							placeholder="What should you understand by the end of this session?"
+							aria-label="Learning objective"
+							className="min-h-20 text-sm"
+						/>
+						<div className="flex justify-end gap-2">
+							{objective && (
+								<Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+									Cancel
+								</Button>
+							)}
+							<Button size="sm" onClick={commitObjective} disabled={!draft.trim()}>
+								Set objective
+							</Button>
+						</div>
+					</>
+				) : (
+					<div className="group flex items-start gap-1">
+						<p className="flex-1 text-sm">{objective}</p>
+						<Button
+							variant="ghost"
+							size="sm"
+							className="h-6 w-6 p-0"
+							onClick={startEditing}
+							aria-label="Edit learning objective"
+						>
+							<Pencil className="h-3 w-3" />
+						</Button>
+					</div>
+				)}
+				<p className="text-xs text-muted-foreground">
+					The tutor steers toward it from your next message on.
+				</p>
+			</section>
+
+			<section className="flex flex-col gap-2 p-3 border-b" aria-label="Sub-goals">
+				<h2 className="text-sm font-semibold">Progress</h2>
+				{goalCount === 0 ? (
+					<p className="text-sm text-muted-foreground">
+						{objective
+							? 'The tutor will track sub-goals once the conversation is under way.'
+							: 'Set an objective to track your progress.'}
+					</p>
+				) : (
+					<>
+						<div
+							role="progressbar"
+							aria-label="Sub-goals reached"
+							aria-valuemin={0}
+							aria-valuemax={goalCount}
+							aria-valuenow={reachedCount}
+							className="h-2 rounded-full bg-muted"
+						>
+							<div
+								className="h-2 rounded-full bg-primary transition-all"
+								style={{ width: `${(reachedCount / goalCount) * 100}%` }}
+							/>
+						</div>
+						<p className="text-xs text-muted-foreground">
+							{reachedCount} of {goalCount} sub-goals reached
+						</p>
+						<ul className="flex flex-col gap-1.5">
+							{progress?.subGoals.map((goal, index) => (
+								<li key={index} className="flex items-start gap-2 text-sm">
+									{goal.reached ? (
+										<CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-primary" aria-label="Reached" />
+									) : (
+										<Circle className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" aria-label="Not reached" />
+									)}
+									<span>{goal.description}</span>
+								</li>
+							))}
+						</ul>
+					</>
+				)}
+			</section>
+
+			{progress && progress.misconceptions.length > 0 && (
+				<section className="flex flex-col gap-2 p-3" aria-label="Misconceptions">
+					<h2 className="text-sm font-semibold">Misconceptions to work through</h2>
+					<ul className="flex flex-col gap-1.5">
+						{progress.misconceptions.map((misconception, index) => (
+							<li key={index} className="flex items-start gap-2 text-sm">
+								<AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" aria-hidden="true" />
+								<span>{misconception}</span>
+							</li>
+						))}
+					</ul>
+				</section>
+			)}
+		</aside>
+	)
+}
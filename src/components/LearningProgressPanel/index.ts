@@ -0,0 +1,4 @@
+export {
+	LearningProgressPanel,
+	type LearningProgressPanelProps,
+} from './LearningProgressPanel'
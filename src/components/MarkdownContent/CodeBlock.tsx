@@ -0,0 +1,54 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { Check, Copy } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+
+const COPIED_RESET_MS = 2000
+
+type CodeBlockProps = React.ComponentProps<'pre'>
+
+// Fenced code block with its own copy button
+export function CodeBlock({ children, className, ...props }: CodeBlockProps) {
+	const preRef = useRef<HTMLPreElement>(null)
+	const [isCopied, setIsCopied] = useState(false)
+
+	useEffect(() => {
+		if (!isCopied) return
+		const timeout = setTimeout(() => setIsCopied(false), COPIED_RESET_MS)
+		return () => clearTimeout(timeout)
+	}, [isCopied])
+
+	const handleCopy = async () => {
+		// Read the rendered text so highlighting markup doesn't end up on the clipboard
+		const code = preRef.current?.textContent ?? ''
+		try {
+			await navigator.clipboard.writeText(code)
+			setIsCopied(true)
+		} catch (error) {
+			console.error('Error copying code:', error)
+		}
+	}
+
+	return (
+		<div className="group/code relative my-2">
+			<pre
+				ref={preRef}
+				className={`overflow-x-auto rounded-md bg-zinc-950 p-3 text-xs text-zinc-50 ${className ?? ''}`}
+				{...props}
+			>
+				{children}
+			</pre>
+			<Button
+				variant="ghost"
+				size="sm"
+				className="absolute right-1 top-1 h-6 w-6 p-0 text-zinc-300 hover:bg-zinc-800 hover:text-zinc-50 opacity-0 group-hover/code:opacity-100 focus-visible:opacity-100"
+				onClick={handleCopy}
+				aria-label={isCopied ? 'Copied' : 'Copy code'}
+			>
+				{isCopied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+			</Button>
+		</div>
+	)
+}
@@ -0,0 +1,117 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MarkdownContent } from './MarkdownContent'
+import { MathText } from './MathText'
+
+describe('MarkdownContent', () => {
+	it('renders emphasis and lists instead of literal markup', () => {
+		render(<MarkdownContent content={'**Bold** and *italic*\n\n- one\n- two'} />)
+
+		expect(screen.getByText('Bold').tagName).toBe('STRONG')
+		expect(screen.getByText('italic').tagName).toBe('EM')
+		expect(screen.getAllByRole('listitem')).toHaveLength(2)
+		expect(screen.queryByText(/\*\*/)).not.toBeInTheDocument()
+	})
+
+	it('renders GFM tables', () => {
+		render(<MarkdownContent content={'| Claim | Evidence |\n| --- | --- |\n| A | B |'} />)
+
+		expect(screen.getByRole('table')).toBeInTheDocument()
+		expect(screen.getByRole('columnheader', { name: 'Claim' })).toBeInTheDocument()
+		expect(screen.getByRole('cell', { name: 'B' })).toBeInTheDocument()
+	})
+
+	it('opens links in a new tab and drops unsafe protocols', () => {
+		render(
+			<MarkdownContent content={'[Plato](https://example.com) [bad](javascript:alert(1))'} />
+		)
+
+		const link = screen.getByRole('link', { name: 'Plato' })
+		expect(link).toHaveAttribute('href', 'https://example.com')
+		expect(link).toHaveAttribute('target', '_blank')
+		expect(link).toHaveAttribute('rel', 'noopener noreferrer')
+		expect(screen.getByText('bad').closest('a')).not.toHaveAttribute('href', expect.stringContaining('javascript'))
+	})
+
+	it('does not render raw HTML', () => {
+		const { container } = render(
+			<MarkdownContent content={'<img src=x onerror="alert(1)"><script>alert(1)</script>'} />
+		)
+
+		expect(container.querySelector('img')).toBeNull()
+		expect(container.querySelector('script')).toBeNull()
+	})
+
+	it('highlights fenced code blocks', () => {
+		const { container } = render(
+			<MarkdownContent content={'```js\nconst answer = 42\n```'} />
+		)
+
+		const code = container.querySelector('pre code')
+		expect(code).toHaveClass('hljs', 'language-js')
+		expect(code?.querySelector('.hljs-keyword')).toHaveTextContent('const')
+	})
+
+	it('renders a half-streamed code block as code', () => {
+		const { container } = render(
+			<MarkdownContent content={'Look:\n\n```python\nfor x in'} isStreaming />
+		)
+
+		expect(container.querySelector('pre code')).toHaveTextContent('for x in')
+		expect(screen.queryByText(/```/)).not.toBeInTheDocument()
+	})
+
+	it('copies a code block', async () => {
+		const user = userEvent.setup()
+		const writeText = jest.spyOn(navigator.clipboard, 'writeText').mockResolvedValue()
+		render(<MarkdownContent content={'```js\nconst answer = 42\n```'} />)
+
+		await user.click(screen.getByRole('button', { name: 'Copy code' }))
+
+		expect(writeText).toHaveBeenCalledWith('const answer = 42\n')
+		expect(screen.getByRole('button', { name: 'Copied' })).toBeInTheDocument()
+	})
+
+	it('typesets inline and display math', () => {
+		const { container } = render(
+			<MarkdownContent content={'Since $a^2 + b^2 = c^2$, we get\n\n$$\nc = \\sqrt{a^2 + b^2}\n$$'} />
+		)
+
+		expect(container.querySelectorAll('.katex')).toHaveLength(2)
+		expect(container.querySelector('.katex-display')).toBeInTheDocument()
+		expect(container).not.toHaveTextContent('$')
+	})
+
+	it('reads single dollars like learner text does', () => {
+		const { container } = render(<MarkdownContent content={'It costs $5 and $10, so is **$x$** cheaper?'} />)
+
+		expect(container).toHaveTextContent('It costs $5 and $10, so is')
+		expect(container.querySelectorAll('.katex')).toHaveLength(1)
+	})
+
+	it('holds back a half-streamed display formula', () => {
+		const { container } = render(
+			<MarkdownContent content={'Consider\n\n$$\n\\frac{1}{'} isStreaming />
+		)
+
+		expect(container).toHaveTextContent('Consider')
+		expect(container.querySelector('.katex')).toBeNull()
+		expect(container).not.toHaveTextContent('frac')
+	})
+})
+
+describe('MathText', () => {
+	it('typesets formulas and leaves the rest as typed', () => {
+		const { container } = render(<MathText text={'Is $x^2$ **always** positive?'} />)
+
+		expect(container.querySelector('.katex')).toBeInTheDocument()
+		expect(container).toHaveTextContent('**always** positive?')
+	})
+
+	it('renders invalid TeX without throwing', () => {
+		const { container } = render(<MathText text={'$\\frac{1}{$'} />)
+
+		expect(container.querySelector('.katex-error')).toBeInTheDocument()
+	})
+})
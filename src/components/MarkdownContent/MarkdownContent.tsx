@@ -0,0 +1,80 @@
+'use client'
+
+import React, { memo } from 'react'
+import ReactMarkdown, { type Components, type ExtraProps } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeHighlight from 'rehype-highlight'
+import rehypeKatex from 'rehype-katex'
+
+import { CodeBlock } from './CodeBlock'
+import { prepareStreamingMarkdown } from '@/lib/markdown/streaming'
+import { isPlainText } from '@/lib/markdown/plain-text'
+import { remarkPandocMath } from '@/lib/markdown/math'
+
+export interface MarkdownContentProps {
+	content: string
+	isStreaming?: boolean
+}
+
+// react-markdown hands every component its hast node; keep it off the DOM
+const withoutNode = <P extends ExtraProps>(props: P): Omit<P, 'node'> => {
+	const domProps = { ...props }
+	delete domProps.node
+	return domProps
+}
+
+// Raw HTML in the source is rendered as text (react-markdown never executes
+// it) and unsafe link protocols are stripped by its default urlTransform
+const components: Components = {
+	a: (props) => (
+		<a
+			className="underline underline-offset-2 hover:opacity-80"
+			target="_blank"
+			rel="noopener noreferrer"
+			{...withoutNode(props)}
+		/>
+	),
+	pre: (props) => <CodeBlock {...withoutNode(props)} />,
+	table: (props) => (
+		<div className="mb-2 overflow-x-auto">
+			<table className="w-full border-collapse text-left" {...withoutNode(props)} />
+		</div>
+	),
+}
+
+// Element styles live here rather than in per-element components
+const contentClassName = [
+	'markdown-content break-words',
+	'[&_p]:mb-2 [&_p:last-child]:mb-0',
+	'[&_ul]:mb-2 [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:mb-2 [&_ol]:list-decimal [&_ol]:pl-5 [&_li]:mb-1',
+	'[&_h1]:mb-2 [&_h1]:text-lg [&_h1]:font-semibold [&_h2]:mb-2 [&_h2]:font-semibold [&_h3]:mb-2 [&_h3]:font-semibold',
+	'[&_blockquote]:mb-2 [&_blockquote]:border-l-2 [&_blockquote]:pl-3 [&_blockquote]:italic',
+	'[&_th]:border [&_th]:px-2 [&_th]:py-1 [&_th]:font-semibold [&_td]:border [&_td]:px-2 [&_td]:py-1',
+	'[&_.katex-display]:overflow-x-auto [&_.katex-display]:overflow-y-hidden',
+	'[&_:not(pre)>code]:rounded [&_:not(pre)>code]:bg-background/60 [&_:not(pre)>code]:px-1 [&_code]:font-mono [&_code]:text-[0.9em]',
+].join(' ')
+
+function MarkdownContentImpl({ content, isStreaming = false }: MarkdownContentProps) {
+	const markdown = isStreaming ? prepareStreamingMarkdown(content) : content
+
+	return (
+		<div className={contentClassName} data-streaming={isStreaming || undefined}>
+			{/* Same output as the parser for plain prose, at a fraction of the cost */}
+			{isPlainText(markdown) ? (
+				markdown.trim() && <p>{markdown.trim()}</p>
+			) : (
+				<ReactMarkdown
+					remarkPlugins={[remarkGfm, remarkMath, remarkPandocMath]}
+					rehypePlugins={[rehypeHighlight, [rehypeKatex, { throwOnError: false }]]}
+					components={components}
+				>
+					{markdown}
+				</ReactMarkdown>
+			)}
+		</div>
+	)
+}
+
+// Messages re-render on every streamed token; only the changed one needs to re-parse
+export const MarkdownContent = memo(MarkdownContentImpl)
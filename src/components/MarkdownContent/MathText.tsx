@@ -0,0 +1,37 @@
+import React, { memo } from 'react'
+import katex from 'katex'
+
+import { splitMath } from '@/lib/markdown/math'
+
+export interface MathTextProps {
+	text: string
+}
+
+// Plain text with `$...$` / `$$...$$` formulas typeset. Used for learner input,
+// which isn't Markdown, so everything else is left exactly as typed.
+function MathTextImpl({ text }: MathTextProps) {
+	return (
+		<>
+			{splitMath(text).map((segment, index) =>
+				segment.type === 'text' ? (
+					<React.Fragment key={index}>{segment.value}</React.Fragment>
+				) : (
+					<span
+						key={index}
+						className={segment.displayMode ? 'block overflow-x-auto my-1' : undefined}
+						// KaTeX escapes its input and trust stays off, so commands like
+						// \href can't inject markup or scripts
+						dangerouslySetInnerHTML={{
+							__html: katex.renderToString(segment.value, {
+								displayMode: segment.displayMode,
+								throwOnError: false,
+							}),
+						}}
+					/>
+				)
+			)}
+		</>
+	)
+}
+
+export const MathText = memo(MathTextImpl)
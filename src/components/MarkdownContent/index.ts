@@ -0,0 +1,2 @@
+export { MarkdownContent, type MarkdownContentProps } from './MarkdownContent'
+export { MathText, type MathTextProps } from './MathText'
@@ -23,6 +23,7 @@ jest.mock('@/components/ui/textarea', () => ({
 jest.mock('lucide-react', () => ({
 	Send: () => <span data-testid="send-icon">Send</span>,
 	X: () => <span data-testid="x-icon">X</span>,
+	Sigma: () => <span data-testid="sigma-icon">Sigma</span>,
 }))
 
 describe('MessageInput', () => {
@@ -344,4 +345,40 @@ describe('MessageInput', () => {
 			expect(textarea).toHaveValue('Line 1\nLine 2\nLine 3')
 		})
 	})
-})
\ No newline at end of file
+
+	describe('Math input', () => {
+		it('should preview typed math live', async () => {
+			const user = userEvent.setup()
+			render(<MessageInput {...defaultProps} />)
+
+			expect(screen.queryByRole('status', { name: /math preview/i })).not.toBeInTheDocument()
+
+			await user.type(screen.getByRole('textbox'), 'Is $x^2$ positive?')
+
+			const preview = screen.getByRole('status', { name: /math preview/i })
+			expect(preview.querySelector('.katex')).toBeInTheDocument()
+			expect(preview).toHaveTextContent('positive?')
+		})
+
+		it('should not preview prices', async () => {
+			const user = userEvent.setup()
+			render(<MessageInput {...defaultProps} />)
+
+			await user.type(screen.getByRole('textbox'), 'It costs $5 or $10')
+
+			expect(screen.queryByRole('status', { name: /math preview/i })).not.toBeInTheDocument()
+		})
+
+		it('should wrap the selection in math delimiters', async () => {
+			const user = userEvent.setup()
+			render(<MessageInput {...defaultProps} />)
+			const textarea = screen.getByRole('textbox') as HTMLTextAreaElement
+
+			await user.type(textarea, 'Solve x^2 = 4')
+			textarea.setSelectionRange(6, 13)
+			await user.click(screen.getByRole('button', { name: /insert math/i }))
+
+			expect(textarea).toHaveValue('Solve $x^2 = 4$')
+		})
+	})
+})
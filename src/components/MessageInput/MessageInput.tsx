@@ -5,10 +5,12 @@ import React, {
 	KeyboardEvent,
 	ChangeEvent,
 } from 'react'
-import { Send, X } from 'lucide-react'
+import { Send, Sigma, X } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
+import { MathText } from '@/components/MarkdownContent'
+import { containsMath } from '@/lib/markdown/math'
 
 export interface MessageInputProps {
 	onSendMessage: (content: string) => void
@@ -37,6 +39,7 @@ export function MessageInput({
 	const currentLength = value.length
 	const isNearLimit = maxLength && currentLength >= maxLength * 0.8
 	const isAtLimit = maxLength && currentLength >= maxLength
+	const hasMath = containsMath(value)
 
 	// Auto-resize functionality for multiline
 	useEffect(() => {
@@ -97,6 +100,24 @@ export function MessageInput({
 		}
 	}
 
+	// Wraps the selection in `$...$`, or inserts an empty pair, and puts the caret inside
+	const handleInsertMath = () => {
+		const textarea = textareaRef.current
+		if (!textarea) return
+
+		const { selectionStart, selectionEnd } = textarea
+		const selected = value.slice(selectionStart, selectionEnd)
+		const newValue = `${value.slice(0, selectionStart)}$${selected}$${value.slice(selectionEnd)}`
+		if (maxLength && newValue.length > maxLength) return
+
+		setValue(newValue)
+		const caret = selectionStart + 1 + selected.length
+		requestAnimationFrame(() => {
+			textarea.focus()
+			textarea.setSelectionRange(caret, caret)
+		})
+	}
+
 	const getCharCountClassName = () => {
 		if (isAtLimit) return 'text-destructive'
 		if (isNearLimit) return 'text-orange-500'
@@ -106,9 +127,20 @@ export function MessageInput({
 	return (
 		<div className="flex w-full max-w-4xl mx-auto p-4 gap-2 items-end">
 			<div className="flex-1 relative">
+				{/* Live preview once the draft contains $...$ or $$...$$ math */}
+				{hasMath && (
+					<div
+						className="mb-2 max-h-40 overflow-y-auto rounded-md border bg-muted/40 px-3 py-2 text-sm whitespace-pre-wrap break-words"
+						aria-label="Math preview"
+						role="status"
+					>
+						<MathText text={value} />
+					</div>
+				)}
+
 				<Textarea
 					ref={textareaRef}
-					className="min-h-[2.5rem] max-h-32 pr-12 resize-none"
+					className="min-h-[2.5rem] max-h-32 pr-20 resize-none"
 					value={value}
 					onChange={handleInputChange}
 					onKeyDown={handleKeyDown}
@@ -120,6 +152,19 @@ export function MessageInput({
 					maxLength={maxLength}
 				/>
 
+				<Button
+					className="absolute right-11 bottom-2 h-8 w-8 p-0"
+					onClick={handleInsertMath}
+					disabled={isDisabled}
+					type="button"
+					aria-label="Insert math"
+					title="Insert math ($...$ inline, $$...$$ display)"
+					size="icon"
+					variant="ghost"
+				>
+					<Sigma className="h-4 w-4" />
+				</Button>
+
 				{/* Show cancel button when streaming, send button otherwise */}
 				{onCancelStream ? (
 					<Button
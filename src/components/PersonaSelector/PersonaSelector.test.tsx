@@ -0,0 +1,42 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { PersonaSelector } from './PersonaSelector'
+import { PERSONAS } from '@/lib/personas'
+
+describe('PersonaSelector', () => {
+	it('should list every persona', () => {
+		render(<PersonaSelector value="classic-elenchus" onChange={jest.fn()} />)
+
+		const options = screen.getAllByRole('option')
+		expect(options).toHaveLength(PERSONAS.length)
+		expect(options.map((option) => option.textContent)).toEqual(
+			PERSONAS.map((persona) => persona.name)
+		)
+	})
+
+	it('should show the selected persona and its description', () => {
+		render(<PersonaSelector value="devils-advocate" onChange={jest.fn()} />)
+
+		expect(screen.getByRole('combobox', { name: /tutor/i })).toHaveValue('devils-advocate')
+		expect(
+			screen.getByText('Argues the other side so you have to defend your position.')
+		).toBeInTheDocument()
+	})
+
+	it('should call onChange with the chosen persona id', async () => {
+		const onChange = jest.fn()
+		const user = userEvent.setup()
+		render(<PersonaSelector value="classic-elenchus" onChange={onChange} />)
+
+		await user.selectOptions(screen.getByRole('combobox'), 'Strict examiner')
+
+		expect(onChange).toHaveBeenCalledWith('strict-examiner')
+	})
+
+	it('should be disabled when isDisabled is true', () => {
+		render(<PersonaSelector value="classic-elenchus" onChange={jest.fn()} isDisabled />)
+
+		expect(screen.getByRole('combobox')).toBeDisabled()
+	})
+})
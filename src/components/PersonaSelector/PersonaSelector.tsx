@@ -0,0 +1,49 @@
+import React, { ChangeEvent } from 'react'
+
+import { PERSONAS, PersonaId, getPersona, isPersonaId } from '@/lib/personas'
+
+export interface PersonaSelectorProps {
+	value: PersonaId
+	onChange: (personaId: PersonaId) => void
+	isDisabled?: boolean
+}
+
+export function PersonaSelector({
+	value,
+	onChange,
+	isDisabled = false,
+}: PersonaSelectorProps) {
+	const handleChange = (event: ChangeEvent<HTMLSelectElement>) => {
+		if (isPersonaId(event.target.value)) {
+			onChange(event.target.value)
+		}
+	}
+
+	return (
+		<div className="flex items-center gap-2 text-sm">
+			<label htmlFor="persona-selector" className="text-muted-foreground">
+				Tutor
+			</label>
+			<select
+				id="persona-selector"
+				className="h-8 rounded-md border border-input bg-transparent px-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50"
+				value={value}
+				onChange={handleChange}
+				disabled={isDisabled}
+				aria-describedby="persona-description"
+			>
+				{PERSONAS.map((persona) => (
+					<option key={persona.id} value={persona.id}>
+						{persona.name}
+					</option>
+				))}
+			</select>
+			<span
+				id="persona-description"
+				className="hidden sm:inline text-xs text-muted-foreground truncate"
+			>
+				{getPersona(value).description}
+			</span>
+		</div>
+	)
+}
@@ -0,0 +1 @@
+export { PersonaSelector, type PersonaSelectorProps } from './PersonaSelector'
@@ -0,0 +1,71 @@
+import React from 'react'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ReviewSession } from './ReviewSession'
+import { addToDeck, loadDeck, saveDeck } from '@/lib/flashcards/deck'
+
+const now = new Date('2025-09-18T10:00:00.000Z')
+
+const seedDeck = () => {
+	const { deck } = addToDeck(
+		[],
+		[
+			{ question: 'Is every prime odd?', answer: 'No, 2 is prime and even', sourceMessageId: 'u1' },
+			{ question: 'Why is 1 not prime?', answer: 'It has only one divisor', sourceMessageId: 'u2' },
+		],
+		'conv-1',
+		now
+	)
+	saveDeck(deck)
+	return deck
+}
+
+describe('ReviewSession', () => {
+	beforeEach(() => {
+		window.localStorage.clear()
+	})
+
+	it('shows the answer on request with a link to where it came from', async () => {
+		const user = userEvent.setup()
+		seedDeck()
+		render(<ReviewSession now={() => now} />)
+
+		expect(await screen.findByText('2 due · 2 in your deck')).toBeInTheDocument()
+		expect(screen.getByText('Is every prime odd?')).toBeInTheDocument()
+		expect(screen.queryByText('No, 2 is prime and even')).not.toBeInTheDocument()
+
+		await user.click(screen.getByRole('button', { name: 'Show answer' }))
+
+		expect(screen.getByText('No, 2 is prime and even')).toBeInTheDocument()
+		expect(screen.getByRole('link', { name: /see where you said this/i })).toHaveAttribute(
+			'href',
+			'/c/conv-1#message-u1'
+		)
+		expect(screen.getByRole('button', { name: /good/i })).toHaveTextContent('in 1 day')
+	})
+
+	it('schedules graded cards and moves on to the next one', async () => {
+		const user = userEvent.setup()
+		const deck = seedDeck()
+		render(<ReviewSession now={() => now} />)
+
+		await user.click(await screen.findByRole('button', { name: 'Show answer' }))
+		await user.click(screen.getByRole('button', { name: /good/i }))
+
+		expect(screen.getByText('Why is 1 not prime?')).toBeInTheDocument()
+		expect(screen.getByText('1 due · 2 in your deck')).toBeInTheDocument()
+		expect(loadDeck().find((card) => card.id === deck[0].id)?.review).toMatchObject({
+			repetitions: 1,
+			interval: 1,
+		})
+	})
+
+	it('says when nothing is due or the deck is empty', async () => {
+		const { rerender } = render(<ReviewSession now={() => now} />)
+		expect(await screen.findByText('No flashcards yet')).toBeInTheDocument()
+
+		seedDeck()
+		rerender(<ReviewSession key="later" now={() => new Date('2025-09-17T00:00:00.000Z')} />)
+		expect(await screen.findByText('All caught up')).toBeInTheDocument()
+	})
+})
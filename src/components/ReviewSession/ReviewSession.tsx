@@ -0,0 +1,125 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, MessageSquareQuote } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+	type Flashcard,
+	getDueCards,
+	getSourceHref,
+	loadDeck,
+	reviewCard,
+	saveDeck,
+} from '@/lib/flashcards/deck'
+import { REVIEW_GRADES, REVIEW_GRADE_LABELS, type ReviewGrade, scheduleReview } from '@/lib/flashcards/schedule'
+
+export interface ReviewSessionProps {
+	// Fixes the clock, e.g. in tests; defaults to the current time
+	now?: () => Date
+}
+
+const formatInterval = (days: number) => (days === 0 ? 'today' : days === 1 ? 'in 1 day' : `in ${days} days`)
+
+// Works through the cards due today, one at a time, in the learner's own deck
+export function ReviewSession({ now = () => new Date() }: ReviewSessionProps) {
+	// Null until the deck has been read from local storage
+	const [deck, setDeck] = useState<Flashcard[] | null>(null)
+	const [isAnswerShown, setIsAnswerShown] = useState(false)
+
+	useEffect(() => {
+		setDeck(loadDeck())
+	}, [])
+
+	if (!deck) return null
+
+	const due = getDueCards(deck, now())
+	const card = due[0]
+
+	const handleGrade = (grade: ReviewGrade) => {
+		const next = reviewCard(deck, card.id, grade, now())
+		saveDeck(next)
+		setDeck(next)
+		setIsAnswerShown(false)
+	}
+
+	const nextDueAt = deck.map((entry) => entry.review.dueAt).sort()[0]
+
+	return (
+		<main className="mx-auto flex min-h-screen max-w-2xl flex-col gap-6 p-4 font-sans">
+			<header className="flex items-center justify-between gap-2 border-b pb-3">
+				<div>
+					<h1 className="text-lg font-semibold">Review</h1>
+					<p className="text-xs text-muted-foreground">
+						{due.length} due · {deck.length} in your deck
+					</p>
+				</div>
+				<Link href="/" className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+					<ArrowLeft className="h-4 w-4" />
+					Back to the tutor
+				</Link>
+			</header>
+
+			{deck.length === 0 && (
+				<section className="text-center">
+					<h2 className="font-medium">No flashcards yet</h2>
+					<p className="text-sm text-muted-foreground">
+						Press Flashcards in a conversation to turn what you worked out into cards.
+					</p>
+				</section>
+			)}
+
+			{deck.length > 0 && !card && (
+				<section className="text-center">
+					<h2 className="font-medium">All caught up</h2>
+					<p className="text-sm text-muted-foreground">
+						The next card is due {new Date(nextDueAt).toLocaleDateString()}.
+					</p>
+				</section>
+			)}
+
+			{card && (
+				<Card role="region" aria-label="Flashcard">
+					<CardHeader>
+						<CardTitle className="text-base">{card.question}</CardTitle>
+					</CardHeader>
+					{isAnswerShown && (
+						<CardContent className="space-y-3 text-sm">
+							<p>{card.answer}</p>
+							<Link
+								href={getSourceHref(card)}
+								className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+							>
+								<MessageSquareQuote className="h-3 w-3" />
+								See where you said this
+							</Link>
+						</CardContent>
+					)}
+					<CardFooter className="flex flex-wrap justify-end gap-2">
+						{isAnswerShown ? (
+							REVIEW_GRADES.map((option) => (
+								<Button
+									key={option}
+									variant={option === 'good' ? 'default' : 'outline'}
+									size="sm"
+									onClick={() => handleGrade(option)}
+								>
+									{REVIEW_GRADE_LABELS[option]}
+									<span className="text-xs opacity-70">
+										{formatInterval(scheduleReview(card.review, option, now()).interval)}
+									</span>
+								</Button>
+							))
+						) : (
+							<Button size="sm" onClick={() => setIsAnswerShown(true)}>
+								Show answer
+							</Button>
+						)}
+					</CardFooter>
+				</Card>
+			)}
+		</main>
+	)
+}
@@ -0,0 +1,4 @@
+export {
+	ReviewSession,
+	type ReviewSessionProps,
+} from './ReviewSession'
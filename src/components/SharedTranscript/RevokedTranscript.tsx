@@ -0,0 +1,21 @@
+import React from 'react'
+
+import type { PublicSharedTranscript } from '@/lib/storage/share-store'
+import { formatShareDate } from './formatShareDate'
+
+export interface RevokedTranscriptProps {
+	title: PublicSharedTranscript['title']
+	revokedAt: string
+}
+
+// Takes no messages, so a revoked dialogue never reaches the browser
+export function RevokedTranscript({ title, revokedAt }: RevokedTranscriptProps) {
+	return (
+		<main className="mx-auto flex h-screen max-w-4xl flex-col items-center justify-center gap-2 p-4 text-center">
+			<h1 className="text-lg font-semibold">This link is no longer active</h1>
+			<p className="text-sm text-muted-foreground">
+				Whoever shared &ldquo;{title}&rdquo; revoked the link on {formatShareDate(revokedAt)}.
+			</p>
+		</main>
+	)
+}
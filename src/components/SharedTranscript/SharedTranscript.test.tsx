@@ -0,0 +1,67 @@
+import React from 'react'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { SharedTranscript } from './SharedTranscript'
+import { RevokedTranscript } from './RevokedTranscript'
+import type { PublicSharedTranscript } from '@/lib/storage/share-store'
+
+const mockPush = jest.fn()
+jest.mock('next/navigation', () => ({
+	useRouter: () => ({ push: mockPush }),
+}))
+
+const transcript: PublicSharedTranscript = {
+	id: 'share-1',
+	title: 'What is justice?',
+	createdAt: '2025-09-18T12:00:00.000Z',
+	messages: [
+		{ id: 'm1', role: 'user', parts: [{ type: 'text', text: 'What is justice?' }] },
+		{
+			id: 'm2',
+			role: 'assistant',
+			parts: [{ type: 'text', text: 'Think of fairness?' }],
+			metadata: { hint: { questionId: 'm0', level: 1 } },
+		},
+	],
+}
+
+describe('SharedTranscript', () => {
+	const originalFetch = global.fetch
+
+	afterEach(() => {
+		global.fetch = originalFetch
+		jest.clearAllMocks()
+	})
+
+	it('shows the dialogue read-only', () => {
+		render(<SharedTranscript transcript={transcript} />)
+
+		expect(screen.getByRole('heading', { name: 'What is justice?' })).toBeInTheDocument()
+		expect(screen.getByText(/read only · Sep 18, 2025/)).toBeInTheDocument()
+		expect(screen.getByText('Think of fairness?')).toBeInTheDocument()
+		expect(screen.getByText(/Hint 1 of 3/)).toBeInTheDocument()
+		expect(screen.queryByRole('textbox')).not.toBeInTheDocument()
+		expect(screen.queryByRole('button', { name: /edit message/i })).not.toBeInTheDocument()
+	})
+
+	it('forks the transcript into a new conversation', async () => {
+		const user = userEvent.setup()
+		global.fetch = jest.fn().mockResolvedValue({
+			ok: true,
+			json: async () => ({ conversation: { id: 'conv-new' } }),
+		})
+		render(<SharedTranscript transcript={transcript} />)
+
+		await user.click(screen.getByRole('button', { name: /continue in my own conversation/i }))
+
+		expect(global.fetch).toHaveBeenCalledWith('/api/shares/share-1/fork', { method: 'POST' })
+		await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/c/conv-new'))
+	})
+
+	it('explains when the link was revoked', () => {
+		render(<RevokedTranscript title="What is justice?" revokedAt="2025-09-19T00:00:00.000Z" />)
+
+		expect(screen.getByText('This link is no longer active')).toBeInTheDocument()
+		expect(screen.getByText(/revoked the link on Sep 19, 2025/)).toBeInTheDocument()
+	})
+})
@@ -0,0 +1,65 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { GitFork } from 'lucide-react'
+
+import { ConversationView, toMessage } from '../ConversationView'
+import { Button } from '@/components/ui/button'
+import type { PublicSharedTranscript } from '@/lib/storage/share-store'
+import { formatShareDate } from './formatShareDate'
+
+export interface SharedTranscriptProps {
+	transcript: PublicSharedTranscript
+}
+
+// A shared dialogue as the class sees it: no input, no editing, no branches
+export function SharedTranscript({ transcript }: SharedTranscriptProps) {
+	const router = useRouter()
+	const [isForking, setIsForking] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	const handleFork = async () => {
+		setIsForking(true)
+		setError(null)
+		try {
+			const response = await fetch(`/api/shares/${transcript.id}/fork`, { method: 'POST' })
+			if (!response.ok) {
+				throw new Error(`Failed to fork transcript (${response.status})`)
+			}
+
+			const { conversation } = await response.json()
+			router.push(`/c/${conversation.id}`)
+		} catch (error) {
+			console.error('Error forking transcript:', error)
+			setError('Could not copy this dialogue. Please try again.')
+			setIsForking(false)
+		}
+	}
+
+	return (
+		<main className="mx-auto flex min-h-screen max-w-4xl flex-col font-sans">
+			<header className="flex flex-wrap items-center justify-between gap-2 border-b px-4 py-3">
+				<div>
+					<h1 className="text-lg font-semibold">{transcript.title}</h1>
+					<p className="text-xs text-muted-foreground">
+						Shared transcript · read only · {formatShareDate(transcript.createdAt)}
+					</p>
+				</div>
+				<Button onClick={handleFork} disabled={isForking} className="gap-1">
+					<GitFork className="h-4 w-4" />
+					Continue in my own conversation
+				</Button>
+			</header>
+			{error && (
+				<div
+					role="alert"
+					className="mx-4 mt-2 rounded-md border border-destructive/50 bg-destructive/10 px-3 py-2 text-sm text-destructive"
+				>
+					{error}
+				</div>
+			)}
+			<ConversationView messages={transcript.messages.map((message) => toMessage(message))} autoScroll={false} />
+		</main>
+	)
+}
@@ -0,0 +1,4 @@
+// One locale and time zone, so the server render and hydration agree
+const shareDateFormat = new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeZone: 'UTC' })
+
+export const formatShareDate = (isoDate: string) => shareDateFormat.format(new Date(isoDate))
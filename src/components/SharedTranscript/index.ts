@@ -0,0 +1,8 @@
+export {
+	SharedTranscript,
+	type SharedTranscriptProps,
+} from './SharedTranscript'
+export {
+	RevokedTranscript,
+	type RevokedTranscriptProps,
+} from './RevokedTranscript'
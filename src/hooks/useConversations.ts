@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import type {
+	ConversationSearchResult,
+	CreateConversationInput,
+	StoredConversation,
+} from '@/lib/storage/conversation-store'
+
+const SEARCH_DEBOUNCE_MS = 250
+
+// Client-side access to the conversation list behind /api/conversations
+export function useConversations() {
+	const [conversations, setConversations] = useState<ConversationSearchResult[]>([])
+	const [searchQuery, setSearchQuery] = useState('')
+	const [isLoading, setIsLoading] = useState(true)
+	const [error, setError] = useState<Error | null>(null)
+	// Ignore responses to searches that have since been superseded
+	const latestRequestRef = useRef(0)
+
+	const refresh = useCallback(async () => {
+		const requestId = ++latestRequestRef.current
+		const query = searchQuery.trim()
+
+		try {
+			const response = await fetch(
+				query ? `/api/conversations?q=${encodeURIComponent(query)}` : '/api/conversations'
+			)
+			if (!response.ok) {
+				throw new Error(`Failed to load conversations (${response.status})`)
+			}
+
+			const data = await response.json()
+			if (requestId === latestRequestRef.current) {
+				setConversations(data.conversations)
+				setError(null)
+			}
+		} catch (error) {
+			if (requestId === latestRequestRef.current) {
+				setError(error as Error)
+			}
+		} finally {
+			if (requestId === latestRequestRef.current) {
+				setIsLoading(false)
+			}
+		}
+	}, [searchQuery])
+
+	useEffect(() => {
+		const timeout = setTimeout(refresh, searchQuery ? SEARCH_DEBOUNCE_MS : 0)
+		return () => clearTimeout(timeout)
+	}, [refresh, searchQuery])
+
+	// Pass messages to open an imported conversation
+	const createConversation = useCallback(
+		async (input: CreateConversationInput = {}): Promise<StoredConversation> => {
+			const response = await fetch('/api/conversations', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify(input),
+			})
+			if (!response.ok) {
+				throw new Error(`Failed to create conversation (${response.status})`)
+			}
+
+			const { conversation } = await response.json()
+			await refresh()
+			return conversation
+		},
+		[refresh]
+	)
+
+	const renameConversation = useCallback(async (id: string, title: string) => {
+		const response = await fetch(`/api/conversations/${id}`, {
+			method: 'PATCH',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ title }),
+		})
+		if (!response.ok) {
+			throw new Error(`Failed to rename conversation (${response.status})`)
+		}
+
+		const { conversation } = await response.json()
+		setConversations((current) =>
+			current.map((item) =>
+				item.id === id
+					? { ...item, title: conversation.title, updatedAt: conversation.updatedAt }
+					: item
+			)
+		)
+	}, [])
+
+	const deleteConversation = useCallback(async (id: string) => {
+		const response = await fetch(`/api/conversations/${id}`, { method: 'DELETE' })
+		if (!response.ok && response.status !== 404) {
+			throw new Error(`Failed to delete conversation (${response.status})`)
+		}
+
+		setConversations((current) => current.filter((item) => item.id !== id))
+	}, [])
+
+	return {
+		conversations,
+		searchQuery,
+		setSearchQuery,
+		isLoading,
+		error,
+		refresh,
+		createConversation,
+		renameConversation,
+		deleteConversation,
+	}
+}
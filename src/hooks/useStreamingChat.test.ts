@@ -0,0 +1,192 @@
+import { act, renderHook, waitFor } from '@testing-library/react'
+
+import type { Message } from '@/components/ConversationView'
+import { fromMessage } from '@/components/ConversationView/toMessage'
+import { useStreamingChat } from './useStreamingChat'
+
+const message = (id: string, role: Message['role'], content: string): Message => ({
+	id,
+	role,
+	content,
+	status: 'complete',
+	timestamp: new Date('2025-09-18T10:00:00Z'),
+})
+
+const initialMessages = [
+	message('u1', 'user', 'Is 1 prime?'),
+	message('a1', 'assistant', 'What divides 1?'),
+	message('u2', 'user', 'Only 1.'),
+	message('a2', 'assistant', 'So how many divisors does it have?'),
+]
+
+const rejected = () =>
+	jest.fn().mockResolvedValue({
+		ok: false,
+		status: 400,
+		text: async () => JSON.stringify({ error: 'Message 0 is too long', code: 'MESSAGE_TOO_LONG' }),
+	})
+
+const requestBody = (call: unknown[]) => JSON.parse((call[1] as RequestInit).body as string)
+
+// A saved conversation, then whatever the reply to resume should be
+const saved = (messages: Message[], reply: Promise<unknown> = Promise.resolve({ ok: true, status: 204 })) =>
+	jest.fn().mockImplementation((url: string, init?: RequestInit) => {
+		if (url === '/api/conversations/c1') {
+			return Promise.resolve({
+				ok: true,
+				json: async () => ({ conversation: { messages: messages.map(fromMessage) } }),
+			})
+		}
+		return init?.method === 'DELETE' ? Promise.resolve({ ok: true, status: 204 }) : reply
+	})
+
+const calledUrls = () => (global.fetch as jest.Mock).mock.calls.map(([url]) => url)
+
+describe('useStreamingChat', () => {
+	const originalFetch = global.fetch
+
+	afterEach(() => {
+		global.fetch = originalFetch
+	})
+
+	it('maps messages for display', () => {
+		const { result } = renderHook(() => useStreamingChat({ initialMessages }))
+
+		expect(result.current.messages).toEqual(initialMessages)
+		expect(result.current.chatMessages[0]).toEqual({
+			id: 'u1',
+			role: 'user',
+			parts: [{ type: 'text', text: 'Is 1 prime?' }],
+			metadata: { createdAt: '2025-09-18T10:00:00.000Z' },
+		})
+	})
+
+	it('marks only the turn that failed', async () => {
+		global.fetch = rejected()
+		const { result } = renderHook(() => useStreamingChat({ initialMessages, objective: 'Primes' }))
+
+		act(() => {
+			result.current.send('Two?')
+		})
+
+		await waitFor(() => expect(result.current.error).toBeDefined())
+		expect(result.current.messages.map(({ status }) => status)).toEqual([
+			'complete',
+			'complete',
+			'complete',
+			'complete',
+			'failed',
+		])
+		expect(result.current.messages[4].failure).toEqual({ kind: 'request', code: 'MESSAGE_TOO_LONG' })
+		expect(result.current.chatMessages[4].metadata).toMatchObject({ objective: 'Primes' })
+	})
+
+	it('applies retry options given after the first render', async () => {
+		global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 503, text: async () => 'Unavailable' })
+		const { result, rerender } = renderHook(
+			({ retry }: { retry: { retries: number; baseDelayMs: number } | false }) =>
+				useStreamingChat({ initialMessages, retry }),
+			{ initialProps: { retry: false } }
+		)
+		rerender({ retry: { retries: 2, baseDelayMs: 0 } })
+
+		act(() => {
+			result.current.send('Two?')
+		})
+
+		await waitFor(() => expect(result.current.error).toBeDefined())
+		expect(global.fetch).toHaveBeenCalledTimes(3)
+	})
+
+	it('keeps the failure on its turn when the chat moves elsewhere', async () => {
+		global.fetch = rejected()
+		const { result } = renderHook(() => useStreamingChat({ initialMessages }))
+
+		act(() => {
+			result.current.send('Two?')
+		})
+		await waitFor(() => expect(result.current.error).toBeDefined())
+
+		act(() => {
+			result.current.setMessages(result.current.chatMessages.slice(0, 2))
+		})
+
+		expect(result.current.error).toBeDefined()
+		expect(result.current.messages.map(({ status }) => status)).toEqual(['complete', 'complete'])
+	})
+
+	it('regenerates the reply to a specific message', async () => {
+		global.fetch = rejected()
+		const { result } = renderHook(() => useStreamingChat({ initialMessages, provider: 'mock' }))
+
+		act(() => {
+			result.current.regenerate('a1')
+		})
+
+		await waitFor(() => expect(global.fetch).toHaveBeenCalled())
+		const body = requestBody((global.fetch as jest.Mock).mock.calls[0])
+		expect(body).toMatchObject({ provider: 'mock', trigger: 'regenerate-message', messageId: 'a1' })
+		expect(body.messages.map(({ id }: { id: string }) => id)).toEqual(['u1'])
+	})
+
+	it('forks the conversation when a turn is edited', async () => {
+		global.fetch = rejected()
+		const { result } = renderHook(() => useStreamingChat({ initialMessages }))
+
+		act(() => {
+			result.current.edit('u2', 'Just itself.')
+		})
+
+		await waitFor(() => expect(result.current.messages).toHaveLength(3))
+		expect(result.current.messages[2]).toMatchObject({
+			content: 'Just itself.',
+			branch: { index: 2, count: 2 },
+		})
+	})
+
+	it('picks the reply back up when the saved conversation ends on a learner turn', async () => {
+		global.fetch = saved(initialMessages.slice(0, 3))
+		const { result } = renderHook(() => useStreamingChat({ conversationId: 'c1' }))
+
+		await waitFor(() => expect(calledUrls()).toContain('/api/chat/c1/stream?messageId=u2'))
+		await waitFor(() => expect(result.current.status).toBe('ready'))
+		expect(result.current.messages.map(({ id }) => id)).toEqual(['u1', 'a1', 'u2'])
+	})
+
+	it('does not look for a reply to a turn that has one', async () => {
+		global.fetch = saved(initialMessages)
+		const { result } = renderHook(() => useStreamingChat({ conversationId: 'c1' }))
+
+		await waitFor(() => expect(result.current.messages).toHaveLength(4))
+		expect(calledUrls()).toEqual(['/api/conversations/c1'])
+	})
+
+	it('stops a resumed reply on the server', async () => {
+		global.fetch = saved(initialMessages.slice(0, 3), new Promise(() => {}))
+		const { result } = renderHook(() => useStreamingChat({ conversationId: 'c1' }))
+		await waitFor(() => expect(result.current.status).toBe('submitted'))
+
+		act(() => {
+			result.current.stop()
+		})
+
+		expect(global.fetch).toHaveBeenCalledWith('/api/chat/c1/stream', expect.objectContaining({ method: 'DELETE' }))
+	})
+
+	it('rewinds to before a deleted turn and saves the path', async () => {
+		global.fetch = jest.fn().mockResolvedValue({ ok: true, json: async () => ({}) })
+		const { result } = renderHook(() => useStreamingChat({ conversationId: 'c1', initialMessages }))
+
+		act(() => {
+			result.current.deleteMessage('u2')
+		})
+
+		expect(result.current.messages.map(({ id }) => id)).toEqual(['u1', 'a1'])
+		expect(result.current.tree.nodes.u2).toBeDefined()
+		expect(global.fetch).toHaveBeenCalledWith(
+			'/api/conversations/c1',
+			expect.objectContaining({ method: 'POST' })
+		)
+		expect(requestBody((global.fetch as jest.Mock).mock.calls[0]).messages).toHaveLength(2)
+	})
+})
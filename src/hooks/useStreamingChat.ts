@@ -1,42 +1,367 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useChat } from '@ai-sdk/react'
-import { DefaultChatTransport } from 'ai'
-
-// Simple wrapper to maintain compatibility with existing components
-export function useStreamingChat() {
-  const { messages, status, error, regenerate, sendMessage } = useChat({
-    transport: new DefaultChatTransport({ api: '/api/chat' })
-  })
-
-  const isLoading = status === 'streaming'
-
-  // Convert AI SDK messages to our format for compatibility
-  const formattedMessages = messages.map((msg: any) => {
-    const textPart = msg.parts?.find((part: any) => part.type === 'text')
-    return {
-      id: msg.id,
-      role: msg.role as 'user' | 'assistant',
-      content: textPart?.text || '',
-      status: isLoading && msg === messages[messages.length - 1]
-        ? 'streaming' as const
-        : error
-          ? 'failed' as const
-          : 'complete' as const,
-      timestamp: msg.createdAt || new Date(),
-    }
-  })
-
-  return {
-    messages: formattedMessages,
-    isStreaming: isLoading,
-    streamError: error,
-    sendMessage: async (content: string) => {
-      sendMessage({ text: content })
-    },
-    retryMessage: async () => {
-      regenerate()
-    },
-    cancelStream: () => {
-      // AI SDK doesn't expose cancel directly, but we can implement if needed
-    },
-  }
-}
\ No newline at end of file
+import { type ChatStatus, DefaultChatTransport, generateId } from 'ai'
+
+import type { Message } from '@/components/ConversationView'
+// Not through the index, which tests of ChatContainer replace with a stub
+import { fromMessage, toMessage } from '@/components/ConversationView/toMessage'
+import type { PersonaId } from '@/lib/personas'
+import type { ChatMessageMetadata, ChatUIMessage } from '@/lib/chat/messages'
+import { type ChatFailure, classifyChatError, getChatErrorRetryAfter } from '@/lib/chat/errors'
+import { findContextSummary } from '@/lib/chat/context-window'
+import { getLearningState, type LearningState } from '@/lib/chat/learning'
+import { markReplyStopped } from '@/lib/chat/continuation'
+import { type RetryOptions, createResilientFetch } from '@/lib/chat/resilient-fetch'
+import {
+	type BranchDirection,
+	type ConversationTree,
+	createConversationTree,
+	getActivePath,
+	getBranchInfo,
+	mergeMessagePath,
+	switchBranch as switchTreeBranch,
+} from '@/lib/chat/conversation-tree'
+
+export interface UseStreamingChatOptions {
+	// Saved conversations are loaded from and kept in sync with the server
+	conversationId?: string
+	provider?: string
+	model?: string
+	personaId?: PersonaId
+	// Sent with each learner message so the tutor steers toward it
+	objective?: string
+	// Skips loading the saved conversation
+	initialMessages?: Message[]
+	// Retries for transient failures and dropped replies; false turns them off
+	retry?: Partial<RetryOptions> | false
+	// After every reply, including stopped ones
+	onResponseComplete?: () => void
+	onLearningStateChange?: (state: LearningState) => void
+}
+
+export interface StreamingChat {
+	// The active branch, ready for ConversationView
+	messages: Message[]
+	// The same messages as the AI SDK keeps them, metadata and all
+	chatMessages: ChatUIMessage[]
+	tree: ConversationTree
+	status: ChatStatus
+	// The latest reply is streaming in
+	isStreaming: boolean
+	error: Error | undefined
+	// Why the latest request failed, if it did
+	failure: ChatFailure | null
+	// Seconds until a throttled request may be resent, if it was throttled
+	retryAfter: number | null
+	// Sends a learner message and returns it as shown
+	send: (content: string, metadata?: ChatMessageMetadata) => Message
+	// Aborts the request, which stops the generation on the server too
+	stop: () => void
+	// Asks again for the reply to a learner message, or replaces a tutor reply;
+	// the latest reply without an id
+	regenerate: (messageId?: string) => void
+	// Carries on with a reply the learner stopped
+	continueReply: () => void
+	// Forks the conversation at a turn, sending the new text in its place
+	edit: (messageId: string, content: string) => void
+	// Rewinds to just before a turn. Like edits, the removed turns stay in the
+	// tree as a branch the learner can switch back to.
+	deleteMessage: (messageId: string) => void
+	setMessages: (messages: ChatUIMessage[]) => void
+	switchBranch: (messageId: string, direction: BranchDirection) => void
+	clearError: () => void
+}
+
+// The tutor chat without any layout: ChatContainer is built on it, and other
+// layouts can use it the same way
+export function useStreamingChat({
+	conversationId,
+	provider,
+	model,
+	personaId,
+	objective,
+	initialMessages = [],
+	retry,
+	onResponseComplete,
+	onLearningStateChange,
+}: UseStreamingChatOptions = {}): StreamingChat {
+	// useChat captures its callbacks once, so read the latest ones through refs
+	const onResponseCompleteRef = useRef(onResponseComplete)
+	useEffect(() => {
+		onResponseCompleteRef.current = onResponseComplete
+	}, [onResponseComplete])
+	const onLearningStateChangeRef = useRef(onLearningStateChange)
+	useEffect(() => {
+		onLearningStateChangeRef.current = onLearningStateChange
+	}, [onLearningStateChange])
+
+	// Retries stop once the chat is gone; a reply still streaming is read to the end
+	const isMountedRef = useRef(false)
+	useEffect(() => {
+		isMountedRef.current = true
+		return () => {
+			isMountedRef.current = false
+		}
+	}, [])
+
+	// The learner turn a reloaded page is picking up the reply to, while it does
+	const resumingRef = useRef<string | null>(null)
+
+	const retryRef = useRef(retry)
+	useEffect(() => {
+		retryRef.current = retry
+	}, [retry])
+
+	// useChat keeps the transport it was first given, so it is built once and
+	// reads the retry options in force when each request goes out
+	const [transport] = useState(
+		() =>
+			new DefaultChatTransport<ChatUIMessage>({
+				api: '/api/chat',
+				// Only the reply to the turn the page ends on is picked up
+				prepareReconnectToStreamRequest: ({ api, id }) => ({
+					api: `${api}/${id}/stream?messageId=${encodeURIComponent(resumingRef.current ?? '')}`,
+				}),
+				fetch: (input, init) => {
+					// Without retries the reply is still cancelled on the server when stopped
+					const retryOptions = retryRef.current === false ? { retries: 0 } : retryRef.current
+					return createResilientFetch({ ...retryOptions, canRetry: () => isMountedRef.current })(input, init)
+				},
+			})
+	)
+
+	const {
+		messages: chatMessages,
+		sendMessage,
+		status,
+		error,
+		regenerate: regenerateReply,
+		resumeStream,
+		stop: stopRequest,
+		setMessages,
+		clearError,
+	} = useChat<ChatUIMessage>({
+		// useChat recreates the chat whenever an `id` key is present but differs
+		...(conversationId && { id: conversationId }),
+		transport,
+		messages: initialMessages.map(fromMessage),
+		onFinish: ({ messages, isAbort }) => {
+			resumingRef.current = null
+			// Keep what was streamed before the learner stopped, flagged so it can be continued
+			if (isAbort) setMessages(markReplyStopped(messages))
+			onLearningStateChangeRef.current?.(getLearningState(messages))
+			onResponseCompleteRef.current?.()
+		},
+	})
+
+	// useChat only knows the active branch; the tree remembers the others
+	const [tree, setTree] = useState(() => createConversationTree(chatMessages))
+	useEffect(() => {
+		setTree((current) => mergeMessagePath(current, chatMessages))
+	}, [chatMessages])
+
+	// Hydrate a saved conversation unless the parent supplied messages
+	const shouldHydrate = !!conversationId && initialMessages.length === 0
+	useEffect(() => {
+		if (!shouldHydrate) return
+
+		let isCancelled = false
+		const hydrate = async () => {
+			try {
+				const response = await fetch(`/api/conversations/${conversationId}`)
+				// 404 just means nothing has been saved yet
+				if (!response.ok) return
+
+				const { conversation } = await response.json()
+				if (!isCancelled && conversation?.messages?.length) {
+					setTree(conversation.tree ?? createConversationTree(conversation.messages))
+					setMessages(conversation.messages)
+					onLearningStateChangeRef.current?.(getLearningState(conversation.messages))
+
+					// A learner turn without a reply was saved as the reply started, e.g.
+					// before the page was reloaded; the server may still be streaming it
+					const last: ChatUIMessage = conversation.messages[conversation.messages.length - 1]
+					if (last.role === 'user') {
+						resumingRef.current = last.id
+						resumeStream()
+					}
+				}
+			} catch (error) {
+				console.error('Error loading conversation:', error)
+			}
+		}
+
+		hydrate()
+		return () => {
+			isCancelled = true
+		}
+	}, [conversationId, shouldHydrate, setMessages, resumeStream])
+
+	// A throttled request isn't a failed message; it is resent after the wait
+	const retryAfter = error ? getChatErrorRetryAfter(error) : null
+	const isStreaming = status === 'streaming'
+
+	// The failure belongs to the turn that was last when the error arrived, so
+	// switching branches doesn't move it. Recorded while rendering, so the
+	// messages are the ones the error came with.
+	const [failure, setFailure] = useState<{ error: Error; messageId?: string } | null>(null)
+	if (error && failure?.error !== error) {
+		setFailure({ error, messageId: chatMessages[chatMessages.length - 1]?.id })
+	}
+	const failedMessageId = error && retryAfter === null && failure?.error === error ? failure.messageId : undefined
+	const classifiedFailure = useMemo(() => (error ? classifyChatError(error) : null), [error])
+
+	const messages = useMemo(() => {
+		const contextSummary = findContextSummary(chatMessages)
+		const last = chatMessages[chatMessages.length - 1]
+
+		return chatMessages.map((message) =>
+			toMessage(message, {
+				// Only the latest turn can still be streaming
+				status:
+					isStreaming && message === last
+						? 'streaming'
+						: message.id === failedMessageId
+						? 'failed'
+						: 'complete',
+				branch: getBranchInfo(tree, message.id),
+				contextSummary,
+				failure: classifiedFailure,
+			})
+		)
+	}, [chatMessages, tree, isStreaming, failedMessageId, classifiedFailure])
+
+	// Sent with every request so the server can pick the model per conversation
+	const requestOptions = useMemo(
+		() => ({ body: { provider, model, personaId, conversationId } }),
+		[provider, model, personaId, conversationId]
+	)
+
+	const send = useCallback(
+		(content: string, metadata?: ChatMessageMetadata) => {
+			const message: Message = {
+				id: generateId(),
+				role: 'user',
+				content,
+				status: 'complete',
+				timestamp: new Date(),
+			}
+
+			sendMessage(
+				{
+					id: message.id,
+					role: 'user',
+					parts: [{ type: 'text', text: content }],
+					metadata: {
+						createdAt: message.timestamp.toISOString(),
+						...(objective && { objective }),
+						...metadata,
+					},
+				},
+				requestOptions
+			)
+			return message
+		},
+		[sendMessage, requestOptions, objective]
+	)
+
+	const regenerate = useCallback(
+		(messageId?: string) => {
+			if (chatMessages.length === 0) return
+			const isKnown = chatMessages.some((message) => message.id === messageId)
+			regenerateReply({ ...requestOptions, ...(isKnown && { messageId }) })
+		},
+		[chatMessages, regenerateReply, requestOptions]
+	)
+
+	// A resumed reply isn't read through a request this page can abort, so the
+	// server is asked to stop it
+	const stop = useCallback(() => {
+		if (resumingRef.current && conversationId) {
+			fetch(`/api/chat/${conversationId}/stream`, { method: 'DELETE', keepalive: true }).catch((error) =>
+				console.error('Error stopping reply:', error)
+			)
+		}
+		stopRequest()
+	}, [conversationId, stopRequest])
+
+	// Resends the conversation as it is; the server carries on with the stopped reply
+	const continueReply = useCallback(() => {
+		sendMessage(undefined, requestOptions)
+	}, [sendMessage, requestOptions])
+
+	// Remembers the selected path for the next visit
+	const saveActivePath = useCallback(
+		(path: ChatUIMessage[]) => {
+			if (!conversationId) return
+
+			fetch(`/api/conversations/${conversationId}`, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ messages: path }),
+			}).catch((error) => console.error('Error saving branch selection:', error))
+		},
+		[conversationId]
+	)
+
+	// Editing an earlier turn forks: the chat rewinds to just before it and
+	// the edited text is sent as a sibling, leaving the old branch in the tree
+	const edit = useCallback(
+		(messageId: string, content: string) => {
+			const index = chatMessages.findIndex((message) => message.id === messageId)
+			if (index === -1) return
+
+			setMessages(chatMessages.slice(0, index))
+			send(content)
+		},
+		[chatMessages, setMessages, send]
+	)
+
+	const deleteMessage = useCallback(
+		(messageId: string) => {
+			const index = chatMessages.findIndex((message) => message.id === messageId)
+			if (index === -1) return
+
+			if (status === 'submitted' || isStreaming) stop()
+			const path = chatMessages.slice(0, index)
+			setMessages(path)
+			onLearningStateChangeRef.current?.(getLearningState(path))
+			saveActivePath(path)
+		},
+		[chatMessages, status, isStreaming, stop, setMessages, saveActivePath]
+	)
+
+	const switchBranch = useCallback(
+		(messageId: string, direction: BranchDirection) => {
+			const nextTree = switchTreeBranch(tree, messageId, direction)
+			if (nextTree === tree) return
+
+			const path = getActivePath(nextTree)
+			setTree(nextTree)
+			setMessages(path)
+			onLearningStateChangeRef.current?.(getLearningState(path))
+			saveActivePath(path)
+		},
+		[tree, setMessages, saveActivePath]
+	)
+
+	return {
+		messages,
+		chatMessages,
+		tree,
+		status,
+		isStreaming,
+		error,
+		failure: classifiedFailure,
+		retryAfter,
+		send,
+		stop,
+		regenerate,
+		continueReply,
+		edit,
+		deleteMessage,
+		setMessages,
+		switchBranch,
+		clearError,
+	}
+}
@@ -0,0 +1,186 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+	streamText,
+	generateText,
+	generateObject,
+	jsonSchema,
+	convertToModelMessages,
+	type UIMessage,
+} from 'ai'
+import type { LanguageModelV2Prompt } from '@ai-sdk/provider'
+
+import {
+	createMockModel,
+	createMockReply,
+	getMockModelOptionsFromEnv,
+} from './mock-model'
+
+const userPrompt = (...texts: string[]): LanguageModelV2Prompt =>
+	texts.map((text) => ({ role: 'user', content: [{ type: 'text', text }] }))
+
+const collectText = async (stream: AsyncIterable<string>) => {
+	let text = ''
+	for await (const delta of stream) {
+		text += delta
+	}
+	return text
+}
+
+describe('mock model', () => {
+	describe('createMockReply', () => {
+		it('answers greetings with an opening question', () => {
+			expect(createMockReply(userPrompt('Hello there'))).toBe(
+				'Hello! What question has been on your mind lately?'
+			)
+		})
+
+		it('asks for an own-words definition on "what is" questions', () => {
+			expect(createMockReply(userPrompt('What is entropy?'))).toBe(
+				'Before we look for a definition, how would you describe entropy in your own words?'
+			)
+		})
+
+		it('is deterministic for the same prompt', () => {
+			const prompt = userPrompt('Justice is giving each their due')
+			expect(createMockReply(prompt)).toBe(createMockReply(prompt))
+		})
+
+		it('rotates fallback questions by user turn', () => {
+			const first = createMockReply(userPrompt('Knowledge is belief'))
+			const second = createMockReply(userPrompt('Knowledge is belief', 'Justified belief'))
+
+			expect(first).toContain('What assumptions are you making')
+			expect(second).not.toBe(first)
+		})
+
+		it('follows a script in order and wraps around', () => {
+			const script = ['First?', 'Second?']
+
+			expect(createMockReply(userPrompt('a'), { script })).toBe('First?')
+			expect(createMockReply(userPrompt('a', 'b'), { script })).toBe('Second?')
+			expect(createMockReply(userPrompt('a', 'b', 'c'), { script })).toBe('First?')
+		})
+
+		it('uses custom rules when provided', () => {
+			const rules = [{ pattern: /photosynthesis/i, reply: 'Where does the plant get its energy?' }]
+
+			expect(createMockReply(userPrompt('Explain photosynthesis'), { rules })).toBe(
+				'Where does the plant get its energy?'
+			)
+		})
+	})
+
+	describe('streaming', () => {
+		it('streams the reply token by token through streamText', async () => {
+			const result = streamText({
+				model: createMockModel({ script: ['What do you think a triangle is?'], tokenDelayMs: 0 }),
+				prompt: 'Teach me geometry',
+			})
+
+			const deltas: string[] = []
+			for await (const delta of result.textStream) {
+				deltas.push(delta)
+			}
+
+			expect(deltas.length).toBeGreaterThan(1)
+			expect(deltas.join('')).toBe('What do you think a triangle is?')
+		})
+
+		it('injects an error after the configured number of tokens', async () => {
+			const onError = jest.fn()
+			const result = streamText({
+				model: createMockModel({
+					script: ['One two three four five'],
+					tokenDelayMs: 0,
+					errorAfterTokens: 2,
+					errorMessage: 'Simulated outage',
+				}),
+				prompt: 'Go',
+				onError,
+			})
+
+			expect(await collectText(result.textStream)).toBe('One two ')
+			expect(onError).toHaveBeenCalledWith({ error: new Error('Simulated outage') })
+		})
+
+		it('produces a UI message stream response usable by /api/chat', async () => {
+			const messages: UIMessage[] = [
+				{ id: '1', role: 'user', parts: [{ type: 'text', text: 'Hello' }] },
+			]
+			const result = streamText({
+				model: createMockModel({ tokenDelayMs: 0 }),
+				messages: convertToModelMessages(messages),
+			})
+
+			const response = result.toUIMessageStreamResponse()
+			const body = await response.text()
+
+			expect(response.headers.get('content-type')).toContain('text/event-stream')
+			expect(body).toContain('"type":"text-delta"')
+			expect(body).toContain('"type":"finish"')
+		})
+
+		it('supports non-streaming generation', async () => {
+			const { text } = await generateText({
+				model: createMockModel({ script: ['Why might that be?'] }),
+				prompt: 'Go',
+			})
+
+			expect(text).toBe('Why might that be?')
+		})
+
+		it('returns schema-conforming JSON for structured output', async () => {
+			const { object } = await generateObject({
+				model: createMockModel(),
+				schema: jsonSchema<{ goals: string[]; done: boolean }>({
+					type: 'object',
+					properties: {
+						goals: { type: 'array', items: { type: 'string' } },
+						done: { type: 'boolean' },
+						note: { type: 'string' },
+					},
+					required: ['goals', 'done'],
+				}),
+				prompt: 'Go',
+			})
+
+			expect(object).toEqual({ goals: [], done: false })
+		})
+	})
+
+	describe('getMockModelOptionsFromEnv', () => {
+		const originalEnv = process.env
+
+		afterEach(() => {
+			process.env = originalEnv
+		})
+
+		it('reads delays, script and error injection from the environment', () => {
+			process.env = {
+				...originalEnv,
+				MOCK_SCRIPT: '["A?","B?"]',
+				MOCK_TOKEN_DELAY_MS: '5',
+				MOCK_ERROR_AFTER_TOKENS: '3',
+			}
+
+			expect(getMockModelOptionsFromEnv()).toEqual(
+				expect.objectContaining({
+					script: ['A?', 'B?'],
+					tokenDelayMs: 5,
+					errorAfterTokens: 3,
+				})
+			)
+		})
+
+		it('ignores a malformed script', () => {
+			const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+			process.env = { ...originalEnv, MOCK_SCRIPT: 'not json' }
+
+			expect(getMockModelOptionsFromEnv().script).toBeUndefined()
+			warn.mockRestore()
+		})
+	})
+})
@@ -0,0 +1,237 @@
+import type {
+	JSONSchema7,
+	JSONSchema7Definition,
+	LanguageModelV2,
+	LanguageModelV2Prompt,
+	LanguageModelV2StreamPart,
+	LanguageModelV2Usage,
+} from '@ai-sdk/provider'
+import { simulateReadableStream } from 'ai'
+
+export interface MockRule {
+	// Matched against the latest user message
+	pattern: RegExp
+	reply: string | ((userText: string) => string)
+}
+
+export interface MockModelOptions {
+	modelId?: string
+	// Replies used in order, one per user turn (wraps around); overrides rules
+	script?: string[]
+	rules?: MockRule[]
+	initialDelayMs?: number
+	tokenDelayMs?: number
+	// Emit an error instead of the rest of the reply after this many tokens
+	errorAfterTokens?: number
+	errorMessage?: string
+}
+
+export const DEFAULT_MOCK_RULES: MockRule[] = [
+	{
+		pattern: /^\s*(hi|hello|hey)\b/i,
+		reply: 'Hello! What question has been on your mind lately?',
+	},
+	{
+		pattern: /\b(i don'?t know|not sure|no idea)\b/i,
+		reply:
+			"That's a perfectly good place to start. What do you already know that might be related?",
+	},
+	{
+		pattern: /\bwhat (is|are) (.+?)\??$/i,
+		reply: (userText) => {
+			const topic = userText.match(/\bwhat (?:is|are) (.+?)\??$/i)?.[1] ?? 'it'
+			return `Before we look for a definition, how would you describe ${topic} in your own words?`
+		},
+	},
+	{
+		pattern: /^\s*why\b/i,
+		reply:
+			'What possible explanations come to mind, and which one seems most convincing to you?',
+	},
+	{
+		pattern: /\bbecause\b/i,
+		reply:
+			'You offered a reason there. How confident are you in it, and what evidence would change your mind?',
+	},
+]
+
+const FALLBACK_REPLIES = [
+	(userText: string) =>
+		`You said "${userText}". What assumptions are you making there?`,
+	() => 'Interesting. Can you think of an example that supports that idea?',
+	() => 'How might someone who disagrees with you respond to that?',
+	() => 'If that were true, what else would have to be true as well?',
+]
+
+const EMPTY_USAGE: LanguageModelV2Usage = {
+	inputTokens: 0,
+	outputTokens: 0,
+	totalTokens: 0,
+}
+
+const getUserTexts = (prompt: LanguageModelV2Prompt) =>
+	prompt.flatMap((message) =>
+		message.role === 'user'
+			? [
+					message.content
+						.map((part) => (part.type === 'text' ? part.text : ''))
+						.join(' ')
+						.trim(),
+			  ]
+			: []
+	)
+
+// Same prompt always yields the same reply so tests and demos are repeatable
+export const createMockReply = (
+	prompt: LanguageModelV2Prompt,
+	{ script, rules = DEFAULT_MOCK_RULES }: Pick<MockModelOptions, 'script' | 'rules'> = {}
+) => {
+	const userTexts = getUserTexts(prompt)
+	const turn = Math.max(userTexts.length - 1, 0)
+	const userText = userTexts[userTexts.length - 1] ?? ''
+
+	if (script && script.length > 0) {
+		return script[turn % script.length]
+	}
+
+	if (!userText) {
+		return 'What would you like to explore today?'
+	}
+
+	const rule = rules.find(({ pattern }) => pattern.test(userText))
+	if (rule) {
+		return typeof rule.reply === 'function' ? rule.reply(userText) : rule.reply
+	}
+
+	return FALLBACK_REPLIES[turn % FALLBACK_REPLIES.length](userText)
+}
+
+// The smallest value that satisfies a JSON schema, for structured output:
+// required properties only, empty arrays, first enum values
+export function createMockObject(schema: JSONSchema7Definition | undefined): unknown {
+	if (typeof schema !== 'object') return {}
+	if (schema.enum?.length) return schema.enum[0]
+
+	const type = Array.isArray(schema.type) ? schema.type[0] : schema.type
+	switch (type) {
+		case 'object':
+			return Object.fromEntries(
+				(schema.required ?? []).map((key) => [key, createMockObject(schema.properties?.[key])])
+			)
+		case 'array':
+			return []
+		case 'string':
+			return ''
+		case 'number':
+		case 'integer':
+			return schema.minimum ?? 0
+		case 'boolean':
+			return false
+		case 'null':
+			return null
+		default:
+			return {}
+	}
+}
+
+const tokenize = (text: string) => text.match(/\S+\s*/g) ?? []
+
+// Offline stand-in for a real model so the app runs without any API key
+export function createMockModel({
+	modelId = 'socratic-mock',
+	script,
+	rules,
+	initialDelayMs = 0,
+	tokenDelayMs = 30,
+	errorAfterTokens,
+	errorMessage = 'Mock provider error',
+}: MockModelOptions = {}): LanguageModelV2 {
+	return {
+		specificationVersion: 'v2',
+		provider: 'mock',
+		modelId,
+		supportedUrls: {},
+
+		async doGenerate({ prompt, responseFormat }) {
+			if (errorAfterTokens !== undefined) {
+				throw new Error(errorMessage)
+			}
+
+			// JSON mode, as used by generateObject
+			const text =
+				responseFormat?.type === 'json'
+					? JSON.stringify(createMockObject(responseFormat.schema as JSONSchema7 | undefined))
+					: createMockReply(prompt, { script, rules })
+			return {
+				content: [{ type: 'text', text }],
+				finishReason: 'stop',
+				usage: EMPTY_USAGE,
+				warnings: [],
+			}
+		},
+
+		async doStream({ prompt }) {
+			const tokens = tokenize(createMockReply(prompt, { script, rules }))
+			const failing = errorAfterTokens !== undefined
+			const streamedTokens = failing ? tokens.slice(0, errorAfterTokens) : tokens
+
+			const chunks: LanguageModelV2StreamPart[] = [
+				{ type: 'stream-start', warnings: [] },
+				{ type: 'text-start', id: 'text-0' },
+				...streamedTokens.map(
+					(delta): LanguageModelV2StreamPart => ({
+						type: 'text-delta',
+						id: 'text-0',
+						delta,
+					})
+				),
+				...(failing
+					? [{ type: 'error', error: new Error(errorMessage) } as const]
+					: [
+							{ type: 'text-end', id: 'text-0' } as const,
+							{
+								type: 'finish',
+								finishReason: 'stop',
+								usage: EMPTY_USAGE,
+							} as const,
+					  ]),
+			]
+
+			return {
+				stream: simulateReadableStream({
+					chunks,
+					initialDelayInMs: initialDelayMs,
+					chunkDelayInMs: tokenDelayMs,
+				}),
+			}
+		},
+	}
+}
+
+const parseNumber = (value: string | undefined) =>
+	value !== undefined && value !== '' && !isNaN(Number(value))
+		? Number(value)
+		: undefined
+
+const parseScript = (value: string | undefined) => {
+	if (!value) return undefined
+
+	try {
+		const script = JSON.parse(value)
+		return Array.isArray(script) ? script.map(String) : undefined
+	} catch {
+		// Not a JSON array of strings; the rules answer instead
+		return undefined
+	}
+}
+
+// Lets `AI_PROVIDER=mock npm run dev` simulate slow or failing models
+export function getMockModelOptionsFromEnv(): MockModelOptions {
+	return {
+		script: parseScript(process.env.MOCK_SCRIPT),
+		initialDelayMs: parseNumber(process.env.MOCK_INITIAL_DELAY_MS),
+		tokenDelayMs: parseNumber(process.env.MOCK_TOKEN_DELAY_MS),
+		errorAfterTokens: parseNumber(process.env.MOCK_ERROR_AFTER_TOKENS),
+		errorMessage: process.env.MOCK_ERROR_MESSAGE || undefined,
+	}
+}
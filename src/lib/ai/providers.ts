@@ -0,0 +1,120 @@
+import type { LanguageModel } from 'ai'
+import { openai } from '@ai-sdk/openai'
+import { anthropic } from '@ai-sdk/anthropic'
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible'
+
+import { createMockModel, getMockModelOptionsFromEnv } from './mock-model'
+import type { ChatErrorCode } from '@/lib/chat/errors'
+
+export type ProviderId = 'openai' | 'anthropic' | 'local' | 'mock'
+
+export interface ModelProvider {
+	id: ProviderId
+	label: string
+	defaultModel: string
+	// Returns an error message when the provider cannot serve requests
+	checkConfiguration: () => string | null
+	createModel: (modelId: string) => LanguageModel
+}
+
+export interface ResolvedModel {
+	provider: ModelProvider
+	modelId: string
+	model: LanguageModel
+}
+
+export class ProviderError extends Error {
+	constructor(
+		message: string,
+		public status: number,
+		public code: ChatErrorCode
+	) {
+		super(message)
+		this.name = 'ProviderError'
+	}
+}
+
+const DEFAULT_PROVIDER: ProviderId = 'openai'
+
+const providers: Record<ProviderId, ModelProvider> = {
+	openai: {
+		id: 'openai',
+		label: 'OpenAI',
+		defaultModel: 'gpt-4o-mini',
+		checkConfiguration: () =>
+			process.env.OPENAI_API_KEY ? null : 'OpenAI API key not configured',
+		createModel: (modelId) => openai(modelId),
+	},
+	anthropic: {
+		id: 'anthropic',
+		label: 'Anthropic',
+		defaultModel: 'claude-3-5-haiku-latest',
+		checkConfiguration: () =>
+			process.env.ANTHROPIC_API_KEY ? null : 'Anthropic API key not configured',
+		createModel: (modelId) => anthropic(modelId),
+	},
+	local: {
+		id: 'local',
+		label: 'Local (OpenAI-compatible)',
+		defaultModel: process.env.LOCAL_AI_MODEL || 'llama3.1',
+		checkConfiguration: () =>
+			process.env.LOCAL_AI_BASE_URL ? null : 'Local model base URL not configured',
+		// Ollama, vLLM, LM Studio etc. all expose the OpenAI chat completions API
+		createModel: (modelId) =>
+			createOpenAICompatible({
+				name: 'local',
+				baseURL: process.env.LOCAL_AI_BASE_URL as string,
+				apiKey: process.env.LOCAL_AI_API_KEY,
+			})(modelId),
+	},
+	mock: {
+		id: 'mock',
+		label: 'Mock (offline)',
+		defaultModel: 'socratic-mock',
+		checkConfiguration: () => null,
+		createModel: (modelId) =>
+			createMockModel({ ...getMockModelOptionsFromEnv(), modelId }),
+	},
+}
+
+export function isProviderId(value: unknown): value is ProviderId {
+	return typeof value === 'string' && Object.hasOwn(providers, value)
+}
+
+export function getProvider(id: ProviderId): ModelProvider {
+	return providers[id]
+}
+
+export function listProviders(): ModelProvider[] {
+	return Object.values(providers)
+}
+
+// Picks the provider from the request when given, falling back to AI_PROVIDER
+export function resolveModel(
+	options: { provider?: unknown; model?: unknown } = {}
+): ResolvedModel {
+	const requested = options.provider ?? process.env.AI_PROVIDER ?? DEFAULT_PROVIDER
+
+	if (!isProviderId(requested)) {
+		throw new ProviderError(`Unknown model provider: ${String(requested)}`, 400, 'UNKNOWN_PROVIDER')
+	}
+
+	if (options.model !== undefined && typeof options.model !== 'string') {
+		throw new ProviderError('Model must be a string', 400, 'INVALID_MODEL')
+	}
+
+	const provider = providers[requested]
+	const configurationError = provider.checkConfiguration()
+	if (configurationError) {
+		throw new ProviderError(configurationError, 500, 'PROVIDER_NOT_CONFIGURED')
+	}
+
+	// AI_MODEL only applies to the provider it was configured for
+	const envModel =
+		requested === (process.env.AI_PROVIDER ?? DEFAULT_PROVIDER)
+			? process.env.AI_MODEL
+			: undefined
+	const modelId = options.model || envModel || provider.defaultModel
+
+	return { provider, modelId, model: provider.createModel(modelId) }
+}
@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+
+import { generateText, streamText } from 'ai'
+import type { LanguageModelV2, LanguageModelV2StreamPart } from '@ai-sdk/provider'
+
+import { withUsageReporting } from './usage'
+
+const usage = { inputTokens: 30, outputTokens: 12, totalTokens: 42 }
+
+const model: LanguageModelV2 = {
+	specificationVersion: 'v2',
+	provider: 'test',
+	modelId: 'test-model',
+	supportedUrls: {},
+	doGenerate: async () => ({
+		content: [{ type: 'text', text: 'What do you think?' }],
+		finishReason: 'stop',
+		usage,
+		warnings: [],
+	}),
+	doStream: async () => ({
+		stream: new ReadableStream<LanguageModelV2StreamPart>({
+			start(controller) {
+				controller.enqueue({ type: 'text-start', id: 't1' })
+				controller.enqueue({ type: 'text-delta', id: 't1', delta: 'What do you think?' })
+				controller.enqueue({ type: 'text-end', id: 't1' })
+				controller.enqueue({ type: 'finish', finishReason: 'stop', usage })
+				controller.close()
+			},
+		}),
+	}),
+}
+
+describe('withUsageReporting', () => {
+	it('reports the tokens of generated and streamed calls', async () => {
+		const report = jest.fn()
+		const reporting = withUsageReporting(model, report)
+
+		await generateText({ model: reporting, prompt: 'Hi' })
+		await streamText({ model: reporting, prompt: 'Hi' }).consumeStream()
+
+		expect(report.mock.calls).toEqual([[42], [42]])
+	})
+
+	it('adds up input and output when the provider has no total', async () => {
+		const report = jest.fn()
+		const partial: LanguageModelV2 = {
+			...model,
+			doGenerate: async (options) => ({
+				...(await model.doGenerate(options)),
+				usage: { ...usage, totalTokens: undefined },
+			}),
+		}
+
+		await generateText({ model: withUsageReporting(partial, report), prompt: 'Hi' })
+
+		expect(report).toHaveBeenCalledWith(42)
+	})
+
+	it('leaves models given by id alone', () => {
+		expect(withUsageReporting('openai/gpt-4o-mini', jest.fn())).toBe('openai/gpt-4o-mini')
+	})
+})
@@ -0,0 +1,46 @@
+import type { LanguageModelV2, LanguageModelV2StreamPart, LanguageModelV2Usage } from '@ai-sdk/provider'
+import type { LanguageModel } from 'ai'
+
+// Called with the tokens of each finished model call
+export type UsageReporter = (tokens: number) => Promise<void> | void
+
+const countTokens = ({ inputTokens, outputTokens, totalTokens }: LanguageModelV2Usage) =>
+	totalTokens ?? (inputTokens ?? 0) + (outputTokens ?? 0)
+
+// The same model, reporting the tokens of every call made through it, so
+// checks, summaries and assessments are counted as well as the reply.
+// Models given by id are resolved by the SDK and can't be wrapped.
+export function withUsageReporting(model: LanguageModel, report: UsageReporter): LanguageModel {
+	if (typeof model === 'string') return model
+
+	const reporting: LanguageModelV2 = {
+		specificationVersion: 'v2',
+		provider: model.provider,
+		modelId: model.modelId,
+		get supportedUrls() {
+			return model.supportedUrls
+		},
+
+		async doGenerate(options) {
+			const result = await model.doGenerate(options)
+			await report(countTokens(result.usage))
+			return result
+		},
+
+		async doStream(options) {
+			const result = await model.doStream(options)
+			return {
+				...result,
+				stream: result.stream.pipeThrough(
+					new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+						async transform(part, controller) {
+							if (part.type === 'finish') await report(countTokens(part.usage))
+							controller.enqueue(part)
+						},
+					})
+				),
+			}
+		},
+	}
+	return reporting
+}
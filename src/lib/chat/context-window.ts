@@ -0,0 +1,205 @@
+import { generateText, type LanguageModel } from 'ai'
+
+import { type ChatUIMessage, formatTranscript, getMessageText } from './messages'
+
+// Kept with the conversation on the server, so the next request can extend
+// it instead of summarizing the same turns again. The reply it was made for
+// carries a copy in its metadata, for display only.
+export interface ContextSummary {
+	// What happened in the summarized turns
+	text: string
+	// The learner's own statements from those turns, verbatim
+	claims: string[]
+	// Last summarized message; everything after it is sent to the model as is
+	throughMessageId: string
+	summarizedCount: number
+}
+
+export interface ContextWindowOptions {
+	// Estimated tokens of history per request, before any summary
+	tokenBudget: number
+	// The latest messages are always sent in full
+	keepRecentMessages: number
+}
+
+export interface CompactedContext {
+	messages: ChatUIMessage[]
+	summary: ContextSummary | null
+}
+
+// Folds a run of turns into the running summary
+export type Summarizer = (input: {
+	previous: string | null
+	messages: ChatUIMessage[]
+}) => Promise<string>
+
+export const DEFAULT_CONTEXT_WINDOW_OPTIONS: ContextWindowOptions = {
+	tokenBudget: 6000,
+	keepRecentMessages: 6,
+}
+
+// About four characters per token in English prose; close enough to budget
+// by without shipping a tokenizer for every provider
+const CHARS_PER_TOKEN = 4
+// Role markers and separators each message costs on top of its text
+const MESSAGE_OVERHEAD_TOKENS = 4
+const MAX_CLAIMS = 30
+const MAX_RULE_SUMMARY_LINES = 20
+const MIN_CLAIM_WORDS = 3
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN)
+
+export const estimateMessageTokens = (message: ChatUIMessage) =>
+	estimateTokens(getMessageText(message)) + MESSAGE_OVERHEAD_TOKENS
+
+const splitSentences = (text: string) =>
+	text
+		.replace(/([.!?])\s+/g, '$1\n')
+		.split('\n')
+		.map((sentence) => sentence.trim())
+		.filter(Boolean)
+
+// Statements rather than questions, so "I think courage is acting despite
+// fear." is kept but "What do you mean?" is not
+export function extractLearnerClaims(messages: ChatUIMessage[]): string[] {
+	return messages
+		.filter((message) => message.role === 'user')
+		.flatMap((message) => splitSentences(getMessageText(message)))
+		.filter(
+			(sentence) => !sentence.endsWith('?') && sentence.split(/\s+/).length >= MIN_CLAIM_WORDS
+		)
+}
+
+// Without a model call: the questions the tutor posed, in order
+export const summarizeByRule: Summarizer = async ({ previous, messages }) => {
+	const questions = messages
+		.filter((message) => message.role === 'assistant')
+		.map((message) =>
+			splitSentences(getMessageText(message))
+				.filter((sentence) => sentence.endsWith('?'))
+				.pop()
+		)
+		.filter((question): question is string => !!question)
+		.map((question) => `- The tutor asked: ${question}`)
+
+	const lines = [...(previous ? previous.split('\n') : []), ...questions]
+	return lines.slice(-MAX_RULE_SUMMARY_LINES).join('\n')
+}
+
+const SUMMARY_PROMPT = `You keep notes for a Socratic tutor. Summarize the conversation excerpt in at most five sentences: the topic, the questions explored and where the learner's understanding stands. Do not quote the learner; their statements are recorded separately.`
+
+export const createModelSummarizer =
+	(model: LanguageModel): Summarizer =>
+	async ({ previous, messages }) => {
+		const transcript = formatTranscript(messages)
+		const { text } = await generateText({
+			model,
+			system: SUMMARY_PROMPT,
+			prompt: previous ? `Notes so far:\n${previous}\n\nContinue them with:\n${transcript}` : transcript,
+		})
+		return text.trim()
+	}
+
+// The most recent summary attached to a reply on this branch, for display
+export function findContextSummary(messages: ChatUIMessage[]): ContextSummary | null {
+	for (let index = messages.length - 1; index >= 0; index--) {
+		const summary = messages[index].metadata?.contextSummary
+		if (summary && messages.slice(0, index).some((message) => message.id === summary.throughMessageId)) {
+			return summary
+		}
+	}
+	return null
+}
+
+// The most recent of the server's own summaries that covers part of this branch
+export function findSavedContextSummary(
+	messages: ChatUIMessage[],
+	saved: ContextSummary[]
+): ContextSummary | null {
+	for (let index = messages.length - 1; index >= 0; index--) {
+		const summary = saved.find((item) => item.throughMessageId === messages[index].id)
+		if (summary) return summary
+	}
+	return null
+}
+
+// Keeps the history within budget by replacing the oldest turns with a
+// summary. Compacts down to half the budget, so the summary is reused for
+// the next few turns rather than rebuilt on every request. Only summaries
+// the server saved are built on; the ones in message metadata came from the
+// client and are ignored.
+export async function compactConversation(
+	messages: ChatUIMessage[],
+	options: ContextWindowOptions,
+	summarize: Summarizer = summarizeByRule,
+	saved: ContextSummary[] = []
+): Promise<CompactedContext> {
+	const tokens = messages.map(estimateMessageTokens)
+	const total = tokens.reduce((sum, count) => sum + count, 0)
+	if (total <= options.tokenBudget) return { messages, summary: null }
+
+	const previous = findSavedContextSummary(messages, saved)
+	const previousEnd = previous
+		? messages.findIndex((message) => message.id === previous.throughMessageId) + 1
+		: 0
+
+	const maxStart = Math.max(messages.length - options.keepRecentMessages, 0)
+	let start = 0
+	let remaining = total
+	while (start < maxStart && remaining > options.tokenBudget / 2) {
+		remaining -= tokens[start]
+		start += 1
+	}
+	// Open the kept history with a learner turn, as some providers require
+	while (start > 0 && start < messages.length - 1 && messages[start].role !== 'user') {
+		start += 1
+	}
+
+	if (previous && start <= previousEnd) {
+		return { messages: messages.slice(previousEnd), summary: previous }
+	}
+	if (start === 0) return { messages, summary: null }
+
+	const summarized = messages.slice(previousEnd, start)
+	const text = await summarize({ previous: previous?.text ?? null, messages: summarized })
+
+	return {
+		messages: messages.slice(start),
+		summary: {
+			text,
+			claims: [...(previous?.claims ?? []), ...extractLearnerClaims(summarized)].slice(-MAX_CLAIMS),
+			throughMessageId: messages[start - 1].id,
+			summarizedCount: start,
+		},
+	}
+}
+
+// Appended to the system prompt in place of the summarized turns
+export function formatContextSummary(summary: ContextSummary): string {
+	const sections = [`Summary of the earlier conversation:\n${summary.text}`]
+	if (summary.claims.length > 0) {
+		const claims = summary.claims.map((claim) => `- "${claim}"`).join('\n')
+		sections.push(`What the learner said earlier, verbatim:\n${claims}`)
+	}
+	return sections.join('\n\n')
+}
+
+const parseNumber = (value: string | undefined, fallback: number) =>
+	value !== undefined && value !== '' && Number(value) > 0 ? Number(value) : fallback
+
+export function getContextWindowOptionsFromEnv(): ContextWindowOptions {
+	return {
+		tokenBudget: parseNumber(
+			process.env.CONTEXT_TOKEN_BUDGET,
+			DEFAULT_CONTEXT_WINDOW_OPTIONS.tokenBudget
+		),
+		keepRecentMessages: parseNumber(
+			process.env.CONTEXT_KEEP_RECENT_MESSAGES,
+			DEFAULT_CONTEXT_WINDOW_OPTIONS.keepRecentMessages
+		),
+	}
+}
+
+// CONTEXT_SUMMARIZER=model summarizes with the chat model; rules otherwise
+export const getSummarizerFromEnv = (model: LanguageModel): Summarizer =>
+	process.env.CONTEXT_SUMMARIZER === 'model' ? createModelSummarizer(model) : summarizeByRule
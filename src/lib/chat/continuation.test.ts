@@ -0,0 +1,36 @@
+/**
+ * @jest-environment node
+ */
+
+import { findStoppedReply, markReplyStopped } from './continuation'
+import type { ChatUIMessage } from './messages'
+
+const question: ChatUIMessage = { id: 'u1', role: 'user', parts: [{ type: 'text', text: 'What is a prime?' }] }
+const partial: ChatUIMessage = {
+	id: 'a1',
+	role: 'assistant',
+	parts: [{ type: 'text', text: 'What do you notice about' }],
+	metadata: { createdAt: '2025-09-18T10:00:00.000Z' },
+}
+
+describe('stopped replies', () => {
+	it('flags the partial reply, keeping its metadata', () => {
+		expect(markReplyStopped([question, partial])).toEqual([
+			question,
+			{ ...partial, metadata: { createdAt: '2025-09-18T10:00:00.000Z', stopped: true } },
+		])
+	})
+
+	it('drops a reply that was stopped before any text arrived', () => {
+		expect(markReplyStopped([question, { ...partial, parts: [{ type: 'step-start' }] }])).toEqual([question])
+		expect(markReplyStopped([question])).toEqual([question])
+	})
+
+	it('recognises a continue request by its stopped last message', () => {
+		const [, stopped] = markReplyStopped([question, partial])
+
+		expect(findStoppedReply([question, stopped])).toBe(stopped)
+		expect(findStoppedReply([question, partial])).toBeNull()
+		expect(findStoppedReply([stopped, question])).toBeNull()
+	})
+})
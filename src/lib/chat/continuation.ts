@@ -0,0 +1,22 @@
+import { type ChatUIMessage, getMessageText } from './messages'
+
+// The reply the learner stopped, when it is sent back as the last message to
+// have the tutor carry on from where it ended
+export function findStoppedReply(messages: ChatUIMessage[]): ChatUIMessage | null {
+	const last = messages[messages.length - 1]
+	return last?.role === 'assistant' && last.metadata?.stopped ? last : null
+}
+
+// Flags the partial reply left by a cancelled request. A reply that hadn't
+// produced any text yet is dropped instead, as if it had never been asked for.
+export function markReplyStopped(messages: ChatUIMessage[]): ChatUIMessage[] {
+	const last = messages[messages.length - 1]
+	if (last?.role !== 'assistant') return messages
+	if (!getMessageText(last).trim()) return messages.slice(0, -1)
+
+	return [...messages.slice(0, -1), { ...last, metadata: { ...last.metadata, stopped: true } }]
+}
+
+// Appended to the system prompt for the request that continues a stopped reply
+export const CONTINUE_INSTRUCTION =
+	'Your last reply was stopped part-way through. Continue it from exactly where it ends, mid-sentence if need be, without repeating or summarizing what it already says.'
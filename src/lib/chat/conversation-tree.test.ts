@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+	createConversationTree,
+	getActivePath,
+	getBranchInfo,
+	isReservedMessageId,
+	mergeMessagePath,
+	switchBranch,
+} from './conversation-tree'
+import type { ChatUIMessage } from './messages'
+
+const message = (id: string, role: 'user' | 'assistant', text = id): ChatUIMessage => ({
+	id,
+	role,
+	parts: [{ type: 'text', text }],
+})
+
+const u1 = message('u1', 'user')
+const a1 = message('a1', 'assistant')
+const u2 = message('u2', 'user')
+const a2 = message('a2', 'assistant')
+const u2b = message('u2b', 'user')
+const a2b = message('a2b', 'assistant')
+
+const ids = (messages: ChatUIMessage[]) => messages.map((item) => item.id)
+
+describe('conversation tree', () => {
+	it('round-trips a linear conversation', () => {
+		const tree = createConversationTree([u1, a1, u2, a2])
+
+		expect(ids(getActivePath(tree))).toEqual(['u1', 'a1', 'u2', 'a2'])
+		expect(getBranchInfo(tree, 'u2')).toEqual({ index: 1, count: 1 })
+	})
+
+	it('forks when an earlier turn is replaced', () => {
+		const original = createConversationTree([u1, a1, u2, a2])
+		const forked = mergeMessagePath(original, [u1, a1, u2b, a2b])
+
+		expect(ids(getActivePath(forked))).toEqual(['u1', 'a1', 'u2b', 'a2b'])
+		expect(getBranchInfo(forked, 'u2')).toEqual({ index: 1, count: 2 })
+		expect(getBranchInfo(forked, 'u2b')).toEqual({ index: 2, count: 2 })
+		expect(forked.nodes.a2.message).toBe(a2)
+	})
+
+	it('does not mutate the previous tree', () => {
+		const original = createConversationTree([u1, a1, u2, a2])
+		mergeMessagePath(original, [u1, a1, u2b])
+
+		expect(ids(getActivePath(original))).toEqual(['u1', 'a1', 'u2', 'a2'])
+		expect(original.nodes.a1.childIds).toEqual(['u2'])
+	})
+
+	it('switches branches and resumes where each branch was left', () => {
+		const tree = mergeMessagePath(createConversationTree([u1, a1, u2, a2]), [u1, a1, u2b, a2b])
+
+		const previous = switchBranch(tree, 'u2b', 'previous')
+		expect(ids(getActivePath(previous))).toEqual(['u1', 'a1', 'u2', 'a2'])
+
+		const next = switchBranch(previous, 'u2', 'next')
+		expect(ids(getActivePath(next))).toEqual(['u1', 'a1', 'u2b', 'a2b'])
+	})
+
+	it('ignores switching past the first or last branch', () => {
+		const tree = mergeMessagePath(createConversationTree([u1, a1, u2]), [u1, a1, u2b])
+
+		expect(switchBranch(tree, 'u2b', 'next')).toBe(tree)
+		expect(switchBranch(tree, 'u2', 'previous')).toBe(tree)
+		expect(switchBranch(tree, 'missing', 'next')).toBe(tree)
+	})
+
+	it('branches the first message too', () => {
+		const u1b = message('u1b', 'user')
+		const tree = mergeMessagePath(createConversationTree([u1, a1]), [u1b])
+
+		expect(ids(getActivePath(tree))).toEqual(['u1b'])
+		expect(getBranchInfo(tree, 'u1b')).toEqual({ index: 2, count: 2 })
+		expect(ids(getActivePath(switchBranch(tree, 'u1b', 'previous')))).toEqual(['u1', 'a1'])
+	})
+
+	it('updates messages in place as they stream', () => {
+		const streaming = createConversationTree([u1, message('a1', 'assistant', 'Wh')])
+		const updated = mergeMessagePath(streaming, [u1, message('a1', 'assistant', 'What do you think?')])
+
+		expect(updated.nodes.a1.message.parts).toEqual([{ type: 'text', text: 'What do you think?' }])
+		expect(updated.nodes.u1.childIds).toEqual(['a1'])
+	})
+
+	it('ends the active path at the merged leaf', () => {
+		const tree = mergeMessagePath(createConversationTree([u1, a1, u2, a2]), [u1, a1])
+
+		expect(ids(getActivePath(tree))).toEqual(['u1', 'a1'])
+		expect(getBranchInfo(tree, 'u2')).toEqual({ index: 1, count: 1 })
+	})
+
+	it('keeps ids that name object built-ins apart from the built-ins', () => {
+		const proto = message('__proto__', 'user')
+		const constructor = message('constructor', 'assistant')
+		const tree = createConversationTree([proto, constructor])
+
+		expect(ids(getActivePath(tree))).toEqual(['__proto__', 'constructor'])
+		expect(getBranchInfo(tree, 'toString')).toBeNull()
+	})
+
+	it('reserves ids that would clash with its keys', () => {
+		expect(['__proto__', 'constructor', 'toString', '$root'].filter(isReservedMessageId)).toHaveLength(4)
+		expect(isReservedMessageId('u1')).toBe(false)
+	})
+})
@@ -0,0 +1,126 @@
+import type { ChatUIMessage } from './messages'
+
+export interface MessageNode {
+	message: ChatUIMessage
+	parentId: string | null
+	// In creation order, so branch numbers stay stable
+	childIds: string[]
+}
+
+// Every message ever sent in a conversation, including abandoned branches.
+// Editing an earlier turn adds a sibling instead of overwriting history.
+export interface ConversationTree {
+	nodes: Record<string, MessageNode>
+	rootIds: string[]
+	// The child the active path follows at each fork, keyed by parent id
+	// (ROOT_KEY for the first message). A missing entry ends the path.
+	activeChildIds: Record<string, string>
+}
+
+export interface BranchInfo {
+	// 1-based position among siblings, as shown in the branch switcher
+	index: number
+	count: number
+}
+
+export type BranchDirection = 'previous' | 'next'
+
+const ROOT_KEY = '$root'
+
+const parentKey = (parentId: string | null) => parentId ?? ROOT_KEY
+
+// Ids that would clash with the tree's own keys or with object built-ins
+export const isReservedMessageId = (id: string) => id === ROOT_KEY || id in Object.prototype
+
+// Keyed by message ids from the client, so nothing may be inherited
+const toRecord = <T>(entries: Record<string, T>): Record<string, T> =>
+	Object.assign(Object.create(null), entries)
+
+export function createConversationTree(messages: ChatUIMessage[] = []): ConversationTree {
+	return mergeMessagePath({ nodes: toRecord({}), rootIds: [], activeChildIds: toRecord({}) }, messages)
+}
+
+// Adds a root-to-leaf path to the tree and makes it the active one. Messages
+// already in the tree are updated in place, e.g. while a reply streams in.
+export function mergeMessagePath(
+	tree: ConversationTree,
+	path: ChatUIMessage[]
+): ConversationTree {
+	const nodes = toRecord(tree.nodes)
+	const activeChildIds = toRecord(tree.activeChildIds)
+	let rootIds = tree.rootIds
+	let parentId: string | null = null
+
+	for (const message of path) {
+		const existing = nodes[message.id]
+
+		if (existing) {
+			if (existing.message !== message) {
+				nodes[message.id] = { ...existing, message }
+			}
+		} else {
+			nodes[message.id] = { message, parentId, childIds: [] }
+			if (parentId === null) {
+				rootIds = [...rootIds, message.id]
+			} else {
+				const parent = nodes[parentId]
+				nodes[parentId] = { ...parent, childIds: [...parent.childIds, message.id] }
+			}
+		}
+
+		activeChildIds[parentKey(parentId)] = message.id
+		parentId = message.id
+	}
+
+	// The path ends where the caller's messages end
+	delete activeChildIds[parentKey(parentId)]
+
+	return { nodes, rootIds, activeChildIds }
+}
+
+export function getActivePath(tree: ConversationTree): ChatUIMessage[] {
+	const path: ChatUIMessage[] = []
+	let nextId = tree.activeChildIds[ROOT_KEY]
+
+	while (nextId && tree.nodes[nextId]) {
+		path.push(tree.nodes[nextId].message)
+		nextId = tree.activeChildIds[nextId]
+	}
+
+	return path
+}
+
+const getSiblingIds = (tree: ConversationTree, messageId: string) => {
+	const node = tree.nodes[messageId]
+	if (!node) return []
+	return node.parentId === null ? tree.rootIds : tree.nodes[node.parentId].childIds
+}
+
+export function getBranchInfo(tree: ConversationTree, messageId: string): BranchInfo | null {
+	const siblingIds = getSiblingIds(tree, messageId)
+	const index = siblingIds.indexOf(messageId)
+	if (index === -1) return null
+
+	return { index: index + 1, count: siblingIds.length }
+}
+
+// Activates the neighbouring sibling of a message. The path below it resumes
+// wherever that branch was left.
+export function switchBranch(
+	tree: ConversationTree,
+	messageId: string,
+	direction: BranchDirection
+): ConversationTree {
+	const siblingIds = getSiblingIds(tree, messageId)
+	const index = siblingIds.indexOf(messageId)
+	const targetId = siblingIds[index + (direction === 'next' ? 1 : -1)]
+	if (index === -1 || !targetId) return tree
+
+	return {
+		...tree,
+		activeChildIds: toRecord({
+			...tree.activeChildIds,
+			[parentKey(tree.nodes[targetId].parentId)]: targetId,
+		}),
+	}
+}
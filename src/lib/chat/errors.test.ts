@@ -0,0 +1,52 @@
+/**
+ * @jest-environment node
+ */
+
+import { classifyChatError, getChatErrorCode, getChatErrorMessage } from './errors'
+
+const responseError = (body: unknown) => new Error(JSON.stringify(body))
+
+describe('chat errors', () => {
+	it('recovers the code from a rejected response body', () => {
+		const error = responseError({ error: 'Request body is not valid JSON', code: 'INVALID_JSON' })
+
+		expect(getChatErrorCode(error)).toBe('INVALID_JSON')
+	})
+
+	it('maps codes to learner-facing messages', () => {
+		expect(getChatErrorMessage(responseError({ error: 'x', code: 'MESSAGE_TOO_LONG' }))).toBe(
+			'Your message is too long. Try shortening it.'
+		)
+	})
+
+	it('falls back for unknown codes and network errors', () => {
+		expect(getChatErrorCode(responseError({ error: 'x', code: 'SOMETHING_NEW' }))).toBeNull()
+		expect(getChatErrorCode(responseError({ error: 'x', code: 'toString' }))).toBeNull()
+		expect(getChatErrorCode(responseError({ error: 'x', code: 'constructor' }))).toBeNull()
+		expect(getChatErrorCode(new Error('Failed to fetch'))).toBeNull()
+		expect(getChatErrorMessage(new Error('Failed to fetch'))).toBe(
+			'The tutor could not respond. Check your connection and try again.'
+		)
+	})
+})
+
+describe('classifyChatError', () => {
+	it('classifies failures by the code the server sent', () => {
+		expect(classifyChatError(responseError({ error: 'x', code: 'RATE_LIMITED' }))).toEqual({
+			kind: 'rate-limited',
+			code: 'RATE_LIMITED',
+		})
+		expect(classifyChatError(responseError({ error: 'x', code: 'PROVIDER_AUTH_FAILED' })).kind).toBe(
+			'configuration'
+		)
+		expect(classifyChatError(responseError({ error: 'x', code: 'PROVIDER_ERROR' })).kind).toBe('provider')
+		expect(classifyChatError(responseError({ error: 'x', code: 'CONTENT_FILTERED' })).kind).toBe(
+			'content-filtered'
+		)
+		expect(classifyChatError(responseError({ error: 'x', code: 'MESSAGE_TOO_LONG' })).kind).toBe('request')
+	})
+
+	it('treats failures without a response as network problems', () => {
+		expect(classifyChatError(new Error('Failed to fetch'))).toEqual({ kind: 'network', code: null })
+	})
+})
@@ -0,0 +1,197 @@
+import { APICallError } from '@ai-sdk/provider'
+
+// Stable, machine-readable reasons a chat request was rejected. Returned by
+// /api/chat as `{ error, code }`; the client keys its UI copy off `code`.
+export type ChatErrorCode =
+	| 'INVALID_JSON'
+	| 'PAYLOAD_TOO_LARGE'
+	| 'INVALID_REQUEST'
+	| 'MISSING_MESSAGES'
+	| 'TOO_MANY_MESSAGES'
+	| 'INVALID_MESSAGE'
+	| 'INVALID_ROLE'
+	| 'UNSUPPORTED_PART'
+	| 'MESSAGE_TOO_LONG'
+	| 'UNKNOWN_PERSONA'
+	| 'UNKNOWN_QUESTION'
+	| 'INVALID_CONVERSATION_ID'
+	| 'UNKNOWN_PROVIDER'
+	| 'INVALID_MODEL'
+	| 'PROVIDER_NOT_CONFIGURED'
+	| 'PROVIDER_AUTH_FAILED'
+	| 'PROVIDER_ERROR'
+	| 'CONTENT_FILTERED'
+	| 'RATE_LIMITED'
+	| 'QUOTA_EXCEEDED'
+	| 'INTERNAL_ERROR'
+
+export interface ChatErrorBody {
+	error: string
+	code: ChatErrorCode
+	// Seconds until a rate-limited client may try again; mirrors Retry-After
+	retryAfter?: number
+}
+
+export class ChatRequestError extends Error {
+	constructor(
+		public code: ChatErrorCode,
+		message: string,
+		public status = 400
+	) {
+		super(message)
+		this.name = 'ChatRequestError'
+	}
+}
+
+export const chatErrorResponse = (
+	code: ChatErrorCode,
+	error: string,
+	status: number,
+	retryAfter?: number
+) =>
+	Response.json({ error, code, retryAfter } satisfies ChatErrorBody, {
+		status,
+		...(retryAfter !== undefined && { headers: { 'Retry-After': String(retryAfter) } }),
+	})
+
+const CHAT_ERROR_MESSAGES: Record<ChatErrorCode, string> = {
+	INVALID_JSON: 'Your message could not be sent because the request was malformed. Please try again.',
+	PAYLOAD_TOO_LARGE: 'This conversation has grown too large to send. Start a new conversation to continue.',
+	INVALID_REQUEST: 'Your message could not be sent because the request was malformed. Please try again.',
+	MISSING_MESSAGES: 'There is no message to send.',
+	TOO_MANY_MESSAGES: 'This conversation has too many messages. Start a new conversation to continue.',
+	INVALID_MESSAGE: 'One of the messages in this conversation is invalid. Try reloading the page.',
+	INVALID_ROLE: 'One of the messages in this conversation is invalid. Try reloading the page.',
+	UNSUPPORTED_PART: 'This conversation contains content the tutor cannot read yet, such as attachments.',
+	MESSAGE_TOO_LONG: 'Your message is too long. Try shortening it.',
+	UNKNOWN_PERSONA: 'The selected tutor is not available. Pick another tutor and try again.',
+	UNKNOWN_QUESTION: 'The question you asked about is no longer in this conversation. Try reloading the page.',
+	INVALID_CONVERSATION_ID: 'This conversation could not be found. Start a new conversation.',
+	UNKNOWN_PROVIDER: 'The selected AI model is not available.',
+	INVALID_MODEL: 'The selected AI model is not available.',
+	PROVIDER_NOT_CONFIGURED: 'The tutor is not configured on this server yet. Please contact the administrator.',
+	PROVIDER_AUTH_FAILED: "The AI provider rejected this server's credentials. Please contact the administrator.",
+	PROVIDER_ERROR: 'The AI provider could not finish the reply. This is usually temporary.',
+	CONTENT_FILTERED: "The AI provider's content filter blocked this exchange.",
+	RATE_LIMITED: 'You are sending messages too quickly. Take a moment to think it over.',
+	QUOTA_EXCEEDED: "You have reached today's usage limit. Come back tomorrow to keep learning.",
+	INTERNAL_ERROR: 'Something went wrong on our side. Please try again.',
+}
+
+// How a failed turn is explained, and what the learner can do about it
+export type ChatFailureKind =
+	| 'network'
+	| 'rate-limited'
+	| 'configuration'
+	| 'provider'
+	| 'content-filtered'
+	| 'request'
+
+export type ChatRecovery = 'retry' | 'edit' | 'wait' | 'none'
+
+export interface ChatFailure {
+	kind: ChatFailureKind
+	// Null when no response arrived, e.g. the connection dropped
+	code: ChatErrorCode | null
+}
+
+export const CHAT_FAILURES: Record<ChatFailureKind, { title: string; advice: string; recovery: ChatRecovery }> = {
+	network: {
+		title: 'Could not reach the tutor',
+		advice: 'Check your connection, then retry.',
+		recovery: 'retry',
+	},
+	'rate-limited': {
+		title: 'Sent too quickly',
+		advice: 'It will be sent again once the wait is over.',
+		recovery: 'wait',
+	},
+	configuration: {
+		title: 'The tutor is not set up',
+		advice: 'Retrying will not help until the administrator fixes the AI provider settings.',
+		recovery: 'none',
+	},
+	provider: {
+		title: 'The AI provider had a problem',
+		advice: 'This is usually temporary. Retry in a moment.',
+		recovery: 'retry',
+	},
+	'content-filtered': {
+		title: 'Blocked by the content filter',
+		advice: 'Rephrase your last message and send it again.',
+		recovery: 'edit',
+	},
+	request: {
+		title: 'The message was not accepted',
+		advice: 'Edit your message and send it again.',
+		recovery: 'edit',
+	},
+}
+
+const CHAT_ERROR_KINDS: Partial<Record<ChatErrorCode, ChatFailureKind>> = {
+	RATE_LIMITED: 'rate-limited',
+	QUOTA_EXCEEDED: 'rate-limited',
+	UNKNOWN_PROVIDER: 'configuration',
+	INVALID_MODEL: 'configuration',
+	PROVIDER_NOT_CONFIGURED: 'configuration',
+	PROVIDER_AUTH_FAILED: 'configuration',
+	PROVIDER_ERROR: 'provider',
+	INTERNAL_ERROR: 'provider',
+	CONTENT_FILTERED: 'content-filtered',
+}
+
+const isChatErrorCode = (code: unknown): code is ChatErrorCode =>
+	typeof code === 'string' && Object.hasOwn(CHAT_ERROR_MESSAGES, code)
+
+// useChat surfaces a failed response as an Error whose message is the raw
+// response body, so the details are recovered by parsing it
+function parseChatErrorBody(error: Error): Partial<ChatErrorBody> | null {
+	try {
+		const body = JSON.parse(error.message)
+		return typeof body === 'object' && body !== null ? body : null
+	} catch {
+		return null
+	}
+}
+
+export function getChatErrorCode(error: Error): ChatErrorCode | null {
+	const code = parseChatErrorBody(error)?.code
+	return isChatErrorCode(code) ? code : null
+}
+
+export function getChatErrorRetryAfter(error: Error): number | null {
+	const retryAfter = parseChatErrorBody(error)?.retryAfter
+	return typeof retryAfter === 'number' && retryAfter > 0 ? retryAfter : null
+}
+
+export function getChatErrorMessage(error: Error): string {
+	const code = getChatErrorCode(error)
+	return code
+		? CHAT_ERROR_MESSAGES[code]
+		: 'The tutor could not respond. Check your connection and try again.'
+}
+
+// Anything else the server answers with is a problem with the request itself
+export function classifyChatError(error: Error): ChatFailure {
+	const code = getChatErrorCode(error)
+	if (!code) return { kind: 'network', code }
+	return { kind: CHAT_ERROR_KINDS[code] ?? 'request', code }
+}
+
+// Providers report filtered prompts as bad requests; this is how they say so
+const CONTENT_FILTER_PATTERN = /content[_ ]?(filter|policy|management)|safety/i
+
+// Errors from the model surface inside the stream, after the response has
+// started, so they are sent as the text of an error part in the same shape
+export function toChatErrorBody(error: unknown): ChatErrorBody {
+	if (APICallError.isInstance(error)) {
+		if (error.statusCode === 401 || error.statusCode === 403) {
+			return { error: 'Provider rejected the credentials', code: 'PROVIDER_AUTH_FAILED' }
+		}
+		if (CONTENT_FILTER_PATTERN.test(error.responseBody ?? '')) {
+			return { error: 'Blocked by the provider content filter', code: 'CONTENT_FILTERED' }
+		}
+		return { error: 'Provider request failed', code: 'PROVIDER_ERROR' }
+	}
+	return { error: 'Failed to generate a reply', code: 'INTERNAL_ERROR' }
+}
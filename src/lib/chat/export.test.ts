@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+	createConversationExport,
+	EXPORT_SCHEMA,
+	getExportFilename,
+	serializeConversation,
+	toHTML,
+	toMarkdown,
+} from './export'
+import type { ChatUIMessage } from './messages'
+
+const messages: ChatUIMessage[] = [
+	{
+		id: 'u1',
+		role: 'user',
+		parts: [{ type: 'text', text: 'Is <b>2</b> prime?' }],
+		metadata: { createdAt: '2025-09-18T10:00:00.000Z', objective: 'Understand primes' },
+	},
+	{
+		id: 'a1',
+		role: 'assistant',
+		parts: [{ type: 'text', text: 'What are its divisors?' }],
+		metadata: { createdAt: '2025-09-18T10:01:00.000Z', hint: { questionId: 'q0', level: 2 } },
+	},
+	{ id: 'a2', role: 'assistant', parts: [{ type: 'text', text: 'It is prime.' }], metadata: { reveal: { questionId: 'a1' } } },
+]
+
+const exported = createConversationExport(
+	{ id: 'conv-1', title: 'Prime numbers', personaId: 'strict-examiner', messages },
+	new Date('2025-09-19T08:30:00.000Z')
+)
+
+describe('conversation export', () => {
+	it('builds a versioned document with roles, timestamps, persona and metadata', () => {
+		expect(exported).toEqual({
+			schema: EXPORT_SCHEMA,
+			version: 1,
+			exportedAt: '2025-09-19T08:30:00.000Z',
+			conversation: {
+				id: 'conv-1',
+				title: 'Prime numbers',
+				persona: { id: 'strict-examiner', name: 'Strict examiner' },
+			},
+			messages: [
+				{
+					id: 'u1',
+					role: 'user',
+					text: 'Is <b>2</b> prime?',
+					createdAt: '2025-09-18T10:00:00.000Z',
+					metadata: { objective: 'Understand primes' },
+				},
+				{
+					id: 'a1',
+					role: 'assistant',
+					text: 'What are its divisors?',
+					createdAt: '2025-09-18T10:01:00.000Z',
+					metadata: { hint: { questionId: 'q0', level: 2 } },
+				},
+				{ id: 'a2', role: 'assistant', text: 'It is prime.', metadata: { reveal: { questionId: 'a1' } } },
+			],
+		})
+	})
+
+	it('renders Markdown with a heading per turn', () => {
+		expect(toMarkdown(exported)).toBe(
+			[
+				'# Prime numbers',
+				'',
+				'Tutor: Strict examiner · Exported 2025-09-19 08:30 UTC',
+				'',
+				'## Learner · 2025-09-18 10:00',
+				'',
+				'Is <b>2</b> prime?',
+				'',
+				'## Tutor · Hint 2 of 3 · Pointed question · 2025-09-18 10:01',
+				'',
+				'What are its divisors?',
+				'',
+				'## Tutor · Answer revealed on request',
+				'',
+				'It is prime.',
+				'',
+			].join('\n')
+		)
+	})
+
+	it('renders a standalone HTML page with the text escaped', () => {
+		const html = toHTML(exported)
+
+		expect(html).toMatch(/^<!DOCTYPE html>/)
+		expect(html).toContain('<title>Prime numbers</title>')
+		expect(html).toContain('Is &lt;b&gt;2&lt;/b&gt; prime?')
+		expect(html).toContain('@media print')
+		expect(html).not.toMatch(/<script|<link|src=/)
+	})
+
+	it('adds the session reflection after the closing reply', () => {
+		const closing: ChatUIMessage = {
+			id: 'a3',
+			role: 'assistant',
+			parts: [{ type: 'text', text: 'Well done today.' }],
+			metadata: {
+				reflection: { insights: ['2 is <the> only even prime'], openQuestions: [], nextTopics: ['Factorization'] },
+			},
+		}
+		const data = createConversationExport({ title: 'Primes', messages: [closing] })
+
+		expect(toMarkdown(data)).toContain(
+			[
+				'Well done today.',
+				'',
+				'### Session reflection',
+				'',
+				'**Key insights**',
+				'',
+				'- 2 is <the> only even prime',
+				'',
+				'**Suggested next topics**',
+				'',
+				'- Factorization',
+			].join('\n')
+		)
+		expect(toMarkdown(data)).not.toContain('Open questions')
+		const html = toHTML(data)
+		expect(html).toContain('<h2>Session reflection</h2>')
+		expect(html).toContain('<li>2 is &lt;the&gt; only even prime</li>')
+	})
+
+	it('round-trips the JSON format', () => {
+		expect(JSON.parse(serializeConversation(exported, 'json'))).toEqual(exported)
+	})
+
+	it('names files after the title', () => {
+		expect(getExportFilename('What is justice?', 'markdown')).toBe('what-is-justice.md')
+		expect(getExportFilename('¿?', 'html')).toBe('conversation.html')
+	})
+})
@@ -0,0 +1,210 @@
+import { type ChatMessageMetadata, type ChatUIMessage, getMessageText } from './messages'
+import { HINT_LEVEL_LABELS, MAX_HINT_LEVEL } from './hints'
+import { REFLECTION_SECTIONS } from './reflection'
+import { getPersona, type PersonaId } from '@/lib/personas'
+
+export type ExportFormat = 'markdown' | 'json' | 'html'
+
+// Identifies our JSON exports; bump the version when the shape changes
+export const EXPORT_SCHEMA = 'socratic-tutor.conversation'
+export const EXPORT_SCHEMA_VERSION = 1
+
+export interface ExportedMessage {
+	id: string
+	role: 'user' | 'assistant'
+	text: string
+	createdAt?: string
+	metadata?: ChatMessageMetadata
+}
+
+// The versioned JSON document; Markdown and HTML are rendered from it too
+export interface ConversationExport {
+	schema: typeof EXPORT_SCHEMA
+	version: typeof EXPORT_SCHEMA_VERSION
+	exportedAt: string
+	conversation: {
+		id?: string
+		title: string
+		persona: { id: PersonaId; name: string }
+	}
+	messages: ExportedMessage[]
+}
+
+export interface ConversationExportInput {
+	id?: string
+	title: string
+	personaId?: PersonaId
+	messages: ChatUIMessage[]
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+	markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+	json: { label: 'JSON', extension: 'json', mimeType: 'application/json;charset=utf-8' },
+	html: { label: 'Printable HTML', extension: 'html', mimeType: 'text/html;charset=utf-8' },
+}
+
+export function createConversationExport(
+	{ id, title, personaId, messages }: ConversationExportInput,
+	now = new Date()
+): ConversationExport {
+	const persona = getPersona(personaId)
+
+	return {
+		schema: EXPORT_SCHEMA,
+		version: EXPORT_SCHEMA_VERSION,
+		exportedAt: now.toISOString(),
+		conversation: { ...(id && { id }), title, persona: { id: persona.id, name: persona.name } },
+		messages: messages
+			.filter((message) => message.role !== 'system')
+			.map(({ id, role, metadata, parts }) => {
+				const { createdAt, ...rest } = metadata ?? {}
+				return {
+					id,
+					role: role as ExportedMessage['role'],
+					text: getMessageText({ parts }),
+					...(createdAt && { createdAt }),
+					...(Object.keys(rest).length > 0 && { metadata: rest }),
+				}
+			}),
+	}
+}
+
+const speakerOf = (message: ExportedMessage) => (message.role === 'user' ? 'Learner' : 'Tutor')
+
+// What the transcript should say about a message besides its text
+function describeMessage({ metadata }: ExportedMessage): string | null {
+	if (metadata?.hint) {
+		return `Hint ${metadata.hint.level} of ${MAX_HINT_LEVEL} · ${HINT_LEVEL_LABELS[metadata.hint.level]}`
+	}
+	if (metadata?.reveal) return 'Answer revealed on request'
+	return null
+}
+
+// "2025-09-18 10:00", in UTC so every reader sees the same times
+function formatTime(iso?: string): string {
+	const date = iso ? new Date(iso) : null
+	return date && !isNaN(date.getTime()) ? date.toISOString().replace('T', ' ').slice(0, 16) : ''
+}
+
+// The reflection's non-empty sections, for the transcripts to lay out
+const reflectionSections = ({ metadata }: ExportedMessage) => {
+	const reflection = metadata?.reflection
+	if (!reflection) return []
+
+	return REFLECTION_SECTIONS.map(({ key, title }) => ({ title, items: reflection[key] })).filter(
+		({ items }) => items.length > 0
+	)
+}
+
+export function toMarkdown(data: ConversationExport): string {
+	const lines = [
+		`# ${data.conversation.title}`,
+		'',
+		`Tutor: ${data.conversation.persona.name} · Exported ${formatTime(data.exportedAt)} UTC`,
+	]
+
+	for (const message of data.messages) {
+		const heading = [speakerOf(message), describeMessage(message), formatTime(message.createdAt)]
+			.filter(Boolean)
+			.join(' · ')
+		lines.push('', `## ${heading}`, '', message.text)
+
+		if (message.metadata?.reflection) {
+			lines.push('', '### Session reflection')
+			for (const { title, items } of reflectionSections(message)) {
+				lines.push('', `**${title}**`, '', ...items.map((item) => `- ${item}`))
+			}
+		}
+	}
+	return `${lines.join('\n')}\n`
+}
+
+export const toJSON = (data: ConversationExport) => `${JSON.stringify(data, null, 2)}\n`
+
+const escapeHtml = (text: string) =>
+	text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;')
+
+const PRINT_STYLES = `
+body { font: 15px/1.6 system-ui, sans-serif; color: #111; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; }
+header { border-bottom: 1px solid #ccc; margin-bottom: 1.5rem; }
+h1 { font-size: 1.5rem; margin: 0 0 .25rem; }
+.meta { color: #555; font-size: .85rem; margin: 0 0 1rem; }
+article { margin: 0 0 1rem; padding: .75rem 1rem; border-radius: .5rem; border: 1px solid #ddd; break-inside: avoid; }
+article.user { background: #f3f4f6; }
+article .who { font-weight: 600; font-size: .85rem; margin: 0 0 .25rem; }
+article .who span { font-weight: 400; color: #555; }
+article .text { white-space: pre-wrap; word-wrap: break-word; margin: 0; }
+.reflection { margin: 0 0 1rem; padding: .75rem 1rem; border: 2px solid #34d399; border-radius: .5rem; break-inside: avoid; }
+.reflection h2 { font-size: 1rem; margin: 0 0 .5rem; }
+.reflection h3 { font-size: .9rem; margin: .5rem 0 .25rem; }
+.reflection ul { margin: 0; padding-left: 1.25rem; }
+@media print { body { margin: 0; max-width: none; } article { border-color: #999; } }
+`
+
+function reflectionToHTML(message: ExportedMessage): string {
+	const sections = reflectionSections(message).map(
+		({ title, items }) => `<h3>${title}</h3>
+<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+	)
+	return `<section class="reflection">
+<h2>Session reflection</h2>
+${sections.join('\n')}
+</section>`
+}
+
+// A standalone page: inline styles, no scripts, nothing fetched
+export function toHTML(data: ConversationExport): string {
+	const articles = data.messages
+		.map((message) => {
+			const details = [describeMessage(message), formatTime(message.createdAt)].filter(Boolean).join(' · ')
+			return `<article class="${message.role}">
+<p class="who">${speakerOf(message)}${details ? ` <span>${escapeHtml(details)}</span>` : ''}</p>
+<p class="text">${escapeHtml(message.text)}</p>
+</article>${message.metadata?.reflection ? `\n${reflectionToHTML(message)}` : ''}`
+		})
+		.join('\n')
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(data.conversation.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(data.conversation.title)}</h1>
+<p class="meta">Tutor: ${escapeHtml(data.conversation.persona.name)} · Exported ${formatTime(data.exportedAt)} UTC</p>
+</header>
+<main>
+${articles}
+</main>
+</body>
+</html>
+`
+}
+
+export function serializeConversation(data: ConversationExport, format: ExportFormat): string {
+	switch (format) {
+		case 'markdown':
+			return toMarkdown(data)
+		case 'json':
+			return toJSON(data)
+		case 'html':
+			return toHTML(data)
+	}
+}
+
+export function getExportFilename(title: string, format: ExportFormat): string {
+	const slug = title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '')
+		.slice(0, 60)
+	return `${slug || 'conversation'}.${EXPORT_FORMATS[format].extension}`
+}
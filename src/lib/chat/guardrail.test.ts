@@ -0,0 +1,219 @@
+/**
+ * @jest-environment node
+ */
+
+import { type TextStreamPart, type ToolSet, streamText } from 'ai'
+
+import { createMockModel } from '@/lib/ai/mock-model'
+
+import {
+	classifyByRule,
+	createGuardrailTransform,
+	cutAtAnswer,
+	enforceSocraticReply,
+	getGuardrailFromEnv,
+	type GuardedReply,
+	redactAnswer,
+} from './guardrail'
+
+type Part = TextStreamPart<ToolSet>
+
+const learnerMessage = 'What is 12 × 7?'
+const leakyReply = 'Multiply 12 by 7. The answer is 84.'
+
+const replyParts = (...deltas: string[]): Part[] => [
+	{ type: 'start' },
+	{ type: 'start-step', request: {}, warnings: [] },
+	{ type: 'text-start', id: 't1' },
+	...deltas.map((text): Part => ({ type: 'text-delta', id: 't1', text })),
+	{ type: 'text-end', id: 't1' },
+	{ type: 'finish-step', response: {}, usage: {}, finishReason: 'stop' } as Part,
+	{ type: 'finish', finishReason: 'stop', totalUsage: {} } as Part,
+]
+
+async function runTransform(parts: Part[], guard: (reply: string) => Promise<GuardedReply>) {
+	const onVerdict = jest.fn()
+	const transform = createGuardrailTransform(guard, onVerdict)({ tools: {}, stopStream: jest.fn() })
+	const source = new ReadableStream<Part>({
+		start(controller) {
+			parts.forEach((part) => controller.enqueue(part))
+			controller.close()
+		},
+	})
+
+	const output: Part[] = []
+	const reader = source.pipeThrough(transform).getReader()
+	for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+		output.push(chunk.value)
+	}
+	return { output, onVerdict }
+}
+
+const textOf = (parts: Part[]) =>
+	parts.map((part) => (part.type === 'text-delta' ? part.text : '')).join('')
+
+describe('reply classification', () => {
+	it('recognises a guiding question', async () => {
+		expect(await classifyByRule({ reply: 'What happens if you add 12 seven times?', learnerMessage })).toEqual({
+			asksQuestion: true,
+			revealsAnswer: false,
+		})
+	})
+
+	it('flags stated answers and ignores questions inside code', async () => {
+		expect(await classifyByRule({ reply: leakyReply, learnerMessage })).toEqual({
+			asksQuestion: false,
+			revealsAnswer: true,
+		})
+		expect(
+			await classifyByRule({ reply: 'Try this:\n```js\nconst x = a ? b : c\n```', learnerMessage })
+		).toMatchObject({ asksQuestion: false })
+		expect(await classifyByRule({ reply: 'So 12 × 7 = 84. Does that make sense?', learnerMessage })).toMatchObject({
+			revealsAnswer: true,
+		})
+	})
+
+	it('cuts a partial reply before the first answer sentence', () => {
+		expect(cutAtAnswer('Multiply 12 by 7. The answer is 84. Check it?')).toBe('Multiply 12 by 7.')
+		expect(cutAtAnswer('The answer is')).toBe('')
+		expect(cutAtAnswer('What do you notice about')).toBe('What do you notice about')
+	})
+
+	it('redacts answer sentences and leaves a question', () => {
+		expect(redactAnswer(leakyReply)).toBe('Multiply 12 by 7. What do you think the next step would be?')
+	})
+})
+
+describe('enforceSocraticReply', () => {
+	const classify = classifyByRule
+
+	it('allows replies that follow the policy', async () => {
+		const rewrite = jest.fn()
+		const result = await enforceSocraticReply('What do you get?', { classify, rewrite, learnerMessage })
+
+		expect(result).toEqual({
+			text: 'What do you get?',
+			verdict: { asksQuestion: true, revealsAnswer: false, action: 'allowed' },
+		})
+		expect(rewrite).not.toHaveBeenCalled()
+	})
+
+	it('rewrites replies that give the answer away', async () => {
+		const rewrite = jest.fn().mockResolvedValue('What is 12 × 7 as repeated addition?')
+		const result = await enforceSocraticReply(leakyReply, { classify, rewrite, learnerMessage })
+
+		expect(rewrite).toHaveBeenCalledWith({ reply: leakyReply, learnerMessage })
+		expect(result).toEqual({
+			text: 'What is 12 × 7 as repeated addition?',
+			verdict: { asksQuestion: false, revealsAnswer: true, action: 'rewritten' },
+		})
+	})
+
+	it('redacts when the rewrite fails or still leaks', async () => {
+		const leaky = jest.fn().mockResolvedValue('The answer is 84, right?')
+		const failing = jest.fn().mockRejectedValue(new Error('Provider down'))
+
+		for (const rewrite of [leaky, failing]) {
+			const result = await enforceSocraticReply(leakyReply, { classify, rewrite, learnerMessage })
+			expect(result.text).toBe('Multiply 12 by 7. What do you think the next step would be?')
+			expect(result.verdict.action).toBe('redacted')
+		}
+	})
+})
+
+describe('guardrail transform', () => {
+	it('streams the checked text in place of the draft', async () => {
+		const verdict = { asksQuestion: false, revealsAnswer: true, action: 'rewritten' } as const
+		const guard = jest.fn().mockResolvedValue({ text: 'What do you get?', verdict })
+
+		const { output, onVerdict } = await runTransform(replyParts('The answer ', 'is 84.'), guard)
+
+		expect(guard).toHaveBeenCalledWith('The answer is 84.')
+		expect(textOf(output)).toBe('What do you get?')
+		expect(output.map((part) => part.type)).toEqual([
+			'start',
+			'start-step',
+			'text-start',
+			'text-delta',
+			'text-end',
+			'finish-step',
+			'finish',
+		])
+		expect(onVerdict).toHaveBeenCalledWith(verdict)
+	})
+
+	it('passes allowed replies through untouched', async () => {
+		const parts = replyParts('What ', 'do you get?')
+		const guard = jest.fn(async (reply: string) => ({
+			text: reply,
+			verdict: { asksQuestion: true, revealsAnswer: false, action: 'allowed' as const },
+		}))
+
+		const { output } = await runTransform(parts, guard)
+
+		expect(output).toEqual(parts)
+	})
+
+	it('does not check replies that failed mid-stream', async () => {
+		const parts = replyParts('The answer')
+		parts.splice(4, 0, { type: 'error', error: new Error('Provider down') })
+		const guard = jest.fn()
+
+		const { output, onVerdict } = await runTransform(parts, guard)
+
+		expect(guard).not.toHaveBeenCalled()
+		expect(onVerdict).not.toHaveBeenCalled()
+		expect(output).toEqual(parts)
+	})
+
+	it('lets streamText finish the checked reply', async () => {
+		const guard = jest.fn(async () => ({
+			text: 'What do you get?',
+			verdict: { asksQuestion: false, revealsAnswer: true, action: 'rewritten' as const },
+		}))
+		const result = streamText({
+			model: createMockModel({ script: ['The answer is 84.'], tokenDelayMs: 0 }),
+			prompt: learnerMessage,
+			experimental_transform: createGuardrailTransform(guard, jest.fn()),
+		})
+
+		expect(await result.text).toBe('What do you get?')
+		expect(guard).toHaveBeenCalledWith('The answer is 84.')
+	})
+
+	it('cuts a stopped reply before the answer without calling the model', async () => {
+		const model = createMockModel({ script: ['What do you get when you multiply?'], tokenDelayMs: 0 })
+		const doGenerate = jest.spyOn(model, 'doGenerate')
+		const guardrail = getGuardrailFromEnv(model)!
+		const guard = jest.fn((reply: string) => enforceSocraticReply(reply, { ...guardrail, learnerMessage }))
+		const parts: Part[] = [...replyParts('Multiply 12 by 7. ', 'The answer is 84').slice(0, 5), { type: 'abort' }]
+
+		const { output, onVerdict } = await runTransform(parts, guard)
+
+		expect(guard).not.toHaveBeenCalled()
+		expect(doGenerate).not.toHaveBeenCalled()
+		expect(onVerdict).not.toHaveBeenCalled()
+		expect(textOf(output)).toBe('Multiply 12 by 7.')
+		expect(output.map((part) => part.type)).toEqual(['start', 'start-step', 'text-start', 'text-delta', 'abort'])
+	})
+
+	it('keeps a stopped reply that gives nothing away as it was', async () => {
+		const parts: Part[] = [...replyParts('What do you ', 'notice about').slice(0, 5), { type: 'abort' }]
+		const guard = jest.fn()
+
+		const { output } = await runTransform(parts, guard)
+
+		expect(guard).not.toHaveBeenCalled()
+		expect(output).toEqual(parts)
+	})
+
+	it('drops a stopped reply that has no text yet', async () => {
+		const parts: Part[] = [...replyParts().slice(0, 3), { type: 'abort' }]
+		const guard = jest.fn()
+
+		const { output } = await runTransform(parts, guard)
+
+		expect(guard).not.toHaveBeenCalled()
+		expect(output.map((part) => part.type)).toEqual(['start', 'start-step', 'abort'])
+	})
+})
@@ -0,0 +1,240 @@
+import {
+	generateText,
+	type LanguageModel,
+	type StreamTextTransform,
+	type TextStreamPart,
+	type ToolSet,
+} from 'ai'
+
+export interface ReplyClassification {
+	asksQuestion: boolean
+	// States the final answer or works the problem out for the learner
+	revealsAnswer: boolean
+}
+
+// Attached to every checked reply so we can audit how often the check fires
+export interface GuardrailVerdict extends ReplyClassification {
+	// What was done about the draft: sent as is, rewritten by the model, or
+	// stripped of answer sentences when the rewrite didn't pass either
+	action: 'allowed' | 'rewritten' | 'redacted'
+}
+
+export interface GuardedReply {
+	text: string
+	verdict: GuardrailVerdict
+}
+
+export interface ReplyCheckInput {
+	reply: string
+	learnerMessage: string
+}
+
+export type ReplyClassifier = (input: ReplyCheckInput) => Promise<ReplyClassification>
+export type ReplyRewriter = (input: ReplyCheckInput) => Promise<string>
+
+export interface ReplyGuardrail {
+	classify: ReplyClassifier
+	rewrite: ReplyRewriter
+}
+
+// Phrasings that hand over a result rather than lead to it
+const ANSWER_PATTERNS = [
+	/\b(?:the|your|final|correct) (?:answer|solution|result) (?:is|would be|=)/i,
+	/\b(?:final )?(?:answer|solution)\s*:/i,
+	/\\boxed\{/,
+	/\bhere(?:'s| is) (?:the|a) (?:full |complete |working )?(?:solution|answer|code)\b/i,
+	/^\s*(?:therefore|thus|hence|so)\b[^?\n]*(?:=|\bequals\b)/im,
+]
+
+const FALLBACK_QUESTION = 'What do you think the next step would be?'
+
+// Questions inside code or math don't count as asking the learner anything
+const stripCode = (text: string) =>
+	text.replace(/```[\s\S]*?(?:```|$)/g, '').replace(/`[^`\n]*`/g, '').replace(/\$\$[\s\S]*?\$\$/g, '')
+
+const splitSentences = (text: string) =>
+	text
+		.replace(/([.!?])\s+/g, '$1\n')
+		.split('\n')
+		.map((sentence) => sentence.trim())
+		.filter(Boolean)
+
+const revealsAnswer = (text: string) => ANSWER_PATTERNS.some((pattern) => pattern.test(text))
+
+export const violatesPolicy = ({ asksQuestion, revealsAnswer }: ReplyClassification) =>
+	revealsAnswer || !asksQuestion
+
+export const classifyByRule: ReplyClassifier = async ({ reply }) => ({
+	asksQuestion: stripCode(reply).includes('?'),
+	revealsAnswer: revealsAnswer(reply),
+})
+
+const CLASSIFIER_PROMPT = `You audit replies from a Socratic tutor, who must guide learners with questions and never hand them the final answer. Given the learner's message and the tutor's reply, respond with JSON only: {"asksQuestion": boolean, "revealsAnswer": boolean}. "revealsAnswer" is true when the reply states the final answer or solves the problem for the learner.`
+
+// Falls back to the rules when the model's verdict can't be read
+export const createModelClassifier =
+	(model: LanguageModel): ReplyClassifier =>
+	async (input) => {
+		try {
+			const { text } = await generateText({
+				model,
+				system: CLASSIFIER_PROMPT,
+				prompt: `Learner: ${input.learnerMessage}\n\nTutor: ${input.reply}`,
+			})
+			const verdict = JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] ?? '')
+			if (typeof verdict.asksQuestion === 'boolean' && typeof verdict.revealsAnswer === 'boolean') {
+				return { asksQuestion: verdict.asksQuestion, revealsAnswer: verdict.revealsAnswer }
+			}
+		} catch {
+			// Unreadable verdict or failed call
+		}
+		return classifyByRule(input)
+	}
+
+const REWRITE_PROMPT = `You edit replies from a Socratic tutor. Rewrite the draft so it no longer states the final answer or solves the problem. Keep whatever guidance helps the learner think, and end with exactly one question that lets them take the next step themselves. Reply with the rewritten message only.`
+
+export const createModelRewriter =
+	(model: LanguageModel): ReplyRewriter =>
+	async ({ reply, learnerMessage }) => {
+		const { text } = await generateText({
+			model,
+			system: REWRITE_PROMPT,
+			prompt: `Learner: ${learnerMessage}\n\nDraft reply:\n${reply}`,
+		})
+		return text.trim()
+	}
+
+// Last resort: drop the sentences that give the answer away and make sure
+// the learner is left with a question
+export function redactAnswer(reply: string): string {
+	const kept = splitSentences(reply).filter((sentence) => !revealsAnswer(sentence))
+	if (!kept.some((sentence) => sentence.endsWith('?'))) kept.push(FALLBACK_QUESTION)
+	return kept.join(' ')
+}
+
+// A stopped reply only loses what gives the answer away: it is cut before the
+// first such sentence, and the learner can continue it from there
+export function cutAtAnswer(reply: string): string {
+	const sentences = reply.match(/[^.!?]*(?:[.!?]+\s*|$)/g) ?? []
+	const end = sentences.findIndex((sentence) => revealsAnswer(sentence))
+	return end === -1 ? reply : sentences.slice(0, end).join('').trimEnd()
+}
+
+export async function enforceSocraticReply(
+	reply: string,
+	{ classify, rewrite, learnerMessage }: ReplyGuardrail & { learnerMessage: string }
+): Promise<GuardedReply> {
+	const classification = await classify({ reply, learnerMessage })
+	if (!violatesPolicy(classification)) {
+		return { text: reply, verdict: { ...classification, action: 'allowed' } }
+	}
+
+	try {
+		const rewritten = await rewrite({ reply, learnerMessage })
+		if (rewritten && !violatesPolicy(await classify({ reply: rewritten, learnerMessage }))) {
+			return { text: rewritten, verdict: { ...classification, action: 'rewritten' } }
+		}
+	} catch {
+		// Redacting below still keeps the answer from the learner
+	}
+
+	return { text: redactAnswer(reply), verdict: { ...classification, action: 'redacted' } }
+}
+
+// Swaps the text of a buffered reply for `text`, keeping every other part
+function replaceReplyText<TOOLS extends ToolSet>(
+	parts: TextStreamPart<TOOLS>[],
+	text: string
+): TextStreamPart<TOOLS>[] {
+	const result: TextStreamPart<TOOLS>[] = []
+	let isWritten = false
+
+	for (const part of parts) {
+		if (part.type === 'text-delta') continue
+		// A draft without any text still gets the replacement
+		if (!isWritten && part.type === 'finish-step') {
+			result.push(
+				{ type: 'text-start', id: 'guardrail' },
+				{ type: 'text-delta', id: 'guardrail', text },
+				{ type: 'text-end', id: 'guardrail' }
+			)
+			isWritten = true
+		}
+		result.push(part)
+		if (!isWritten && part.type === 'text-start') {
+			result.push({ type: 'text-delta', id: part.id, text })
+			isWritten = true
+		}
+	}
+	return result
+}
+
+const TEXT_PART_TYPES = new Set(['text-start', 'text-delta', 'text-end'])
+
+// Holds the reply back until it is complete, then streams the checked
+// version. Failed replies pass through unchecked. A stopped reply makes no
+// more model calls: it is only cut before any answer it gives away.
+export const createGuardrailTransform =
+	(
+		guard: (reply: string) => Promise<GuardedReply>,
+		onVerdict: (verdict: GuardrailVerdict) => void
+	): StreamTextTransform<ToolSet> =>
+	() => {
+		const buffered: TextStreamPart<ToolSet>[] = []
+		let isChecked = false
+
+		const release = (controller: TransformStreamDefaultController<TextStreamPart<ToolSet>>) => {
+			buffered.splice(0).forEach((part) => controller.enqueue(part))
+		}
+
+		return new TransformStream<TextStreamPart<ToolSet>, TextStreamPart<ToolSet>>({
+			async transform(part, controller) {
+				if (isChecked) return controller.enqueue(part)
+				buffered.push(part)
+
+				// streamText only finishes once the end of the step has gone through,
+				// so the reply is checked there rather than at the very end
+				if (part.type !== 'finish-step' && part.type !== 'abort') return
+				isChecked = true
+
+				if (buffered.some((item) => item.type === 'error')) {
+					return release(controller)
+				}
+
+				const reply = buffered
+					.map((item) => (item.type === 'text-delta' ? item.text : ''))
+					.join('')
+				if (part.type === 'abort') {
+					const text = cutAtAnswer(reply)
+					// Nothing left to keep, e.g. stopped before it said anything
+					if (!text.trim()) {
+						buffered.splice(0, buffered.length, ...buffered.filter((item) => !TEXT_PART_TYPES.has(item.type)))
+					} else if (text !== reply) {
+						buffered.splice(0, buffered.length, ...replaceReplyText(buffered, text))
+					}
+					return release(controller)
+				}
+
+				const { text, verdict } = await guard(reply)
+				onVerdict(verdict)
+
+				if (text !== reply) buffered.splice(0, buffered.length, ...replaceReplyText(buffered, text))
+				release(controller)
+			},
+			flush(controller) {
+				release(controller)
+			},
+		})
+	}
+
+// ANSWER_GUARDRAIL: `rules` (default) classifies replies with patterns,
+// `model` asks the chat model, `off` streams replies unchecked
+export function getGuardrailFromEnv(model: LanguageModel): ReplyGuardrail | null {
+	const mode = process.env.ANSWER_GUARDRAIL
+	if (mode === 'off') return null
+
+	return {
+		classify: mode === 'model' ? createModelClassifier(model) : classifyByRule,
+		rewrite: createModelRewriter(model),
+	}
+}
@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+
+import { countHints, findHintRequest, formatHintInstruction, HINT_REQUEST_TEXT } from './hints'
+import type { ChatUIMessage } from './messages'
+
+const question: ChatUIMessage = {
+	id: 'q1',
+	role: 'assistant',
+	parts: [{ type: 'text', text: 'What is the derivative of x²?' }],
+}
+
+const hintRequest = (id: string, hintFor: string): ChatUIMessage => ({
+	id,
+	role: 'user',
+	parts: [{ type: 'text', text: HINT_REQUEST_TEXT }],
+	metadata: { hintFor },
+})
+
+const hintReply = (id: string, level: 1 | 2 | 3): ChatUIMessage => ({
+	id,
+	role: 'assistant',
+	parts: [{ type: 'text', text: 'Think about the power rule?' }],
+	metadata: { hint: { questionId: 'q1', level } },
+})
+
+describe('hint ladder', () => {
+	it('starts with a nudge on a fresh question', () => {
+		expect(findHintRequest([question, hintRequest('u1', 'q1')])).toEqual({ question, level: 1 })
+	})
+
+	it('escalates with every hint already given, even when asked from a hint', () => {
+		const messages = [question, hintRequest('u1', 'q1'), hintReply('h1', 1), hintRequest('u2', 'h1')]
+
+		expect(findHintRequest(messages)).toEqual({ question, level: 2 })
+	})
+
+	it('counts hints saved on other branches once each', () => {
+		const saved = [hintReply('h1', 1), hintReply('h2', 2)]
+		const messages = [question, hintRequest('u1', 'q1'), hintReply('h1', 1), hintRequest('u2', 'q1')]
+
+		expect(countHints([...saved, ...messages], 'q1')).toBe(2)
+		expect(findHintRequest(messages, saved)?.level).toBe(3)
+	})
+
+	it('stays on the strongest hint once the ladder runs out', () => {
+		const saved = [hintReply('h1', 1), hintReply('h2', 2), hintReply('h3', 3)]
+
+		expect(findHintRequest([question, hintRequest('u1', 'q1')], saved)?.level).toBe(3)
+	})
+
+	it('ignores ordinary learner messages', () => {
+		expect(findHintRequest([question, { ...hintRequest('u1', 'q1'), metadata: {} }])).toBeNull()
+	})
+
+	it('tells the tutor which question and how strong a hint to give', () => {
+		const prompt = formatHintInstruction({ question, level: 3 })
+
+		expect(prompt).toContain('(3 of 3) on your question: "What is the derivative of x²?"')
+		expect(prompt).toContain('Work through one intermediate step')
+	})
+})
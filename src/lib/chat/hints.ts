@@ -0,0 +1,88 @@
+import { type ChatUIMessage, getMessageText } from './messages'
+
+// Each hint on the same question is one rung stronger than the last
+export type HintLevel = 1 | 2 | 3
+
+export const MAX_HINT_LEVEL: HintLevel = 3
+
+export const HINT_LEVEL_LABELS: Record<HintLevel, string> = {
+	1: 'Nudge',
+	2: 'Pointed question',
+	3: 'Worked partial step',
+}
+
+// Sent as the learner's turn, so the transcript shows where hints were asked for
+export const HINT_REQUEST_TEXT = 'Could I have a hint?'
+
+// Attached to hint replies
+export interface HintMetadata {
+	// The tutor message whose question the hint is for
+	questionId: string
+	level: HintLevel
+}
+
+export interface HintRequest {
+	question: ChatUIMessage
+	level: HintLevel
+}
+
+const HINT_INSTRUCTIONS: Record<HintLevel, string> = {
+	1: 'Give a gentle nudge: point to the idea or fact worth looking at again, without saying how it applies.',
+	2: 'Ask one pointed question that narrows the problem to the very next step the learner needs to take.',
+	3: 'Work through one intermediate step yourself, showing the reasoning, then hand the remaining steps back to the learner with a question. Do not reach the final answer.',
+}
+
+export const isHintLevel = (value: unknown): value is HintLevel =>
+	value === 1 || value === 2 || value === 3
+
+export const isHintMetadata = (value: unknown): value is HintMetadata =>
+	typeof value === 'object' &&
+	value !== null &&
+	typeof (value as HintMetadata).questionId === 'string' &&
+	isHintLevel((value as HintMetadata).level)
+
+// Hints on a hint stay on the question the first hint was for
+const getQuestionId = (message: ChatUIMessage) =>
+	message.metadata?.hint?.questionId ?? message.id
+
+// Hint replies already given for a question. Messages are counted once per
+// id, so the request and the saved conversation can be passed together.
+export function countHints(messages: ChatUIMessage[], questionId: string): number {
+	const hintIds = new Set(
+		messages
+			.filter((message) => message.role === 'assistant' && message.metadata?.hint?.questionId === questionId)
+			.map((message) => message.id)
+	)
+	return hintIds.size
+}
+
+export const nextHintLevel = (given: number): HintLevel =>
+	Math.min(Math.max(given + 1, 1), MAX_HINT_LEVEL) as HintLevel
+
+// The hint being asked for with the latest learner message, if any.
+// `history` holds every message the server has saved for the conversation,
+// so switching branches can't reset the ladder.
+export function findHintRequest(
+	messages: ChatUIMessage[],
+	history: ChatUIMessage[] = []
+): HintRequest | null {
+	const last = messages[messages.length - 1]
+	const hintFor = last?.role === 'user' ? last.metadata?.hintFor : undefined
+	if (!hintFor) return null
+
+	const target = messages.find((message) => message.id === hintFor && message.role === 'assistant')
+	if (!target) return null
+
+	const questionId = getQuestionId(target)
+	const question = messages.find((message) => message.id === questionId) ?? target
+	return { question, level: nextHintLevel(countHints([...history, ...messages], questionId)) }
+}
+
+// Appended to the system prompt for the reply that gives the hint
+export function formatHintInstruction({ question, level }: HintRequest): string {
+	return [
+		`The learner asked for a hint (${level} of ${MAX_HINT_LEVEL}) on your question: "${getMessageText(question)}"`,
+		HINT_INSTRUCTIONS[level],
+		'Keep it short and end with a question.',
+	].join('\n')
+}
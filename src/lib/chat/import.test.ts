@@ -0,0 +1,62 @@
+/**
+ * @jest-environment node
+ */
+
+import { createConversationExport, toJSON } from './export'
+import { ConversationImportError, parseConversationImport } from './import'
+import type { ChatUIMessage } from './messages'
+
+const messages: ChatUIMessage[] = [
+	{
+		id: 'u1',
+		role: 'user',
+		parts: [{ type: 'text', text: 'What is justice?' }],
+		metadata: { createdAt: '2025-09-18T10:00:00.000Z', objective: 'Define justice' },
+	},
+	{
+		id: 'a1',
+		role: 'assistant',
+		parts: [{ type: 'text', text: 'What do you think it is?' }],
+		metadata: { hint: { questionId: 'q0', level: 1 } },
+	},
+]
+
+describe('conversation import', () => {
+	it('restores an exported conversation', () => {
+		const exported = toJSON(createConversationExport({ title: 'Justice', messages }))
+
+		expect(parseConversationImport(exported)).toEqual({ title: 'Justice', messages })
+	})
+
+	it('migrates unversioned saved conversations', () => {
+		const saved = JSON.stringify({ id: 'conv-1', title: 'Justice', messages })
+
+		expect(parseConversationImport(saved)).toEqual({ title: 'Justice', messages })
+	})
+
+	it('reads a plain User:/Assistant: transcript', () => {
+		const { title, messages: imported } = parseConversationImport(
+			'User: What is justice?\n\nAssistant: What do you think?\nTake your time.\nLearner: Fairness.'
+		)
+
+		expect(title).toBeUndefined()
+		expect(imported.map(({ role, parts }) => [role, parts])).toEqual([
+			['user', [{ type: 'text', text: 'What is justice?' }]],
+			['assistant', [{ type: 'text', text: 'What do you think?\nTake your time.' }]],
+			['user', [{ type: 'text', text: 'Fairness.' }]],
+		])
+		expect(new Set(imported.map((message) => message.id)).size).toBe(3)
+	})
+
+	it.each([
+		['invalid JSON', '{ "messages": ', 'not valid JSON'],
+		['another schema', '{ "schema": "something-else", "version": 1 }', 'not a conversation export'],
+		['a newer version', '{ "schema": "socratic-tutor.conversation", "version": 99 }', 'version 99 is not supported'],
+		['an empty export', '{ "messages": [] }', 'no messages to import'],
+		['text without speakers', 'Just some notes', 'must start with'],
+		['a message the tutor would reject', `User: ${'x'.repeat(2001)}`, 'the limit is 2000'],
+	])('rejects %s', (_, text, message) => {
+		expect(() => parseConversationImport(text)).toThrow(ConversationImportError)
+		expect(() => parseConversationImport(text)).toThrow(message)
+	})
+})
@@ -0,0 +1,145 @@
+import { generateId } from 'ai'
+
+import { EXPORT_SCHEMA, EXPORT_SCHEMA_VERSION, type ConversationExport } from './export'
+import { ChatRequestError } from './errors'
+import { type ChatUIMessage, getMessageText } from './messages'
+import { MAX_REQUEST_BYTES, validateMessages } from './validation'
+
+export class ConversationImportError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'ConversationImportError'
+	}
+}
+
+export interface ImportedConversation {
+	// Absent for plain transcripts, which are titled like any new conversation
+	title?: string
+	messages: ChatUIMessage[]
+}
+
+type JsonObject = Record<string, unknown>
+
+const isObject = (value: unknown): value is JsonObject =>
+	typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Each step upgrades a document from the version it is keyed by to the next
+const MIGRATIONS: Record<number, (document: JsonObject) => JsonObject> = {
+	// Version 0: a saved conversation as the store keeps it, `{ title, messages }`
+	// with AI SDK messages, from before exports were versioned
+	0: ({ title, messages }) => ({
+		schema: EXPORT_SCHEMA,
+		version: 1,
+		conversation: { title },
+		messages: (Array.isArray(messages) ? messages : []).map((message) => {
+			if (!isObject(message)) return message
+			const { createdAt, ...metadata } = isObject(message.metadata) ? message.metadata : {}
+			return {
+				id: message.id,
+				role: message.role,
+				text: Array.isArray(message.parts) ? getMessageText(message as Pick<ChatUIMessage, 'parts'>) : '',
+				createdAt,
+				metadata,
+			}
+		}),
+	}),
+}
+
+function migrate(document: JsonObject): ConversationExport {
+	let current = document.schema === undefined ? { ...document, version: 0 } : document
+	if (current.schema !== undefined && current.schema !== EXPORT_SCHEMA) {
+		throw new ConversationImportError('This file is not a conversation export.')
+	}
+
+	while (current.version !== EXPORT_SCHEMA_VERSION) {
+		const step = typeof current.version === 'number' ? MIGRATIONS[current.version] : undefined
+		if (!step) {
+			throw new ConversationImportError(
+				`Export version ${String(current.version)} is not supported; this app reads up to version ${EXPORT_SCHEMA_VERSION}.`
+			)
+		}
+		current = step(current)
+	}
+	return current as unknown as ConversationExport
+}
+
+function fromExport(document: unknown): ImportedConversation {
+	if (!isObject(document)) throw new ConversationImportError('This file is not a conversation export.')
+
+	const { conversation, messages } = migrate(document)
+	if (!Array.isArray(messages)) throw new ConversationImportError('The export has no messages.')
+
+	return {
+		title: typeof conversation?.title === 'string' ? conversation.title : undefined,
+		messages: messages.map((message) => ({
+			id: message?.id,
+			role: message?.role,
+			parts: [{ type: 'text', text: message?.text }],
+			metadata: {
+				...message?.metadata,
+				...(message?.createdAt && { createdAt: message.createdAt }),
+			},
+		})) as ChatUIMessage[],
+	}
+}
+
+// "User:" / "Assistant:" (or "Learner:" / "Tutor:") starts a turn; any other
+// line continues the current one
+const SPEAKER_PATTERN = /^(user|learner|assistant|tutor)\s*:\s?(.*)$/i
+
+function fromTranscript(text: string): ImportedConversation {
+	const messages: ChatUIMessage[] = []
+	const lines: string[][] = []
+
+	for (const line of text.split(/\r?\n/)) {
+		const match = line.match(SPEAKER_PATTERN)
+		if (match) {
+			const role = /^(user|learner)$/i.test(match[1]) ? 'user' : 'assistant'
+			messages.push({ id: generateId(), role, parts: [] })
+			lines.push([match[2]])
+		} else if (lines.length > 0) {
+			lines[lines.length - 1].push(line)
+		} else if (line.trim()) {
+			throw new ConversationImportError('Transcripts must start with a "User:" or "Assistant:" line.')
+		}
+	}
+
+	return {
+		messages: messages.map((message, index) => ({
+			...message,
+			parts: [{ type: 'text', text: lines[index].join('\n').trim() }],
+		})),
+	}
+}
+
+// Reads an exported JSON file or a plain text transcript and checks that the
+// tutor will accept the messages, so the import can be continued right away
+export function parseConversationImport(text: string): ImportedConversation {
+	if (new TextEncoder().encode(text).length > MAX_REQUEST_BYTES) {
+		throw new ConversationImportError('This file is too large to import.')
+	}
+
+	let imported: ImportedConversation
+	if (text.trimStart().startsWith('{')) {
+		let document: unknown
+		try {
+			document = JSON.parse(text)
+		} catch {
+			throw new ConversationImportError('This file is not valid JSON.')
+		}
+		imported = fromExport(document)
+	} else {
+		imported = fromTranscript(text)
+	}
+
+	try {
+		return { ...imported, messages: validateMessages(imported.messages) }
+	} catch (error) {
+		if (error instanceof ChatRequestError) {
+			throw new ConversationImportError(
+				error.code === 'MISSING_MESSAGES' ? 'There are no messages to import.' : error.message
+			)
+		}
+		throw error
+	}
+}
@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ */
+
+import type { TextStreamPart, ToolSet } from 'ai'
+
+import { createMockModel } from '@/lib/ai/mock-model'
+import {
+	assessProgress,
+	createProgressTransform,
+	findSavedProgress,
+	formatObjective,
+	getLearningState,
+	isLearningProgress,
+	type LearningProgress,
+} from './learning'
+import type { ChatUIMessage } from './messages'
+
+const progress: LearningProgress = {
+	subGoals: [
+		{ description: 'Define a prime number', reached: true },
+		{ description: 'Explain why 1 is not prime', reached: false },
+	],
+	misconceptions: ['All odd numbers are prime'],
+}
+
+const messages: ChatUIMessage[] = [
+	{
+		id: 'u1',
+		role: 'user',
+		parts: [{ type: 'text', text: 'Primes are odd numbers.' }],
+		metadata: { objective: 'Understand prime numbers' },
+	},
+	{
+		id: 'a1',
+		role: 'assistant',
+		parts: [{ type: 'text', text: 'Is 2 prime?' }],
+		metadata: { progress },
+	},
+	{ id: 'u2', role: 'user', parts: [{ type: 'text', text: 'Yes, so not all primes are odd.' }] },
+]
+
+describe('learning state', () => {
+	it('reads the objective and latest progress from message metadata', () => {
+		expect(getLearningState(messages)).toEqual({ objective: 'Understand prime numbers', progress })
+		expect(getLearningState([messages[2]])).toEqual({ objective: null, progress: null })
+	})
+
+	it('takes progress from the server\'s own assessments on the branch', () => {
+		const older = { subGoals: [], misconceptions: ['Older'] }
+		const saved = [
+			{ messageId: 'a1', progress },
+			{ messageId: 'a0', progress: older },
+			{ messageId: 'elsewhere', progress: older },
+		]
+
+		expect(findSavedProgress(messages, saved)).toBe(progress)
+		expect(findSavedProgress(messages, [])).toBeNull()
+	})
+
+	it('prefers the objective sent with the latest learner message', () => {
+		const changed: ChatUIMessage = { ...messages[2], metadata: { objective: 'Factor integers' } }
+
+		expect(getLearningState([...messages.slice(0, 2), changed]).objective).toBe('Factor integers')
+	})
+
+	it('tells the tutor what is still open', () => {
+		const prompt = formatObjective('Understand prime numbers', progress)
+
+		expect(prompt).toContain('"Understand prime numbers"')
+		expect(prompt).toContain('Sub-goals not reached yet: Explain why 1 is not prime')
+		expect(prompt).not.toContain('Define a prime number')
+		expect(prompt).toContain('Misconceptions to address: All odd numbers are prime')
+	})
+
+	it('validates progress coming back from the client', () => {
+		expect(isLearningProgress(progress)).toBe(true)
+		expect(isLearningProgress({ subGoals: [{ description: 'x' }], misconceptions: [] })).toBe(false)
+		expect(isLearningProgress({ subGoals: [], misconceptions: ['x'.repeat(201)] })).toBe(false)
+	})
+})
+
+describe('assessProgress', () => {
+	it('asks the model for structured progress', async () => {
+		const result = await assessProgress({
+			model: createMockModel(),
+			objective: 'Understand prime numbers',
+			messages,
+			previous: progress,
+		})
+
+		expect(result).toEqual({ subGoals: [], misconceptions: [] })
+	})
+})
+
+describe('progress transform', () => {
+	type Part = TextStreamPart<ToolSet>
+
+	const run = async (parts: Part[], assess: (reply: string) => Promise<LearningProgress | null>) => {
+		const onProgress = jest.fn()
+		const transform = createProgressTransform(assess, onProgress)({ tools: {}, stopStream: jest.fn() })
+		const source = new ReadableStream<Part>({
+			start(controller) {
+				parts.forEach((part) => controller.enqueue(part))
+				controller.close()
+			},
+		})
+
+		const output: Part[] = []
+		const reader = source.pipeThrough(transform).getReader()
+		for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+			output.push(chunk.value)
+		}
+		return { output, onProgress }
+	}
+
+	const parts: Part[] = [
+		{ type: 'text-start', id: 't1' },
+		{ type: 'text-delta', id: 't1', text: 'Is 2 ' },
+		{ type: 'text-delta', id: 't1', text: 'prime?' },
+		{ type: 'text-end', id: 't1' },
+		{ type: 'finish', finishReason: 'stop', totalUsage: {} } as Part,
+	]
+
+	it('assesses the finished reply without changing the stream', async () => {
+		const assess = jest.fn().mockResolvedValue(progress)
+		const { output, onProgress } = await run(parts, assess)
+
+		expect(assess).toHaveBeenCalledWith('Is 2 prime?')
+		expect(onProgress).toHaveBeenCalledWith(progress)
+		expect(output).toEqual(parts)
+	})
+
+	it('skips replies that failed', async () => {
+		const assess = jest.fn()
+		const failed = [...parts.slice(0, 2), { type: 'error', error: new Error('x') } as Part, parts[4]]
+
+		const { onProgress } = await run(failed, assess)
+
+		expect(assess).not.toHaveBeenCalled()
+		expect(onProgress).not.toHaveBeenCalled()
+	})
+})
@@ -0,0 +1,173 @@
+import { generateObject, jsonSchema, type LanguageModel } from 'ai'
+
+import { type ChatUIMessage, formatTranscript } from './messages'
+import { createReplyReviewTransform } from './reply-review'
+
+export const MAX_OBJECTIVE_LENGTH = 300
+const MAX_SUB_GOALS = 6
+const MAX_ITEM_LENGTH = 200
+
+export interface SubGoal {
+	description: string
+	reached: boolean
+}
+
+// The tutor's structured view of how far the learner has come
+export interface LearningProgress {
+	subGoals: SubGoal[]
+	// Mistaken beliefs the learner still holds
+	misconceptions: string[]
+}
+
+export interface LearningState {
+	objective: string | null
+	progress: LearningProgress | null
+}
+
+// An assessment the server kept, with the reply it was made after
+export interface SavedLearningProgress {
+	messageId: string
+	progress: LearningProgress
+}
+
+const isShortString = (value: unknown): value is string =>
+	typeof value === 'string' && value.length <= MAX_ITEM_LENGTH
+
+export function isLearningProgress(value: unknown): value is LearningProgress {
+	if (typeof value !== 'object' || value === null) return false
+
+	const { subGoals, misconceptions } = value as Record<string, unknown>
+	return (
+		Array.isArray(subGoals) &&
+		subGoals.length <= MAX_SUB_GOALS &&
+		subGoals.every(
+			(goal) =>
+				typeof goal === 'object' &&
+				goal !== null &&
+				isShortString(goal.description) &&
+				typeof goal.reached === 'boolean'
+		) &&
+		Array.isArray(misconceptions) &&
+		misconceptions.length <= MAX_SUB_GOALS &&
+		misconceptions.every(isShortString)
+	)
+}
+
+const createProgressSchema = () =>
+	jsonSchema<LearningProgress>(
+		{
+			type: 'object',
+			properties: {
+				subGoals: {
+					type: 'array',
+					maxItems: MAX_SUB_GOALS,
+					items: {
+						type: 'object',
+						properties: {
+							description: { type: 'string', maxLength: MAX_ITEM_LENGTH },
+							reached: { type: 'boolean' },
+						},
+						required: ['description', 'reached'],
+						additionalProperties: false,
+					},
+				},
+				misconceptions: {
+					type: 'array',
+					maxItems: MAX_SUB_GOALS,
+					items: { type: 'string', maxLength: MAX_ITEM_LENGTH },
+				},
+			},
+			required: ['subGoals', 'misconceptions'],
+			additionalProperties: false,
+		},
+		{
+			validate: (value) =>
+				isLearningProgress(value)
+					? { success: true, value }
+					: { success: false, error: new Error('Invalid learning progress') },
+		}
+	)
+
+// The objective in force: the one sent with the latest learner message
+export function findObjective(messages: ChatUIMessage[]): string | null {
+	for (let index = messages.length - 1; index >= 0; index--) {
+		const objective = messages[index].metadata?.objective
+		if (messages[index].role === 'user' && objective) return objective
+	}
+	return null
+}
+
+// From reply metadata, for display
+export function findProgress(messages: ChatUIMessage[]): LearningProgress | null {
+	for (let index = messages.length - 1; index >= 0; index--) {
+		const progress = messages[index].metadata?.progress
+		if (messages[index].role === 'assistant' && progress) return progress
+	}
+	return null
+}
+
+// The latest of the server's own assessments on this branch. What clients
+// send back in metadata never reaches the prompt.
+export function findSavedProgress(
+	messages: ChatUIMessage[],
+	saved: SavedLearningProgress[]
+): LearningProgress | null {
+	for (let index = messages.length - 1; index >= 0; index--) {
+		const entry = saved.find((item) => item.messageId === messages[index].id)
+		if (entry) return entry.progress
+	}
+	return null
+}
+
+export const getLearningState = (messages: ChatUIMessage[]): LearningState => ({
+	objective: findObjective(messages),
+	progress: findProgress(messages),
+})
+
+// Appended to the system prompt so the tutor steers toward the objective
+export function formatObjective(objective: string, progress: LearningProgress | null): string {
+	const lines = [
+		`The learner's objective for this session: "${objective}"`,
+		'Steer the dialogue toward it, one question at a time, without giving the answer away.',
+	]
+
+	const openGoals = progress?.subGoals.filter((goal) => !goal.reached) ?? []
+	if (openGoals.length > 0) {
+		lines.push(`Sub-goals not reached yet: ${openGoals.map((goal) => goal.description).join('; ')}`)
+	}
+	if (progress && progress.misconceptions.length > 0) {
+		lines.push(`Misconceptions to address: ${progress.misconceptions.join('; ')}`)
+	}
+	return lines.join('\n')
+}
+
+const PROGRESS_PROMPT = `You track a learner's progress in a Socratic tutoring session. Break the learning objective into at most ${MAX_SUB_GOALS} concrete sub-goals, keeping the earlier ones where they still fit, and mark a sub-goal reached only once the learner has shown it in their own words. List the misconceptions the learner still holds, leaving out the ones they have corrected.`
+
+export async function assessProgress({
+	model,
+	objective,
+	messages,
+	previous,
+}: {
+	model: LanguageModel
+	objective: string
+	messages: ChatUIMessage[]
+	previous: LearningProgress | null
+}): Promise<LearningProgress> {
+	const { object } = await generateObject({
+		model,
+		schema: createProgressSchema(),
+		system: PROGRESS_PROMPT,
+		prompt: [
+			`Objective: ${objective}`,
+			previous && `Progress so far: ${JSON.stringify(previous)}`,
+			`Conversation:\n${formatTranscript(messages)}`,
+		]
+			.filter(Boolean)
+			.join('\n\n'),
+	})
+	return object
+}
+
+// Progress is assessed on the finished reply, before the response ends
+export const createProgressTransform = createReplyReviewTransform<LearningProgress>
@@ -0,0 +1,49 @@
+import type { UIMessage } from 'ai'
+
+import type { ContextSummary } from './context-window'
+import type { GuardrailVerdict } from './guardrail'
+import type { HintMetadata } from './hints'
+import type { LearningProgress } from './learning'
+import type { Reflection } from './reflection'
+import type { RevealMetadata } from './reveal'
+
+// Metadata attached to every message we send, stream and persist
+export interface ChatMessageMetadata {
+	// ISO timestamp; UIMessage has no createdAt of its own in AI SDK v5
+	createdAt?: string
+	// Set on replies generated from a compacted history
+	contextSummary?: ContextSummary
+	// How the answer-leakage check treated this reply
+	guardrail?: GuardrailVerdict
+	// Learner messages: the session's learning objective when it was sent
+	objective?: string
+	// Replies: the tutor's assessment against that objective
+	progress?: LearningProgress
+	// Learner messages asking for a hint: the tutor message it is for
+	hintFor?: string
+	// Replies that give a hint: the question and how strong the hint is
+	hint?: HintMetadata
+	// Learner messages asking to see the answer: the tutor message it is for
+	revealFor?: string
+	// Replies that gave the answer on request, flagged for review
+	reveal?: RevealMetadata
+	// Learner messages that end the session
+	wrapUp?: boolean
+	// The closing reply: what the learner takes away
+	reflection?: Reflection
+	// Replies the learner stopped before they were complete
+	stopped?: boolean
+}
+
+export type ChatUIMessage = UIMessage<ChatMessageMetadata>
+
+export const getMessageText = (message: Pick<UIMessage, 'parts'>) =>
+	(message.parts ?? [])
+		.map((part) => (part.type === 'text' ? part.text : ''))
+		.join('')
+
+// Plain-text rendering of a conversation for prompts that review it
+export const formatTranscript = (messages: Pick<UIMessage, 'role' | 'parts'>[]) =>
+	messages
+		.map((message) => `${message.role === 'user' ? 'Learner' : 'Tutor'}: ${getMessageText(message)}`)
+		.join('\n\n')
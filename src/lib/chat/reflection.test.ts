@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+
+import { createMockModel } from '@/lib/ai/mock-model'
+import type { ChatUIMessage } from './messages'
+import { generateReflection, isReflection, isWrapUpRequest, WRAP_UP_REQUEST_TEXT } from './reflection'
+
+const messages: ChatUIMessage[] = [
+	{ id: 'a1', role: 'assistant', parts: [{ type: 'text', text: 'Is 2 prime?' }] },
+	{ id: 'u1', role: 'user', parts: [{ type: 'text', text: 'Yes, so not every prime is odd.' }] },
+]
+
+const wrapUp: ChatUIMessage = {
+	id: 'u2',
+	role: 'user',
+	parts: [{ type: 'text', text: WRAP_UP_REQUEST_TEXT }],
+	metadata: { wrapUp: true },
+}
+
+describe('session reflection', () => {
+	it('recognises a wrap-up only on the latest learner message', () => {
+		expect(isWrapUpRequest([...messages, wrapUp])).toBe(true)
+		expect(isWrapUpRequest(messages)).toBe(false)
+		expect(isWrapUpRequest([...messages, wrapUp, { ...messages[0], id: 'a2' }])).toBe(false)
+	})
+
+	it('validates reflections coming back from the client', () => {
+		expect(isReflection({ insights: ['Not every prime is odd'], openQuestions: [], nextTopics: [] })).toBe(true)
+		expect(isReflection({ insights: [], openQuestions: [] })).toBe(false)
+		expect(isReflection({ insights: ['x'.repeat(201)], openQuestions: [], nextTopics: [] })).toBe(false)
+		expect(isReflection({ insights: Array(7).fill('x'), openQuestions: [], nextTopics: [] })).toBe(false)
+	})
+
+	it('asks the model for a structured reflection', async () => {
+		const result = await generateReflection({ model: createMockModel(), messages: [...messages, wrapUp] })
+
+		expect(result).toEqual({ insights: [], openQuestions: [], nextTopics: [] })
+	})
+
+	it('reviews a compacted session from its summary and recent turns', async () => {
+		const model = createMockModel()
+		const doGenerate = jest.spyOn(model, 'doGenerate')
+		const summary = { text: 'They explored primes.', claims: ['Two is even.'], throughMessageId: 'a0', summarizedCount: 4 }
+
+		await generateReflection({ model, messages: [...messages, wrapUp], summary })
+
+		const prompt = JSON.stringify(doGenerate.mock.calls[0][0].prompt)
+		expect(prompt).toContain('They explored primes.')
+		expect(prompt).toContain('Two is even.')
+		expect(prompt).toContain('not every prime is odd')
+	})
+})
@@ -0,0 +1,101 @@
+import { generateObject, jsonSchema, type LanguageModel } from 'ai'
+
+import { type ContextSummary, formatContextSummary } from './context-window'
+import { type ChatUIMessage, formatTranscript } from './messages'
+
+// Sent as the learner's turn, so the transcript shows where the session ended
+export const WRAP_UP_REQUEST_TEXT = "Let's wrap up."
+
+const MAX_ITEMS = 6
+const MAX_ITEM_LENGTH = 200
+
+// What the learner takes away from the session
+export interface Reflection {
+	// Insights the learner stated, kept close to their own words
+	insights: string[]
+	openQuestions: string[]
+	nextTopics: string[]
+}
+
+// Headings for each part, in the order the summary card and exports show them
+export const REFLECTION_SECTIONS: { key: keyof Reflection; title: string }[] = [
+	{ key: 'insights', title: 'Key insights' },
+	{ key: 'openQuestions', title: 'Open questions' },
+	{ key: 'nextTopics', title: 'Suggested next topics' },
+]
+
+const isShortStringList = (value: unknown): value is string[] =>
+	Array.isArray(value) &&
+	value.length <= MAX_ITEMS &&
+	value.every((item) => typeof item === 'string' && item.length <= MAX_ITEM_LENGTH)
+
+export function isReflection(value: unknown): value is Reflection {
+	if (typeof value !== 'object' || value === null) return false
+
+	const { insights, openQuestions, nextTopics } = value as Record<string, unknown>
+	return isShortStringList(insights) && isShortStringList(openQuestions) && isShortStringList(nextTopics)
+}
+
+const listSchema = () => ({
+	type: 'array' as const,
+	maxItems: MAX_ITEMS,
+	items: { type: 'string' as const, maxLength: MAX_ITEM_LENGTH },
+})
+
+const createReflectionSchema = () =>
+	jsonSchema<Reflection>(
+		{
+			type: 'object',
+			properties: {
+				insights: listSchema(),
+				openQuestions: listSchema(),
+				nextTopics: listSchema(),
+			},
+			required: ['insights', 'openQuestions', 'nextTopics'],
+			additionalProperties: false,
+		},
+		{
+			validate: (value) =>
+				isReflection(value)
+					? { success: true, value }
+					: { success: false, error: new Error('Invalid reflection') },
+		}
+	)
+
+// Whether the latest learner message asks to end the session
+export function isWrapUpRequest(messages: ChatUIMessage[]): boolean {
+	const last = messages[messages.length - 1]
+	return last?.role === 'user' && last.metadata?.wrapUp === true
+}
+
+// Appended to the system prompt for the closing reply
+export const WRAP_UP_INSTRUCTION =
+	'The learner is wrapping up the session. Close it warmly in two or three sentences: acknowledge what they worked out, without restating answers they did not reach. Do not ask a new question; a written reflection follows your reply.'
+
+const REFLECTION_PROMPT = `You write the end-of-session reflection for a Socratic tutoring session. Use only what happened in the conversation.
+- insights: what the learner worked out, quoting or closely paraphrasing their own words. Leave out anything only the tutor said
+- openQuestions: questions the session raised but did not settle
+- nextTopics: topics worth studying next, building on what the learner now understands
+Give at most ${MAX_ITEMS} short items per list; a list may be empty.`
+
+// Long sessions are reviewed like the tutor sees them: the summary of the
+// older turns, then the recent ones
+export async function generateReflection({
+	model,
+	messages,
+	summary = null,
+}: {
+	model: LanguageModel
+	messages: ChatUIMessage[]
+	summary?: ContextSummary | null
+}): Promise<Reflection> {
+	const { object } = await generateObject({
+		model,
+		schema: createReflectionSchema(),
+		system: REFLECTION_PROMPT,
+		prompt: [summary && formatContextSummary(summary), `Conversation:\n${formatTranscript(messages)}`]
+			.filter(Boolean)
+			.join('\n\n'),
+	})
+	return object
+}
@@ -0,0 +1,26 @@
+import type { StreamTextTransform, TextStreamPart, ToolSet } from 'ai'
+
+// Lets the reply stream as usual but holds back the end of the response
+// until `review` has looked at the finished reply
+export const createReplyReviewTransform =
+	<T>(
+		review: (reply: string) => Promise<T | null>,
+		onResult: (result: T) => void
+	): StreamTextTransform<ToolSet> =>
+	() => {
+		let reply = ''
+		let isFailed = false
+
+		return new TransformStream<TextStreamPart<ToolSet>, TextStreamPart<ToolSet>>({
+			async transform(part, controller) {
+				if (part.type === 'text-delta') reply += part.text
+				if (part.type === 'error' || part.type === 'abort') isFailed = true
+
+				if (part.type === 'finish' && !isFailed) {
+					const result = await review(reply)
+					if (result) onResult(result)
+				}
+				controller.enqueue(part)
+			},
+		})
+	}
@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+
+import { createResilientFetch, getBackoffDelay } from './resilient-fetch'
+
+const encoder = new TextEncoder()
+
+// A body that sends its chunks, then optionally breaks like a dropped connection
+const body = (chunks: string[], breaks = false) => {
+	const queue = [...chunks]
+	return new ReadableStream<Uint8Array>({
+		pull(controller) {
+			const chunk = queue.shift()
+			if (chunk !== undefined) controller.enqueue(encoder.encode(chunk))
+			else if (breaks) controller.error(new TypeError('network error'))
+			else controller.close()
+		},
+	})
+}
+
+const stream = (chunks: string[], breaks = false) =>
+	new Response(body(chunks, breaks), { headers: { 'X-Stream-Id': 's1' } })
+
+const options = { retries: 2, baseDelayMs: 1, maxDelayMs: 1 }
+
+describe('createResilientFetch', () => {
+	it('backs off exponentially up to the cap', () => {
+		const delays = [0, 1, 2, 3, 10].map((attempt) =>
+			getBackoffDelay(attempt, { retries: 3, baseDelayMs: 500, maxDelayMs: 8000 })
+		)
+		expect(delays).toEqual([500, 1000, 2000, 4000, 8000])
+	})
+
+	it('retries network errors and overloaded servers', async () => {
+		const fetch = jest
+			.fn()
+			.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+			.mockResolvedValueOnce(new Response('busy', { status: 503 }))
+			.mockResolvedValueOnce(new Response('ok'))
+
+		const response = await createResilientFetch({ ...options, fetch })('/api/chat', { method: 'POST' })
+
+		expect(await response.text()).toBe('ok')
+		expect(fetch).toHaveBeenCalledTimes(3)
+	})
+
+	it('gives up after the configured retries', async () => {
+		const fetch = jest.fn().mockResolvedValue(new Response('busy', { status: 503 }))
+
+		const response = await createResilientFetch({ ...options, fetch })('/api/chat')
+
+		expect(response.status).toBe(503)
+		expect(fetch).toHaveBeenCalledTimes(3)
+	})
+
+	it('does not retry requests the server rejected', async () => {
+		const fetch = jest.fn().mockResolvedValue(new Response('{}', { status: 429 }))
+
+		await createResilientFetch({ ...options, fetch })('/api/chat')
+
+		expect(fetch).toHaveBeenCalledTimes(1)
+	})
+
+	it('stops retrying when told to', async () => {
+		const fetch = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'))
+
+		await expect(createResilientFetch({ ...options, fetch, canRetry: () => false })('/api/chat')).rejects.toThrow(
+			'Failed to fetch'
+		)
+		expect(fetch).toHaveBeenCalledTimes(1)
+	})
+
+	it('resumes a dropped reply after the last complete event', async () => {
+		const fetch = jest
+			.fn()
+			.mockResolvedValueOnce(stream(['data: {"a":1}\n\ndata: {"b"'], true))
+			.mockResolvedValueOnce(stream(['data: {"b":2}\n\n', 'data: [DONE]\n\n']))
+
+		const response = await createResilientFetch({ ...options, fetch })('/api/chat', { method: 'POST' })
+
+		expect(await response.text()).toBe('data: {"a":1}\n\ndata: {"b":2}\n\ndata: [DONE]\n\n')
+		expect(fetch).toHaveBeenLastCalledWith('/api/chat/streams/s1?after=1', expect.anything())
+	})
+
+	it('cancels the reply on the server when it is stopped on purpose', async () => {
+		const fetch = jest
+			.fn()
+			.mockResolvedValueOnce(stream(['data: {"a":1}\n\n']))
+			.mockResolvedValueOnce(new Response(null, { status: 204 }))
+		const controller = new AbortController()
+
+		await createResilientFetch({ ...options, fetch })('/api/chat', { signal: controller.signal })
+		controller.abort()
+
+		expect(fetch).toHaveBeenLastCalledWith('/api/chat/streams/s1', expect.objectContaining({ method: 'DELETE' }))
+	})
+
+	it('cancels a reply stopped before it starts once the server names it', async () => {
+		let respond: (response: Response) => void = () => {}
+		const fetch = jest
+			.fn()
+			.mockReturnValueOnce(new Promise<Response>((resolve) => (respond = resolve)))
+			.mockResolvedValueOnce(new Response(null, { status: 204 }))
+		const controller = new AbortController()
+
+		const request = createResilientFetch({ ...options, fetch })('/api/chat', { signal: controller.signal })
+		controller.abort()
+		await expect(request).rejects.toThrow()
+		expect(fetch).toHaveBeenCalledTimes(1)
+
+		respond(stream(['data: {"a":1}\n\n']))
+		await new Promise((resolve) => setTimeout(resolve, 0))
+
+		expect(fetch).toHaveBeenLastCalledWith('/api/chat/streams/s1', expect.objectContaining({ method: 'DELETE' }))
+	})
+
+	it('still cancels the reply on the server without retries', async () => {
+		const fetch = jest
+			.fn()
+			.mockResolvedValueOnce(stream(['data: {"a":1}\n\n']))
+			.mockResolvedValueOnce(new Response(null, { status: 204 }))
+		const controller = new AbortController()
+
+		await createResilientFetch({ retries: 0, fetch })('/api/chat', { signal: controller.signal })
+		controller.abort()
+
+		expect(fetch).toHaveBeenLastCalledWith('/api/chat/streams/s1', expect.objectContaining({ method: 'DELETE' }))
+	})
+})
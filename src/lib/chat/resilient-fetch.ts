@@ -0,0 +1,181 @@
+import { STREAM_ID_HEADER } from './stream-registry'
+
+export interface RetryOptions {
+	// Attempts after the first, for the request and again for each dropped stream
+	retries: number
+	baseDelayMs: number
+	maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+	retries: 3,
+	baseDelayMs: 500,
+	maxDelayMs: 8_000,
+}
+
+export interface ResilientFetchOptions extends Partial<RetryOptions> {
+	// Where replies are resumed and cancelled, by stream id
+	streamsApi?: string
+	// Checked before each retry, e.g. so a chat that is gone stops trying
+	canRetry?: () => boolean
+	fetch?: typeof fetch
+}
+
+// 500ms, 1s, 2s, ... up to the cap
+export const getBackoffDelay = (attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions) =>
+	Math.min(baseDelayMs * 2 ** attempt, maxDelayMs)
+
+// Gateways and overloaded servers; 429s wait for the server's own Retry-After
+const isTransientStatus = (status: number) => status === 408 || status === 502 || status === 503 || status === 504
+
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+	new Promise<void>((resolve, reject) => {
+		if (signal?.aborted) return reject(signal.reason)
+
+		const timer = setTimeout(resolve, ms)
+		signal?.addEventListener(
+			'abort',
+			() => {
+				clearTimeout(timer)
+				reject(signal.reason)
+			},
+			{ once: true }
+		)
+	})
+
+// A fetch for the chat transport that retries transient failures with
+// exponential backoff. When a reply's connection drops part-way, it resumes
+// the reply after the last complete event instead of failing, so the text
+// already shown is kept and the rest is appended.
+export function createResilientFetch({
+	streamsApi = '/api/chat/streams',
+	canRetry = () => true,
+	fetch: fetchImpl = (...args) => globalThis.fetch(...args),
+	...retryOptions
+}: ResilientFetchOptions = {}): typeof fetch {
+	const options = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions }
+	// Waits out the backoff, unless retrying is off by now
+	const backOff = async (attempt: number, signal?: AbortSignal | null) => {
+		await sleep(getBackoffDelay(attempt, options), signal)
+		if (!canRetry()) throw new Error('Retrying was cancelled')
+	}
+
+	return (input, init) => {
+		const signal = init?.signal
+		// The request outlives a stop until its headers name the reply, so a
+		// stop before the reply starts still ends it on the server
+		const request = new AbortController()
+		let stopReply = () => {}
+
+		const send = async () => {
+			let response: Response
+			for (let attempt = 0; ; attempt++) {
+				try {
+					response = await fetchImpl(input, { ...init, signal: request.signal })
+					if (!isTransientStatus(response.status) || attempt >= options.retries || !canRetry()) break
+				} catch (error) {
+					if (signal?.aborted || attempt >= options.retries || !canRetry()) throw error
+				}
+				await backOff(attempt, signal)
+			}
+
+			// Stopping on purpose ends the reply on the server too; a dropped
+			// connection only pauses it. Only a reply being streamed has an id
+			const streamId = response.ok && response.body ? response.headers.get(STREAM_ID_HEADER) : null
+			const streamUrl = streamId && `${streamsApi}/${encodeURIComponent(streamId)}`
+			stopReply = () => {
+				if (streamUrl) fetchImpl(streamUrl, { method: 'DELETE', keepalive: true }).catch(() => {})
+				request.abort(signal?.reason)
+			}
+			if (signal?.aborted) {
+				stopReply()
+				response.body?.cancel().catch(() => {})
+				throw signal.reason
+			}
+			if (!response.body || !streamUrl) return response
+
+			const resume = async (after: number) => {
+				const resumed = await fetchImpl(`${streamUrl}?after=${after}`, { signal })
+				if (!resumed.ok || !resumed.body) {
+					throw new Error(`Failed to resume the reply (${resumed.status})`)
+				}
+				return resumed.body
+			}
+
+			return new Response(createResumableBody(response.body, resume, options, backOff, signal), {
+				status: response.status,
+				statusText: response.statusText,
+				headers: response.headers,
+			})
+		}
+
+		if (!signal) return send()
+		if (signal.aborted) return Promise.reject(signal.reason)
+		return new Promise<Response>((resolve, reject) => {
+			signal.addEventListener(
+				'abort',
+				() => {
+					stopReply()
+					reject(signal.reason)
+				},
+				{ once: true }
+			)
+			send().then(resolve, reject)
+		})
+	}
+}
+
+// Passes on whole server-sent events only, counting them, so a resumed
+// stream can start exactly where this one broke off
+function createResumableBody(
+	body: ReadableStream<Uint8Array>,
+	resume: (after: number) => Promise<ReadableStream<Uint8Array>>,
+	options: RetryOptions,
+	backOff: (attempt: number, signal?: AbortSignal | null) => Promise<void>,
+	signal?: AbortSignal | null
+): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder()
+	let decoder = new TextDecoder()
+	let reader: ReadableStreamDefaultReader<Uint8Array> | null = body.getReader()
+	let pending = ''
+	let events = 0
+	let attempt = 0
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			for (;;) {
+				try {
+					reader ??= (await resume(events)).getReader()
+					const { done, value } = await reader.read()
+					if (done) {
+						if (pending) controller.enqueue(encoder.encode(pending))
+						controller.close()
+						return
+					}
+
+					attempt = 0
+					pending += decoder.decode(value, { stream: true })
+					const end = pending.lastIndexOf('\n\n') + 2
+					if (end < 2) continue
+
+					const complete = pending.slice(0, end)
+					pending = pending.slice(end)
+					events += complete.split('\n\n').length - 1
+					controller.enqueue(encoder.encode(complete))
+					return
+				} catch (error) {
+					if (signal?.aborted || attempt >= options.retries) throw error
+
+					// Half an event is dropped; the resumed stream sends it again
+					reader = null
+					pending = ''
+					decoder = new TextDecoder()
+					await backOff(attempt++, signal)
+				}
+			}
+		},
+		cancel(reason) {
+			return reader?.cancel(reason)
+		},
+	})
+}
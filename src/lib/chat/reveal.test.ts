@@ -0,0 +1,41 @@
+/**
+ * @jest-environment node
+ */
+
+import type { ChatUIMessage } from './messages'
+import { findRevealRequest, formatRevealPrompt, REVEAL_REQUEST_TEXT } from './reveal'
+
+const question: ChatUIMessage = {
+	id: 'q1',
+	role: 'assistant',
+	parts: [{ type: 'text', text: 'What is 12 × 7?' }],
+}
+
+const request = (metadata: ChatUIMessage['metadata']): ChatUIMessage => ({
+	id: 'u1',
+	role: 'user',
+	parts: [{ type: 'text', text: REVEAL_REQUEST_TEXT }],
+	metadata,
+})
+
+describe('answer reveal', () => {
+	it('finds the question the learner asked to have answered', () => {
+		expect(findRevealRequest([question, request({ revealFor: 'q1' })])).toBe(question)
+		expect(findRevealRequest([question, request({})])).toBeNull()
+	})
+
+	it('only applies to the reply to the request', () => {
+		const reply: ChatUIMessage = { ...question, id: 'a1', metadata: { reveal: { questionId: 'q1' } } }
+
+		expect(findRevealRequest([question, request({ revealFor: 'q1' }), reply])).toBeNull()
+	})
+
+	it('asks for a full explanation and a check-your-understanding question', () => {
+		const prompt = formatRevealPrompt(question)
+
+		expect(prompt).toContain('"What is 12 × 7?"')
+		expect(prompt).toContain('Give the full answer')
+		expect(prompt).toContain('"check your understanding" question')
+		expect(prompt).not.toContain('Socratic')
+	})
+})
@@ -0,0 +1,29 @@
+import { type ChatUIMessage, getMessageText } from './messages'
+
+// Sent as the learner's turn, so the transcript shows the answer was asked for
+export const REVEAL_REQUEST_TEXT = 'Please show me the answer.'
+
+// Attached to replies that gave the answer away on purpose
+export interface RevealMetadata {
+	// The tutor message whose question was answered
+	questionId: string
+}
+
+// The tutor question the latest learner message asks to have answered, if any
+export function findRevealRequest(messages: ChatUIMessage[]): ChatUIMessage | null {
+	const last = messages[messages.length - 1]
+	const revealFor = last?.role === 'user' ? last.metadata?.revealFor : undefined
+	if (!revealFor) return null
+
+	return messages.find((message) => message.id === revealFor && message.role === 'assistant') ?? null
+}
+
+// Stands in for the Socratic persona prompt for this one reply; the next turn
+// goes back to questioning
+export function formatRevealPrompt(question: ChatUIMessage): string {
+	return `You are a patient tutor. The learner got stuck on your question "${getMessageText(question)}" and, after confirming, asked to see the answer.
+
+- Give the full answer and explain each step of the reasoning clearly
+- Point out where learners typically go wrong on this kind of problem
+- Finish with one "check your understanding" question: a similar but different problem the learner can now solve on their own, without its answer`
+}
@@ -0,0 +1,148 @@
+/**
+ * @jest-environment node
+ */
+
+import { StreamRegistry } from './stream-registry'
+
+const readAll = async (stream: ReadableStream<string>) => {
+	const events: string[] = []
+	const reader = stream.getReader()
+	for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+		events.push(chunk.value)
+	}
+	return events
+}
+
+// A reply whose events are pushed by the test
+const createReply = () => {
+	let controller!: ReadableStreamDefaultController<string>
+	const stream = new ReadableStream<string>({
+		start(c) {
+			controller = c
+		},
+	})
+	return { stream, push: (event: string) => controller.enqueue(event), end: () => controller.close() }
+}
+
+describe('StreamRegistry', () => {
+	afterEach(() => {
+		jest.useRealTimers()
+	})
+
+	it('replays the events after the ones already read, then follows the reply', async () => {
+		const registry = new StreamRegistry({ disconnectGraceMs: 1000, retentionMs: 1000 })
+		const reply = createReply()
+		registry.open('s1')
+		const recording = registry.record('s1', reply.stream)
+
+		reply.push('data: a\n\n')
+		reply.push('data: b\n\n')
+		await new Promise((resolve) => setTimeout(resolve, 0))
+
+		const resumed = readAll(registry.resume('s1', 1)!)
+		reply.push('data: c\n\n')
+		reply.end()
+		await recording
+
+		expect(await resumed).toEqual(['data: b\n\n', 'data: c\n\n'])
+		expect(await readAll(registry.resume('s1', 0)!)).toHaveLength(3)
+	})
+
+	it('knows nothing of replies it was not given', () => {
+		const registry = new StreamRegistry()
+
+		expect(registry.resume('missing', 0)).toBeNull()
+		expect(registry.cancel('missing')).toBe(false)
+	})
+
+	it('keeps generating while a dropped reader may come back', () => {
+		jest.useFakeTimers()
+		const registry = new StreamRegistry({ disconnectGraceMs: 1000, retentionMs: 1000 })
+		const signal = registry.open('s1')
+
+		const first = new AbortController()
+		registry.attach('s1', first.signal)
+		first.abort()
+		jest.advanceTimersByTime(500)
+
+		// The client resumed in time
+		registry.attach('s1', new AbortController().signal)
+		jest.advanceTimersByTime(1000)
+		expect(signal.aborted).toBe(false)
+	})
+
+	it('stops generating when nobody comes back, or on cancel', () => {
+		jest.useFakeTimers()
+		const registry = new StreamRegistry({ disconnectGraceMs: 1000, retentionMs: 1000 })
+		const abandoned = registry.open('s1')
+		const cancelled = registry.open('s2')
+
+		const reader = new AbortController()
+		registry.attach('s1', reader.signal)
+		reader.abort()
+		jest.advanceTimersByTime(1000)
+		expect(abandoned.aborted).toBe(true)
+
+		expect(registry.cancel('s2')).toBe(true)
+		expect(cancelled.aborted).toBe(true)
+	})
+
+	it('forgets finished replies after the retention period', async () => {
+		const registry = new StreamRegistry({ disconnectGraceMs: 1000, retentionMs: 0 })
+		const reply = createReply()
+		registry.open('s1')
+		reply.end()
+		await registry.record('s1', reply.stream)
+
+		await new Promise((resolve) => setTimeout(resolve, 0))
+		expect(registry.resume('s1', 0)).toBeNull()
+	})
+
+	it('keeps only the latest events of a long reply', async () => {
+		const registry = new StreamRegistry({ maxRecordedChars: 20 })
+		const reply = createReply()
+		registry.open('s1')
+		const live = readAll(registry.resume('s1', 0)!)
+		const recording = registry.record('s1', reply.stream)
+
+		for (const event of ['data: a\n\n', 'data: b\n\n', 'data: c\n\n']) reply.push(event)
+		reply.end()
+		await recording
+
+		// Readers that kept up got everything; the start can't be replayed
+		expect(await live).toEqual(['data: a\n\n', 'data: b\n\n', 'data: c\n\n'])
+		expect(registry.resume('s1', 0)).toBeNull()
+		expect(await readAll(registry.resume('s1', 1)!)).toEqual(['data: b\n\n', 'data: c\n\n'])
+	})
+
+	it('ends and forgets a reply that is discarded before it starts', async () => {
+		const registry = new StreamRegistry()
+		const signal = registry.open('s1', { conversationId: 'conv-1', messageId: 'u1' })
+		const waiting = readAll(registry.resume('s1', 0)!)
+
+		registry.discard('s1')
+
+		expect(await waiting).toEqual([])
+		expect(signal.aborted).toBe(true)
+		expect(registry.findByConversation('conv-1')).toBeNull()
+		expect(registry.resume('s1', 0)).toBeNull()
+	})
+
+	it('finds the latest reply of a conversation until it is forgotten', async () => {
+		const registry = new StreamRegistry({ disconnectGraceMs: 1000, retentionMs: 0 })
+		registry.open('s1', { conversationId: 'conv-1', messageId: 'u1' })
+		const reply = createReply()
+		registry.open('s2', { conversationId: 'conv-1', messageId: 'u2' })
+
+		expect(registry.findByConversation('conv-1')).toBe('s2')
+		expect(registry.findByConversation('conv-1', 'u2')).toBe('s2')
+		// The reply to u1 was superseded
+		expect(registry.findByConversation('conv-1', 'u1')).toBeNull()
+		expect(registry.findByConversation('conv-2')).toBeNull()
+
+		reply.end()
+		await registry.record('s2', reply.stream)
+		await new Promise((resolve) => setTimeout(resolve, 0))
+		expect(registry.findByConversation('conv-1')).toBeNull()
+	})
+})
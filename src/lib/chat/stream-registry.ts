@@ -0,0 +1,209 @@
+// Replies are recorded as they stream so a client whose connection dropped
+// can pick up where it stopped, and a reloaded page can find the reply to its
+// conversation. Kept in memory, so a resume has to reach the instance that
+// started the reply.
+
+// Sent with every reply; the client resumes and cancels by it
+export const STREAM_ID_HEADER = 'X-Stream-Id'
+
+export interface StreamRegistryOptions {
+	// How long a reply keeps generating once nobody reads it, waiting to be resumed
+	disconnectGraceMs: number
+	// How long a finished reply can still be read by a client that comes back late
+	retentionMs: number
+	// Characters of events kept per reply. Past it the oldest are dropped, and
+	// the reply can only be resumed from after them.
+	maxRecordedChars: number
+}
+
+export const DEFAULT_STREAM_REGISTRY_OPTIONS: StreamRegistryOptions = {
+	disconnectGraceMs: 30_000,
+	retentionMs: 60_000,
+	maxRecordedChars: 1_000_000,
+}
+
+// The conversation a reply belongs to, and the last message it was asked with
+export interface ConversationTurn {
+	conversationId: string
+	messageId: string
+}
+
+interface RecordedStream {
+	// Server-sent events, one per chunk of the reply, after the dropped ones
+	events: string[]
+	dropped: number
+	recordedChars: number
+	isDone: boolean
+	controller: AbortController
+	readers: number
+	listeners: Set<() => void>
+	turn?: ConversationTurn
+	graceTimer?: ReturnType<typeof setTimeout>
+}
+
+// Timers must not keep the server (or a test run) alive
+const unref = (timer: ReturnType<typeof setTimeout>) => {
+	if (typeof timer === 'object' && 'unref' in timer) timer.unref()
+	return timer
+}
+
+export class StreamRegistry {
+	private streams = new Map<string, RecordedStream>()
+	// The latest reply of each conversation, by stream id
+	private latest = new Map<string, string>()
+	private options: StreamRegistryOptions
+
+	constructor(options: Partial<StreamRegistryOptions> = {}) {
+		this.options = { ...DEFAULT_STREAM_REGISTRY_OPTIONS, ...options }
+	}
+
+	// Registers a reply before it starts; the signal aborts its generation
+	// when it is cancelled or abandoned
+	open(id: string, turn?: ConversationTurn): AbortSignal {
+		const controller = new AbortController()
+		this.streams.set(id, {
+			events: [],
+			dropped: 0,
+			recordedChars: 0,
+			isDone: false,
+			controller,
+			readers: 0,
+			listeners: new Set(),
+			turn,
+		})
+		if (turn) this.latest.set(turn.conversationId, id)
+		return controller.signal
+	}
+
+	// Forgets a reply that never started, e.g. because the model call threw,
+	// so nobody waits for it
+	discard(id: string) {
+		const entry = this.streams.get(id)
+		if (!entry) return
+
+		entry.isDone = true
+		clearTimeout(entry.graceTimer)
+		entry.controller.abort()
+		entry.listeners.forEach((notify) => notify())
+		this.expire(id, entry)
+	}
+
+	// The reply a conversation is streaming, or finished a moment ago. With a
+	// message id, only if the reply was asked with that message last.
+	findByConversation(conversationId: string, messageId?: string): string | null {
+		const id = this.latest.get(conversationId)
+		const turn = id && this.streams.get(id)?.turn
+		if (!id || !turn || (messageId && turn.messageId !== messageId)) return null
+		return id
+	}
+
+	// Reads the reply to the end, whether or not anyone is listening
+	async record(id: string, stream: ReadableStream<string>): Promise<void> {
+		const entry = this.streams.get(id)
+		if (!entry) return
+
+		const reader = stream.getReader()
+		try {
+			for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+				entry.events.push(chunk.value)
+				entry.recordedChars += chunk.value.length
+				entry.listeners.forEach((notify) => notify())
+
+				// Readers have been handed everything; only late resumes lose out
+				while (entry.recordedChars > this.options.maxRecordedChars && entry.events.length > 1) {
+					entry.recordedChars -= entry.events.shift()!.length
+					entry.dropped++
+				}
+			}
+		} catch (error) {
+			console.error('Error recording reply stream:', error)
+		} finally {
+			entry.isDone = true
+			clearTimeout(entry.graceTimer)
+			entry.listeners.forEach((notify) => notify())
+			unref(setTimeout(() => this.expire(id, entry), this.options.retentionMs))
+		}
+	}
+
+	// Counts a request as reading the reply until its signal aborts. Once the
+	// last reader is gone the reply has the grace period to be resumed.
+	attach(id: string, signal: AbortSignal) {
+		const entry = this.streams.get(id)
+		if (!entry) return
+
+		entry.readers++
+		clearTimeout(entry.graceTimer)
+
+		const detach = () => {
+			entry.readers--
+			if (entry.readers > 0 || entry.isDone) return
+
+			if (this.options.disconnectGraceMs <= 0) {
+				entry.controller.abort()
+			} else {
+				entry.graceTimer = unref(setTimeout(() => entry.controller.abort(), this.options.disconnectGraceMs))
+			}
+		}
+		if (signal.aborted) detach()
+		else signal.addEventListener('abort', detach, { once: true })
+	}
+
+	// The events after the first `after`, then the rest as they arrive.
+	// Null when the reply is unknown, has expired or no longer has them all.
+	resume(id: string, after: number): ReadableStream<string> | null {
+		const entry = this.streams.get(id)
+		if (!entry || after < entry.dropped) return null
+
+		let index = after
+		let flush: () => void
+		return new ReadableStream<string>({
+			start(controller) {
+				flush = () => {
+					while (index < entry.dropped + entry.events.length) {
+						controller.enqueue(entry.events[index++ - entry.dropped])
+					}
+					if (entry.isDone) {
+						entry.listeners.delete(flush)
+						controller.close()
+					}
+				}
+				entry.listeners.add(flush)
+				flush()
+			},
+			cancel() {
+				entry.listeners.delete(flush)
+			},
+		})
+	}
+
+	private expire(id: string, entry: RecordedStream) {
+		if (this.streams.get(id) !== entry) return
+
+		this.streams.delete(id)
+		if (entry.turn && this.latest.get(entry.turn.conversationId) === id) {
+			this.latest.delete(entry.turn.conversationId)
+		}
+	}
+
+	// Stops the reply for good, e.g. when the learner pressed stop
+	cancel(id: string): boolean {
+		const entry = this.streams.get(id)
+		if (!entry) return false
+
+		entry.controller.abort()
+		return true
+	}
+}
+
+let streamRegistry: StreamRegistry | null = null
+
+export function getStreamRegistry(): StreamRegistry {
+	if (!streamRegistry) {
+		streamRegistry = new StreamRegistry()
+	}
+	return streamRegistry
+}
+
+export function setStreamRegistry(registry: StreamRegistry | null) {
+	streamRegistry = registry
+}
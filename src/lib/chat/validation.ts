@@ -0,0 +1,197 @@
+import type { ChatUIMessage } from './messages'
+import { ChatRequestError } from './errors'
+import { isReservedMessageId } from './conversation-tree'
+import { isHintMetadata } from './hints'
+import { MAX_OBJECTIVE_LENGTH, isLearningProgress } from './learning'
+import { isReflection } from './reflection'
+import { isPersonaId, type PersonaId } from '@/lib/personas'
+import { isValidConversationId } from '@/lib/storage/conversation-store'
+
+// Clients send the whole session and long ones are compacted before the
+// model sees them, so these only bound what a request may cost to read
+export const MAX_REQUEST_BYTES = 5_000_000
+export const MAX_MESSAGES = 1000
+// Matches the limit MessageInput enforces while typing
+export const MAX_USER_MESSAGE_LENGTH = 2000
+export const MAX_ASSISTANT_MESSAGE_LENGTH = 20_000
+const MAX_MESSAGE_ID_LENGTH = 128
+
+// Learners only ever send text; replies echoed back may also carry the
+// structural parts the AI SDK adds while streaming
+const ALLOWED_PART_TYPES: Record<ChatUIMessage['role'], readonly string[]> = {
+	user: ['text'],
+	assistant: ['text', 'reasoning', 'step-start', 'source-url', 'source-document'],
+	system: [],
+}
+
+export interface ChatRequestBody {
+	messages: ChatUIMessage[]
+	provider?: unknown
+	model?: unknown
+	personaId?: PersonaId
+	conversationId?: string
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isValidContextSummary = (value: unknown) =>
+	isPlainObject(value) &&
+	typeof value.text === 'string' &&
+	value.text.length <= MAX_ASSISTANT_MESSAGE_LENGTH &&
+	Array.isArray(value.claims) &&
+	value.claims.every((claim) => typeof claim === 'string') &&
+	typeof value.throughMessageId === 'string' &&
+	typeof value.summarizedCount === 'number'
+
+const isMessageId = (value: unknown): value is string =>
+	typeof value === 'string' && value.length > 0 && value.length <= MAX_MESSAGE_ID_LENGTH
+
+// Parts of the metadata the server reads back or saves
+const isValidMetadata = (metadata: unknown) =>
+	isPlainObject(metadata) &&
+	(metadata.contextSummary === undefined || isValidContextSummary(metadata.contextSummary)) &&
+	(metadata.objective === undefined ||
+		(typeof metadata.objective === 'string' && metadata.objective.length <= MAX_OBJECTIVE_LENGTH)) &&
+	(metadata.progress === undefined || isLearningProgress(metadata.progress)) &&
+	(metadata.hintFor === undefined || isMessageId(metadata.hintFor)) &&
+	(metadata.hint === undefined || isHintMetadata(metadata.hint)) &&
+	(metadata.revealFor === undefined || isMessageId(metadata.revealFor)) &&
+	(metadata.reveal === undefined ||
+		(isPlainObject(metadata.reveal) && isMessageId(metadata.reveal.questionId))) &&
+	(metadata.wrapUp === undefined || typeof metadata.wrapUp === 'boolean') &&
+	(metadata.reflection === undefined || isReflection(metadata.reflection)) &&
+	(metadata.stopped === undefined || typeof metadata.stopped === 'boolean')
+
+function validatePart(part: unknown, role: ChatUIMessage['role'], index: number): number {
+	if (!isPlainObject(part) || typeof part.type !== 'string') {
+		throw new ChatRequestError('INVALID_MESSAGE', `Message ${index} has a malformed part`)
+	}
+	if (!ALLOWED_PART_TYPES[role].includes(part.type)) {
+		throw new ChatRequestError(
+			'UNSUPPORTED_PART',
+			`Unsupported part type "${part.type}" in ${role} message ${index}`
+		)
+	}
+	if (part.type === 'text' || part.type === 'reasoning') {
+		if (typeof part.text !== 'string') {
+			throw new ChatRequestError('INVALID_MESSAGE', `Message ${index} has a ${part.type} part without text`)
+		}
+		return part.type === 'text' ? part.text.length : 0
+	}
+	return 0
+}
+
+function validateMessage(message: unknown, index: number): ChatUIMessage {
+	if (!isPlainObject(message)) {
+		throw new ChatRequestError('INVALID_MESSAGE', `Message ${index} must be an object`)
+	}
+
+	const { id, role, parts, metadata } = message
+	if (typeof id !== 'string' || !id || id.length > MAX_MESSAGE_ID_LENGTH) {
+		throw new ChatRequestError('INVALID_MESSAGE', `Message ${index} must have a string id`)
+	}
+	// Ids key the conversation tree
+	if (isReservedMessageId(id)) {
+		throw new ChatRequestError('INVALID_MESSAGE', `Message ${index} has a reserved id: ${id}`)
+	}
+	// System prompts are the server's business
+	if (role !== 'user' && role !== 'assistant') {
+		throw new ChatRequestError('INVALID_ROLE', `Message ${index} has invalid role: ${String(role)}`)
+	}
+	if (!Array.isArray(parts)) {
+		throw new ChatRequestError('INVALID_MESSAGE', `Message ${index} must have a parts array`)
+	}
+	if (metadata !== undefined && !isValidMetadata(metadata)) {
+		throw new ChatRequestError('INVALID_MESSAGE', `Message ${index} has invalid metadata`)
+	}
+
+	const textLength = parts.reduce<number>((total, part) => total + validatePart(part, role, index), 0)
+	const maxLength = role === 'user' ? MAX_USER_MESSAGE_LENGTH : MAX_ASSISTANT_MESSAGE_LENGTH
+	if (textLength > maxLength) {
+		throw new ChatRequestError(
+			'MESSAGE_TOO_LONG',
+			`Message ${index} is ${textLength} characters; the limit is ${maxLength}`
+		)
+	}
+	if (role === 'user' && textLength === 0) {
+		throw new ChatRequestError('INVALID_MESSAGE', `Message ${index} is empty`)
+	}
+
+	return message as unknown as ChatUIMessage
+}
+
+// Checks a message list the tutor will be sent, e.g. an imported conversation
+export function validateMessages(messages: unknown): ChatUIMessage[] {
+	if (!Array.isArray(messages) || messages.length === 0) {
+		throw new ChatRequestError('MISSING_MESSAGES', 'Messages array is required and cannot be empty')
+	}
+	if (messages.length > MAX_MESSAGES) {
+		throw new ChatRequestError(
+			'TOO_MANY_MESSAGES',
+			`Conversations are limited to ${MAX_MESSAGES} messages per request`
+		)
+	}
+	return messages.map(validateMessage)
+}
+
+export function validateChatRequestBody(body: unknown): ChatRequestBody {
+	if (!isPlainObject(body)) {
+		throw new ChatRequestError('INVALID_REQUEST', 'Request body must be a JSON object')
+	}
+
+	const { messages, provider, model, personaId, conversationId } = body
+	const validMessages = validateMessages(messages)
+	if (personaId !== undefined && !isPersonaId(personaId)) {
+		throw new ChatRequestError('UNKNOWN_PERSONA', `Unknown persona: ${String(personaId)}`)
+	}
+	if (conversationId !== undefined && !isValidConversationId(conversationId)) {
+		throw new ChatRequestError('INVALID_CONVERSATION_ID', 'Invalid conversation id')
+	}
+
+	// The tutor replies to the learner, or carries on with a reply they stopped
+	const last = validMessages[validMessages.length - 1]
+	if (last.role === 'assistant' && !last.metadata?.stopped) {
+		throw new ChatRequestError('INVALID_REQUEST', 'Only a stopped reply can be continued')
+	}
+	if (last.role === 'assistant' && validMessages[validMessages.length - 2]?.role !== 'user') {
+		throw new ChatRequestError('INVALID_REQUEST', 'A stopped reply can only be continued after a learner turn')
+	}
+
+	// Hints and reveals are for a tutor message in this conversation
+	const { hintFor, revealFor } = last.metadata ?? {}
+	const questionId = hintFor ?? revealFor
+	if (questionId && !validMessages.some((message) => message.id === questionId && message.role === 'assistant')) {
+		throw new ChatRequestError('UNKNOWN_QUESTION', 'Hint or answer requested for a message not in the conversation')
+	}
+
+	return {
+		messages: validMessages,
+		provider,
+		model,
+		personaId,
+		conversationId,
+	}
+}
+
+// Reads and validates a /api/chat request, throwing ChatRequestError on bad input
+export async function parseChatRequest(req: Request): Promise<ChatRequestBody> {
+	const declaredLength = Number(req.headers.get('content-length'))
+	if (declaredLength > MAX_REQUEST_BYTES) {
+		throw new ChatRequestError('PAYLOAD_TOO_LARGE', 'Request body is too large', 413)
+	}
+
+	const text = await req.text()
+	if (new TextEncoder().encode(text).length > MAX_REQUEST_BYTES) {
+		throw new ChatRequestError('PAYLOAD_TOO_LARGE', 'Request body is too large', 413)
+	}
+
+	let body: unknown
+	try {
+		body = JSON.parse(text)
+	} catch {
+		throw new ChatRequestError('INVALID_JSON', 'Request body is not valid JSON')
+	}
+
+	return validateChatRequestBody(body)
+}
@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+
+import { DECK_STORAGE_KEY, addToDeck, getDueCards, getSourceHref, loadDeck, reviewCard, saveDeck } from './deck'
+import type { FlashcardDraft } from './generate'
+
+const now = new Date('2025-09-18T10:00:00.000Z')
+
+const drafts: FlashcardDraft[] = [
+	{ question: 'Is every prime odd?', answer: 'No, 2 is prime and even', sourceMessageId: 'u1' },
+	{ question: 'Why is 1 not prime?', answer: 'It has only one divisor', sourceMessageId: 'u2' },
+]
+
+const createStorage = () => {
+	const items = new Map<string, string>()
+	return {
+		getItem: (key: string) => items.get(key) ?? null,
+		setItem: (key: string, value: string) => void items.set(key, value),
+	}
+}
+
+describe('flashcard deck', () => {
+	it('adds new cards due now and skips ones it already has', () => {
+		const { deck, added } = addToDeck([], drafts, 'conv-1', now)
+		const again = addToDeck(deck, [{ ...drafts[0], question: 'is every prime odd? ' }], 'conv-1', now)
+
+		expect(added).toHaveLength(2)
+		expect(added[0]).toMatchObject({ ...drafts[0], conversationId: 'conv-1', createdAt: now.toISOString() })
+		expect(getDueCards(deck, now)).toHaveLength(2)
+		expect(again.added).toEqual([])
+		expect(addToDeck(deck, drafts, 'conv-2', now).added).toHaveLength(2)
+	})
+
+	it('takes reviewed cards out of the queue until they are due', () => {
+		const { deck } = addToDeck([], drafts, 'conv-1', now)
+
+		const reviewed = reviewCard(deck, deck[0].id, 'good', now)
+
+		expect(getDueCards(reviewed, now).map((card) => card.id)).toEqual([deck[1].id])
+		expect(getDueCards(reviewed, new Date('2025-09-19T10:00:00.000Z'))).toHaveLength(2)
+	})
+
+	it('round-trips through storage and ignores unreadable data', () => {
+		const storage = createStorage()
+		const { deck } = addToDeck([], drafts, 'conv-1', now)
+
+		saveDeck(deck, storage)
+		expect(loadDeck(storage)).toEqual(deck)
+
+		storage.setItem(DECK_STORAGE_KEY, '{not json')
+		expect(loadDeck(storage)).toEqual([])
+		expect(loadDeck(null)).toEqual([])
+	})
+
+	it('links each card to the message it came from', () => {
+		expect(getSourceHref({ conversationId: 'conv-1', sourceMessageId: 'u1' })).toBe('/c/conv-1#message-u1')
+	})
+})
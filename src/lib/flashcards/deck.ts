@@ -0,0 +1,90 @@
+import { generateId } from 'ai'
+
+import type { FlashcardDraft } from './generate'
+import { type ReviewGrade, type ReviewState, createReviewState, isDue, scheduleReview } from './schedule'
+
+// The deck lives in the learner's browser; only generation needs the server
+export const DECK_STORAGE_KEY = 'socratic-tutor.flashcards'
+const DECK_VERSION = 1
+
+export interface Flashcard extends FlashcardDraft {
+	id: string
+	conversationId: string
+	createdAt: string
+	review: ReviewState
+}
+
+type DeckStorage = Pick<Storage, 'getItem' | 'setItem'>
+
+const browserStorage = (): DeckStorage | null =>
+	typeof window === 'undefined' ? null : window.localStorage
+
+const isFlashcard = (value: unknown): value is Flashcard => {
+	if (typeof value !== 'object' || value === null) return false
+
+	const card = value as Record<string, unknown>
+	return (
+		typeof card.id === 'string' &&
+		typeof card.conversationId === 'string' &&
+		typeof card.sourceMessageId === 'string' &&
+		typeof card.question === 'string' &&
+		typeof card.answer === 'string' &&
+		typeof card.review === 'object' &&
+		card.review !== null &&
+		typeof (card.review as ReviewState).dueAt === 'string'
+	)
+}
+
+// A missing or unreadable deck is an empty one, so review never breaks
+export function loadDeck(storage = browserStorage()): Flashcard[] {
+	try {
+		const stored = JSON.parse(storage?.getItem(DECK_STORAGE_KEY) ?? 'null')
+		return stored?.version === DECK_VERSION && Array.isArray(stored.cards)
+			? stored.cards.filter(isFlashcard)
+			: []
+	} catch {
+		return []
+	}
+}
+
+export function saveDeck(cards: Flashcard[], storage = browserStorage()) {
+	storage?.setItem(DECK_STORAGE_KEY, JSON.stringify({ version: DECK_VERSION, cards }))
+}
+
+// Generating twice from the same conversation doesn't duplicate cards
+export function addToDeck(
+	deck: Flashcard[],
+	drafts: FlashcardDraft[],
+	conversationId: string,
+	now = new Date()
+): { deck: Flashcard[]; added: Flashcard[] } {
+	const keyOf = (card: FlashcardDraft) => `${card.sourceMessageId}\n${card.question.trim().toLowerCase()}`
+	const existing = new Set(deck.filter((card) => card.conversationId === conversationId).map(keyOf))
+
+	const added: Flashcard[] = []
+	for (const draft of drafts) {
+		if (existing.has(keyOf(draft))) continue
+		existing.add(keyOf(draft))
+		added.push({
+			...draft,
+			id: generateId(),
+			conversationId,
+			createdAt: now.toISOString(),
+			review: createReviewState(now),
+		})
+	}
+	return { deck: [...deck, ...added], added }
+}
+
+// Most overdue first
+export const getDueCards = (deck: Flashcard[], now = new Date()) =>
+	deck
+		.filter((card) => isDue(card.review, now))
+		.sort((a, b) => a.review.dueAt.localeCompare(b.review.dueAt))
+
+export const reviewCard = (deck: Flashcard[], id: string, grade: ReviewGrade, now = new Date()) =>
+	deck.map((card) => (card.id === id ? { ...card, review: scheduleReview(card.review, grade, now) } : card))
+
+// Where a card's source message is, for the link back from review
+export const getSourceHref = (card: Pick<Flashcard, 'conversationId' | 'sourceMessageId'>) =>
+	`/c/${card.conversationId}#message-${card.sourceMessageId}`
@@ -0,0 +1,29 @@
+/**
+ * @jest-environment node
+ */
+
+import { createMockModel } from '@/lib/ai/mock-model'
+import type { ChatUIMessage } from '@/lib/chat/messages'
+import { generateFlashcards, groundFlashcards } from './generate'
+
+const messages: ChatUIMessage[] = [
+	{ id: 'a1', role: 'assistant', parts: [{ type: 'text', text: 'Is every prime odd?' }] },
+	{ id: 'u1', role: 'user', parts: [{ type: 'text', text: 'No, 2 is prime and even.' }] },
+]
+
+describe('flashcard generation', () => {
+	it('keeps only cards drawn from what the learner said', () => {
+		const cards = [
+			{ question: 'Is every prime odd?', answer: 'No, 2 is prime and even', sourceMessageId: 'u1' },
+			{ question: 'What did the tutor ask?', answer: 'Is every prime odd?', sourceMessageId: 'a1' },
+			{ question: 'Made up', answer: 'Made up', sourceMessageId: 'missing' },
+			{ question: ' ', answer: 'Empty question', sourceMessageId: 'u1' },
+		]
+
+		expect(groundFlashcards(cards, messages)).toEqual([cards[0]])
+	})
+
+	it('asks the model for structured cards', async () => {
+		expect(await generateFlashcards({ model: createMockModel(), messages })).toEqual([])
+	})
+})
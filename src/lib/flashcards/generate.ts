@@ -0,0 +1,102 @@
+import { generateObject, jsonSchema, type LanguageModel } from 'ai'
+
+import { type ChatUIMessage, getMessageText } from '@/lib/chat/messages'
+
+const MAX_CARDS = 10
+export const MAX_QUESTION_LENGTH = 200
+export const MAX_ANSWER_LENGTH = 500
+
+// A question/answer pair and the learner message it was drawn from
+export interface FlashcardDraft {
+	question: string
+	answer: string
+	sourceMessageId: string
+}
+
+const isFlashcardDraft = (value: unknown): value is FlashcardDraft => {
+	if (typeof value !== 'object' || value === null) return false
+
+	const { question, answer, sourceMessageId } = value as Record<string, unknown>
+	return (
+		typeof question === 'string' &&
+		question.length <= MAX_QUESTION_LENGTH &&
+		typeof answer === 'string' &&
+		answer.length <= MAX_ANSWER_LENGTH &&
+		typeof sourceMessageId === 'string'
+	)
+}
+
+const isFlashcardList = (value: unknown): value is { cards: FlashcardDraft[] } =>
+	typeof value === 'object' &&
+	value !== null &&
+	Array.isArray((value as { cards?: unknown }).cards) &&
+	(value as { cards: unknown[] }).cards.every(isFlashcardDraft)
+
+const createFlashcardSchema = () =>
+	jsonSchema<{ cards: FlashcardDraft[] }>(
+		{
+			type: 'object',
+			properties: {
+				cards: {
+					type: 'array',
+					maxItems: MAX_CARDS,
+					items: {
+						type: 'object',
+						properties: {
+							question: { type: 'string', maxLength: MAX_QUESTION_LENGTH },
+							answer: { type: 'string', maxLength: MAX_ANSWER_LENGTH },
+							sourceMessageId: { type: 'string' },
+						},
+						required: ['question', 'answer', 'sourceMessageId'],
+						additionalProperties: false,
+					},
+				},
+			},
+			required: ['cards'],
+			additionalProperties: false,
+		},
+		{
+			validate: (value) =>
+				isFlashcardList(value)
+					? { success: true, value }
+					: { success: false, error: new Error('Invalid flashcards') },
+		}
+	)
+
+const FLASHCARD_PROMPT = `You turn a Socratic tutoring session into flashcards for spaced repetition. Make at most ${MAX_CARDS} cards, one per idea the learner worked out.
+- question: a short prompt that makes the learner recall the idea
+- answer: the idea as the learner put it, quoted or closely paraphrased. Leave out anything only the tutor said
+- sourceMessageId: the id of the learner message where they stated it, as shown in brackets`
+
+// The transcript with message ids, so each card can point back to its source
+const formatTranscriptWithIds = (messages: ChatUIMessage[]) =>
+	messages
+		.filter((message) => message.role !== 'system')
+		.map((message) => `[${message.id}] ${message.role === 'user' ? 'Learner' : 'Tutor'}: ${getMessageText(message)}`)
+		.join('\n\n')
+
+// Keeps the cards that cite a learner message from this conversation
+export function groundFlashcards(cards: FlashcardDraft[], messages: ChatUIMessage[]): FlashcardDraft[] {
+	const learnerMessageIds = new Set(
+		messages.filter((message) => message.role === 'user').map((message) => message.id)
+	)
+	return cards.filter(
+		(card) => learnerMessageIds.has(card.sourceMessageId) && card.question.trim() && card.answer.trim()
+	)
+}
+
+export async function generateFlashcards({
+	model,
+	messages,
+}: {
+	model: LanguageModel
+	messages: ChatUIMessage[]
+}): Promise<FlashcardDraft[]> {
+	const { object } = await generateObject({
+		model,
+		schema: createFlashcardSchema(),
+		system: FLASHCARD_PROMPT,
+		prompt: `Conversation:\n${formatTranscriptWithIds(messages)}`,
+	})
+	return groundFlashcards(object.cards, messages)
+}
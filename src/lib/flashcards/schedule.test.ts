@@ -0,0 +1,45 @@
+/**
+ * @jest-environment node
+ */
+
+import { createReviewState, isDue, scheduleReview } from './schedule'
+
+const now = new Date('2025-09-18T10:00:00.000Z')
+const daysLater = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString()
+
+describe('SM-2 schedule', () => {
+	it('starts new cards due straight away', () => {
+		const state = createReviewState(now)
+
+		expect(state).toEqual({ repetitions: 0, interval: 0, easeFactor: 2.5, dueAt: now.toISOString() })
+		expect(isDue(state, now)).toBe(true)
+	})
+
+	it('spaces successful reviews 1 day, 6 days, then by the ease factor', () => {
+		const first = scheduleReview(createReviewState(now), 'good', now)
+		const second = scheduleReview(first, 'good', now)
+		const third = scheduleReview(second, 'good', now)
+
+		expect([first.interval, second.interval, third.interval]).toEqual([1, 6, 15])
+		expect(first.dueAt).toBe(daysLater(1))
+		expect(third.repetitions).toBe(3)
+		expect(isDue(first, now)).toBe(false)
+	})
+
+	it('eases hard cards down and easy cards up', () => {
+		const state = createReviewState(now)
+
+		expect(scheduleReview(state, 'hard', now).easeFactor).toBeCloseTo(2.36)
+		expect(scheduleReview(state, 'good', now).easeFactor).toBeCloseTo(2.5)
+		expect(scheduleReview(state, 'easy', now).easeFactor).toBeCloseTo(2.6)
+	})
+
+	it('starts forgotten cards over and keeps them in this session', () => {
+		const learned = { repetitions: 4, interval: 30, easeFactor: 1.4, dueAt: now.toISOString() }
+
+		const forgotten = scheduleReview(learned, 'again', now)
+
+		expect(forgotten).toMatchObject({ repetitions: 0, interval: 0, easeFactor: 1.3, dueAt: now.toISOString() })
+		expect(scheduleReview(forgotten, 'good', now).interval).toBe(1)
+	})
+})
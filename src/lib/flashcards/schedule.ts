@@ -0,0 +1,62 @@
+// SM-2 spaced repetition: each review stretches or resets the interval and
+// nudges the card's ease factor by how well it was remembered
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+
+export interface ReviewState {
+	// Successful reviews in a row
+	repetitions: number
+	// Days until the card is due again; 0 for cards failed today
+	interval: number
+	easeFactor: number
+	dueAt: string
+	lastReviewedAt?: string
+}
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy']
+
+export const REVIEW_GRADE_LABELS: Record<ReviewGrade, string> = {
+	again: 'Again',
+	hard: 'Hard',
+	good: 'Good',
+	easy: 'Easy',
+}
+
+// SM-2's 0-5 recall quality; anything below 3 counts as forgotten
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 }
+
+const INITIAL_EASE_FACTOR = 2.5
+const MIN_EASE_FACTOR = 1.3
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const createReviewState = (now = new Date()): ReviewState => ({
+	repetitions: 0,
+	interval: 0,
+	easeFactor: INITIAL_EASE_FACTOR,
+	dueAt: now.toISOString(),
+})
+
+export function scheduleReview(state: ReviewState, grade: ReviewGrade, now = new Date()): ReviewState {
+	const quality = GRADE_QUALITY[grade]
+	const easeFactor = Math.max(
+		MIN_EASE_FACTOR,
+		state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+	)
+
+	// Forgotten cards start over and come back in this session
+	if (quality < 3) {
+		return { repetitions: 0, interval: 0, easeFactor, dueAt: now.toISOString(), lastReviewedAt: now.toISOString() }
+	}
+
+	const interval =
+		state.repetitions === 0 ? 1 : state.repetitions === 1 ? 6 : Math.round(state.interval * state.easeFactor)
+	return {
+		repetitions: state.repetitions + 1,
+		interval,
+		easeFactor,
+		dueAt: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+		lastReviewedAt: now.toISOString(),
+	}
+}
+
+export const isDue = (state: ReviewState, now = new Date()) => new Date(state.dueAt).getTime() <= now.getTime()
@@ -0,0 +1,43 @@
+/**
+ * @jest-environment node
+ */
+
+import { containsMath, splitMath } from './math'
+
+describe('splitMath', () => {
+	it('finds inline and display formulas', () => {
+		expect(splitMath('Is $x^2$ even? $$\\sum_i i$$ done')).toEqual([
+			{ type: 'text', value: 'Is ' },
+			{ type: 'math', value: 'x^2', displayMode: false },
+			{ type: 'text', value: ' even? ' },
+			{ type: 'math', value: '\\sum_i i', displayMode: true },
+			{ type: 'text', value: ' done' },
+		])
+	})
+
+	it('keeps prices and unclosed delimiters as text', () => {
+		expect(splitMath('It costs $5 and $10')).toEqual([
+			{ type: 'text', value: 'It costs $5 and $10' },
+		])
+		expect(splitMath('What about $x^2')).toEqual([{ type: 'text', value: 'What about $x^2' }])
+		expect(splitMath('$$\\frac{a}{')).toEqual([{ type: 'text', value: '$$\\frac{a}{' }])
+	})
+
+	it('treats escaped dollars as literal', () => {
+		expect(splitMath('\\$x\\$')).toEqual([{ type: 'text', value: '$x$' }])
+	})
+
+	it('lets display formulas span lines', () => {
+		expect(splitMath('$$\na + b\n$$')).toEqual([
+			{ type: 'math', value: 'a + b', displayMode: true },
+		])
+	})
+})
+
+describe('containsMath', () => {
+	it('detects formulas', () => {
+		expect(containsMath('Let $n > 1$')).toBe(true)
+		expect(containsMath('That costs $3')).toBe(false)
+		expect(containsMath('No math here')).toBe(false)
+	})
+})
@@ -0,0 +1,87 @@
+export type MathSegment =
+	| { type: 'text'; value: string }
+	| { type: 'math'; value: string; displayMode: boolean }
+
+// Pandoc's rules for single dollars keep prices like "$5 and $10" as text:
+// no space just inside the delimiters and no digit right after the closing one
+const INLINE_MATH = /^\$(?=\S)((?:\\.|[^$\\\n])*?\S)\$(?!\d)/
+const DISPLAY_MATH = /^\$\$([\s\S]+?)\$\$/
+
+// Splits plain text, e.g. what a learner typed, into text and TeX segments.
+// Unclosed delimiters and `\$` stay literal.
+export function splitMath(text: string): MathSegment[] {
+	const segments: MathSegment[] = []
+	let buffer = ''
+	let index = 0
+
+	const flush = () => {
+		if (buffer) segments.push({ type: 'text', value: buffer })
+		buffer = ''
+	}
+
+	while (index < text.length) {
+		const rest = text.slice(index)
+
+		if (rest.startsWith('\\$')) {
+			buffer += '$'
+			index += 2
+			continue
+		}
+
+		if (rest[0] === '$') {
+			const display = rest.match(DISPLAY_MATH)
+			const inline = display ? null : rest.match(INLINE_MATH)
+			const match = display ?? inline
+
+			if (match && match[1].trim()) {
+				flush()
+				segments.push({ type: 'math', value: match[1].trim(), displayMode: !!display })
+				index += match[0].length
+				continue
+			}
+		}
+
+		buffer += text[index]
+		index += 1
+	}
+
+	flush()
+	return segments
+}
+
+export function containsMath(text: string): boolean {
+	return text.includes('$') && splitMath(text).some((segment) => segment.type === 'math')
+}
+
+// The parts of a Markdown syntax tree the plugin below looks at
+interface MarkdownNode {
+	type: string
+	value?: string
+	children?: MarkdownNode[]
+	position?: { start: { offset?: number }; end: { offset?: number } }
+}
+
+// remark-math pairs single dollars the way code spans pair backticks. This
+// remark plugin holds its inline formulas to the rules above, so "$5 and $10"
+// in a tutor reply stays text just as it does in a learner's message.
+export const remarkPandocMath = () => (tree: MarkdownNode, file: { value: unknown }) => {
+	const source = String(file.value)
+
+	const visit = (node: MarkdownNode) => {
+		node.children?.forEach((child, index, children) => {
+			const start = child.position?.start.offset
+			const end = child.position?.end.offset
+			if (child.type !== 'inlineMath' || start === undefined || end === undefined) {
+				return visit(child)
+			}
+
+			const raw = source.slice(start, end)
+			if (raw.startsWith('$$')) return
+			// The character after the closing dollar counts too
+			if ((raw + source.charAt(end)).match(INLINE_MATH)?.[0].length !== raw.length) {
+				children[index] = { type: 'text', value: raw }
+			}
+		})
+	}
+	visit(tree)
+}
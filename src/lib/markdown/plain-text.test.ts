@@ -0,0 +1,32 @@
+/**
+ * @jest-environment node
+ */
+
+import { isPlainText } from './plain-text'
+
+describe('isPlainText', () => {
+	it.each([
+		'What do you mean by justice?',
+		'Is that always true, even for a tyrant?',
+		'Good. Now, what follows from it?',
+	])('accepts prose: %s', (text) => {
+		expect(isPlainText(text)).toBe(true)
+	})
+
+	it.each([
+		'That is **key**',
+		'Use `x` here',
+		'See [this](https://example.com)',
+		'https://example.com',
+		'- a list item',
+		'1. first',
+		'# Heading',
+		'First paragraph\n\nSecond',
+		'| a | b |',
+		'<b>html</b>',
+		'Is $x$ positive?',
+		'    indented code',
+	])('rejects markdown: %s', (text) => {
+		expect(isPlainText(text)).toBe(false)
+	})
+})
@@ -0,0 +1,9 @@
+// Anything Markdown (with GFM) could turn into markup: emphasis, code, links,
+// tables, HTML, entities, math, autolinks, list markers and multi-line structure
+const MARKDOWN_SYNTAX = /[\\`*_~#[\]|<>&$]|https?:|www\.|\n|^\s*([-+]|\d+[.)])(\s|$)|^( {4}|\t)/
+
+// True when rendering `text` as Markdown would give a single plain paragraph,
+// so callers can skip the parser for the many short conversational replies
+export function isPlainText(text: string): boolean {
+	return !MARKDOWN_SYNTAX.test(text)
+}
@@ -0,0 +1,43 @@
+/**
+ * @jest-environment node
+ */
+
+import { prepareStreamingMarkdown } from './streaming'
+
+describe('prepareStreamingMarkdown', () => {
+	it('leaves complete markdown alone', () => {
+		const markdown = 'Consider:\n\n```python\nprint(1)\n```\n\nWhat happens?'
+
+		expect(prepareStreamingMarkdown(markdown)).toBe(markdown)
+	})
+
+	it('closes a fence that is still streaming', () => {
+		expect(prepareStreamingMarkdown('Try this:\n\n```js\nconst x =')).toBe(
+			'Try this:\n\n```js\nconst x =\n```'
+		)
+	})
+
+	it('matches the opening fence character and length', () => {
+		expect(prepareStreamingMarkdown('````md\n```\nnested')).toBe('````md\n```\nnested\n````')
+		expect(prepareStreamingMarkdown('~~~\ncode\n')).toBe('~~~\ncode\n~~~')
+	})
+
+	it('ignores inline code spans', () => {
+		expect(prepareStreamingMarkdown('Use ```x``` sparingly')).toBe('Use ```x``` sparingly')
+	})
+
+	it('holds back an unterminated display formula', () => {
+		expect(prepareStreamingMarkdown('So:\n\n$$\n\\frac{a}{')).toBe('So:\n')
+		expect(prepareStreamingMarkdown('So:\n\n$$\nx^2\n$$\n\nThus')).toBe(
+			'So:\n\n$$\nx^2\n$$\n\nThus'
+		)
+	})
+
+	it('ignores dollar fences inside code blocks', () => {
+		expect(prepareStreamingMarkdown('```\n$$\n')).toBe('```\n$$\n```')
+	})
+
+	it('handles several blocks', () => {
+		expect(prepareStreamingMarkdown('```\na\n```\ntext\n```\nb')).toBe('```\na\n```\ntext\n```\nb\n```')
+	})
+})
@@ -0,0 +1,42 @@
+const CODE_FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})(.*)$/
+const MATH_FENCE_PATTERN = /^ {0,3}(\${2,})([^$]*)$/
+
+const isClosingFence = (fence: string, openFence: string, rest: string) =>
+	fence[0] === openFence[0] && fence.length >= openFence.length && !rest.trim()
+
+// A reply that is still streaming may stop inside a block. An unterminated
+// code fence is closed, so the partial code stays rendered as code instead of
+// flashing as paragraphs; an unterminated `$$` formula is held back until it
+// is complete, since half a formula is rarely valid TeX.
+export function prepareStreamingMarkdown(markdown: string): string {
+	const lines = markdown.split('\n')
+	let openFence: string | null = null
+	let openMath: { fence: string; line: number } | null = null
+
+	for (const [index, line] of lines.entries()) {
+		if (openMath) {
+			const match = line.match(MATH_FENCE_PATTERN)
+			if (match && isClosingFence(match[1], openMath.fence, match[2])) openMath = null
+			continue
+		}
+
+		const codeMatch = line.match(CODE_FENCE_PATTERN)
+		if (codeMatch) {
+			const [, fence, rest] = codeMatch
+			if (!openFence) {
+				// Backtick fences can't have backticks in their info string
+				if (fence[0] !== '`' || !rest.includes('`')) openFence = fence
+			} else if (isClosingFence(fence, openFence, rest)) {
+				openFence = null
+			}
+			continue
+		}
+
+		const mathMatch = !openFence && line.match(MATH_FENCE_PATTERN)
+		if (mathMatch) openMath = { fence: mathMatch[1], line: index }
+	}
+
+	if (openMath) return lines.slice(0, openMath.line).join('\n')
+	if (openFence) return `${markdown}${markdown.endsWith('\n') ? '' : '\n'}${openFence}`
+	return markdown
+}
@@ -0,0 +1,157 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import type { LanguageModel } from 'ai'
+
+import { MemoryRateLimitStore } from './rate-limit-store'
+import { RateLimiter, type RateLimitOptions } from './rate-limiter'
+import { withUsageReporting } from '@/lib/ai/usage'
+import { chatErrorResponse } from '@/lib/chat/errors'
+
+export * from './rate-limit-store'
+export * from './rate-limiter'
+
+export const SESSION_COOKIE = 'tutor_session'
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/
+
+export const DEFAULT_RATE_LIMIT_OPTIONS: RateLimitOptions = {
+	burst: 5,
+	requestsPerMinute: 10,
+	dailyTokenQuota: 200_000,
+}
+
+// A bucket needs room for one request and some refill; a daily quota of 0
+// turns the quota off
+const parseLimit = (value: string | undefined, fallback: number, isValid = (limit: number) => limit > 0) =>
+	value !== undefined && value !== '' && Number.isFinite(Number(value)) && isValid(Number(value))
+		? Number(value)
+		: fallback
+
+export function getRateLimitOptionsFromEnv(): RateLimitOptions {
+	return {
+		burst: parseLimit(process.env.RATE_LIMIT_BURST, DEFAULT_RATE_LIMIT_OPTIONS.burst, (limit) => limit >= 1),
+		requestsPerMinute: parseLimit(
+			process.env.RATE_LIMIT_REQUESTS_PER_MINUTE,
+			DEFAULT_RATE_LIMIT_OPTIONS.requestsPerMinute
+		),
+		dailyTokenQuota: parseLimit(
+			process.env.RATE_LIMIT_DAILY_TOKENS,
+			DEFAULT_RATE_LIMIT_OPTIONS.dailyTokenQuota,
+			(limit) => limit >= 0
+		),
+	}
+}
+
+let rateLimiter: RateLimiter | null = null
+
+// Swap the store here (e.g. Redis) when running more than one instance
+export function getRateLimiter(): RateLimiter {
+	if (!rateLimiter) {
+		rateLimiter = new RateLimiter(new MemoryRateLimitStore(), getRateLimitOptionsFromEnv())
+	}
+	return rateLimiter
+}
+
+export function setRateLimiter(limiter: RateLimiter | null) {
+	rateLimiter = limiter
+}
+
+// Without SESSION_SECRET, sessions only last as long as the process
+const fallbackSecret = randomBytes(32).toString('hex')
+
+// Session ids are signed, so a client can't make up a fresh one, and with it
+// fresh limits, on every request
+const signSessionId = (sessionId: string) =>
+	createHmac('sha256', process.env.SESSION_SECRET || fallbackSecret).update(sessionId).digest('base64url')
+
+const isSignedBy = (sessionId: string, signature: string) => {
+	const expected = Buffer.from(signSessionId(sessionId))
+	const actual = Buffer.from(signature)
+	return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+export function getSessionId(req: Request): string | null {
+	const cookies = req.headers.get('cookie') ?? ''
+	for (const cookie of cookies.split(';')) {
+		const [name, ...value] = cookie.trim().split('=')
+		if (name !== SESSION_COOKIE) continue
+
+		const [sessionId, signature = ''] = value.join('=').split('.')
+		if (SESSION_ID_PATTERN.test(sessionId) && isSignedBy(sessionId, signature)) {
+			return sessionId
+		}
+	}
+	return null
+}
+
+export const sessionCookie = (sessionId: string) =>
+	`${SESSION_COOKIE}=${sessionId}.${signSessionId(sessionId)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=31536000`
+
+// TRUST_PROXY_HOPS: how many proxies in front of the app append to
+// X-Forwarded-For. The client's address is the one the outermost of them
+// added; anything further left is whatever the client sent.
+const getClientAddress = (req: Request): string | null => {
+	const hops = Number(process.env.TRUST_PROXY_HOPS)
+	if (!Number.isInteger(hops) || hops <= 0) return null
+
+	const forwardedFor = (req.headers.get('x-forwarded-for') ?? '')
+		.split(',')
+		.map((address) => address.trim())
+		.filter(Boolean)
+	return forwardedFor[forwardedFor.length - hops] ?? null
+}
+
+// Browsers are limited per session; clients that don't keep cookies fall
+// back to their address when a trusted proxy reports it, or share one limit.
+// Neither is something the client can reset.
+export function getRateLimitKey(req: Request, sessionId = getSessionId(req)): string {
+	if (sessionId) return `session:${sessionId}`
+
+	const ip = getClientAddress(req)
+	return ip ? `ip:${ip}` : 'anonymous'
+}
+
+export interface RequestLimit {
+	// To send with the response, e.g. the session cookie of a new client
+	headers: Record<string, string>
+	// The same model, charging every call made with it against the client's
+	// daily quota: checks and summaries as well as the reply
+	charge: (model: LanguageModel) => LanguageModel
+}
+
+// Takes one request from the client's allowance. Routes that call a model
+// return the 429 response as is, or charge the model they go on to use.
+export async function limitRequest(req: Request): Promise<Response | RequestLimit> {
+	const limiter = getRateLimiter()
+	const sessionId = getSessionId(req)
+	const key = getRateLimitKey(req, sessionId)
+
+	// A new client is handed a session even when this request is turned away,
+	// so a spent shared limit can't keep a browser from ever getting one.
+	// Sessions come out of a bucket of their own, per address or shared, so
+	// dropping the cookie buys fresh limits no faster than requests are allowed.
+	const headers: Record<string, string> = {}
+	if (!sessionId && (await limiter.consume(`new-session:${key}`)).allowed) {
+		headers['Set-Cookie'] = sessionCookie(randomUUID())
+	}
+
+	const limit = await limiter.consume(key)
+	if (!limit.allowed) {
+		const response =
+			limit.reason === 'quota'
+				? chatErrorResponse('QUOTA_EXCEEDED', 'Daily token quota exceeded', 429, limit.retryAfterSeconds)
+				: chatErrorResponse('RATE_LIMITED', 'Too many requests', 429, limit.retryAfterSeconds)
+		for (const [name, value] of Object.entries(headers)) response.headers.set(name, value)
+		return response
+	}
+
+	return {
+		headers,
+		charge: (model) =>
+			withUsageReporting(model, async (tokens) => {
+				try {
+					await limiter.recordUsage(key, tokens)
+				} catch (error) {
+					console.error('Error recording token usage:', error)
+				}
+			}),
+	}
+}
@@ -0,0 +1,42 @@
+// Limiter state lives behind this so deployments with several instances can
+// share it (Redis, a KV store, ...) instead of counting per process
+export interface RateLimitStore {
+	get<T>(key: string): Promise<T | null>
+	// Backends may drop a key once `ttlMs` passes without a write
+	set<T>(key: string, value: T, ttlMs: number): Promise<void>
+}
+
+interface MemoryEntry {
+	value: unknown
+	expiresAt: number
+}
+
+const SWEEP_THRESHOLD = 10_000
+
+// Per-process state; fine for a single instance, reset on restart
+export class MemoryRateLimitStore implements RateLimitStore {
+	private entries = new Map<string, MemoryEntry>()
+
+	async get<T>(key: string): Promise<T | null> {
+		const entry = this.entries.get(key)
+		if (!entry) return null
+		if (entry.expiresAt <= Date.now()) {
+			this.entries.delete(key)
+			return null
+		}
+		return entry.value as T
+	}
+
+	async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+		if (this.entries.size >= SWEEP_THRESHOLD) this.sweep()
+		this.entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+	}
+
+	// Keys from one-off visitors would otherwise pile up forever
+	private sweep() {
+		const now = Date.now()
+		for (const [key, entry] of this.entries) {
+			if (entry.expiresAt <= now) this.entries.delete(key)
+		}
+	}
+}
@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+
+import { MemoryRateLimitStore } from './rate-limit-store'
+import { RateLimiter } from './rate-limiter'
+import { DEFAULT_RATE_LIMIT_OPTIONS, getRateLimitOptionsFromEnv } from './index'
+
+const NOON = Date.parse('2025-09-18T12:00:00.000Z')
+
+const createLimiter = (dailyTokenQuota = 0) =>
+	new RateLimiter(new MemoryRateLimitStore(), { burst: 2, requestsPerMinute: 6, dailyTokenQuota })
+
+describe('RateLimiter', () => {
+	it('allows a burst, then asks the client to wait for a refill', async () => {
+		const limiter = createLimiter()
+
+		expect(await limiter.consume('a', NOON)).toEqual({ allowed: true })
+		expect(await limiter.consume('a', NOON)).toEqual({ allowed: true })
+		expect(await limiter.consume('a', NOON)).toEqual({
+			allowed: false,
+			reason: 'rate',
+			retryAfterSeconds: 10,
+		})
+	})
+
+	it('refills at the sustained rate', async () => {
+		const limiter = createLimiter()
+		await limiter.consume('a', NOON)
+		await limiter.consume('a', NOON)
+
+		expect(await limiter.consume('a', NOON + 4_000)).toMatchObject({ retryAfterSeconds: 6 })
+		expect(await limiter.consume('a', NOON + 10_000)).toEqual({ allowed: true })
+	})
+
+	it('keeps clients apart', async () => {
+		const limiter = createLimiter()
+		await limiter.consume('a', NOON)
+		await limiter.consume('a', NOON)
+
+		expect(await limiter.consume('b', NOON)).toEqual({ allowed: true })
+	})
+
+	it('does not let concurrent requests share the last token', async () => {
+		const limiter = createLimiter()
+		const results = await Promise.all([1, 2, 3].map(() => limiter.consume('a', NOON)))
+
+		expect(results.filter((result) => result.allowed)).toHaveLength(2)
+	})
+
+	it('blocks a client for the rest of the UTC day once its quota is spent', async () => {
+		const limiter = createLimiter(1000)
+		await limiter.recordUsage('a', 600, NOON)
+		expect(await limiter.consume('a', NOON)).toEqual({ allowed: true })
+
+		await limiter.recordUsage('a', 500, NOON)
+		expect(await limiter.consume('a', NOON)).toEqual({
+			allowed: false,
+			reason: 'quota',
+			retryAfterSeconds: 12 * 60 * 60,
+		})
+	})
+
+	it('starts a fresh quota the next day', async () => {
+		const limiter = createLimiter(1000)
+		await limiter.recordUsage('a', 1000, NOON)
+
+		expect(await limiter.consume('a', NOON + 24 * 60 * 60 * 1000)).toEqual({ allowed: true })
+	})
+})
+
+describe('getRateLimitOptionsFromEnv', () => {
+	const originalEnv = process.env
+
+	afterEach(() => {
+		process.env = originalEnv
+	})
+
+	it('falls back to the defaults for limits that would never refill', () => {
+		process.env = {
+			...originalEnv,
+			RATE_LIMIT_BURST: '0',
+			RATE_LIMIT_REQUESTS_PER_MINUTE: '0',
+			RATE_LIMIT_DAILY_TOKENS: '-5',
+		}
+
+		expect(getRateLimitOptionsFromEnv()).toEqual(DEFAULT_RATE_LIMIT_OPTIONS)
+	})
+
+	it('takes a daily quota of 0 as turning the quota off', () => {
+		process.env = { ...originalEnv, RATE_LIMIT_REQUESTS_PER_MINUTE: '30', RATE_LIMIT_DAILY_TOKENS: '0' }
+
+		expect(getRateLimitOptionsFromEnv()).toEqual({ ...DEFAULT_RATE_LIMIT_OPTIONS, requestsPerMinute: 30, dailyTokenQuota: 0 })
+	})
+})
@@ -0,0 +1,90 @@
+import type { RateLimitStore } from './rate-limit-store'
+import { createKeyedLock } from '@/lib/storage/helpers'
+
+export interface RateLimitOptions {
+	// Requests a client may send back to back
+	burst: number
+	// Sustained rate the burst allowance refills at
+	requestsPerMinute: number
+	// Model tokens (prompt + completion) a client may use per UTC day; 0 disables
+	dailyTokenQuota: number
+}
+
+export type RateLimitResult =
+	| { allowed: true }
+	| { allowed: false; reason: 'rate' | 'quota'; retryAfterSeconds: number }
+
+interface TokenBucket {
+	tokens: number
+	updatedAt: number
+}
+
+interface DailyUsage {
+	day: string
+	tokens: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const utcDay = (now: number) => new Date(now).toISOString().slice(0, 10)
+const msUntilNextUtcDay = (now: number) => DAY_MS - (now % DAY_MS)
+
+// A token bucket per client for request bursts, plus a daily budget of
+// model tokens that is charged once each reply finishes
+export class RateLimiter {
+	// Serializes read-modify-write per client so concurrent requests can't
+	// both spend the last token
+	private withLock = createKeyedLock()
+
+	constructor(
+		private store: RateLimitStore,
+		private options: RateLimitOptions
+	) {}
+
+	// Takes one request from the client's allowance, unless it is exhausted
+	async consume(key: string, now = Date.now()): Promise<RateLimitResult> {
+		return this.withLock(key, async () => {
+			const { burst, requestsPerMinute, dailyTokenQuota } = this.options
+
+			if (dailyTokenQuota > 0) {
+				const usage = await this.store.get<DailyUsage>(`usage:${key}`)
+				if (usage?.day === utcDay(now) && usage.tokens >= dailyTokenQuota) {
+					return {
+						allowed: false,
+						reason: 'quota',
+						retryAfterSeconds: Math.ceil(msUntilNextUtcDay(now) / 1000),
+					}
+				}
+			}
+
+			const refillPerMs = requestsPerMinute / 60_000
+			const bucket = await this.store.get<TokenBucket>(`bucket:${key}`)
+			const elapsed = bucket ? Math.max(now - bucket.updatedAt, 0) : 0
+			const tokens = bucket ? Math.min(burst, bucket.tokens + elapsed * refillPerMs) : burst
+
+			if (tokens < 1) {
+				return {
+					allowed: false,
+					reason: 'rate',
+					retryAfterSeconds: Math.ceil((1 - tokens) / refillPerMs / 1000),
+				}
+			}
+
+			// Kept until the bucket would be full again anyway
+			const ttlMs = Math.ceil(burst / refillPerMs)
+			await this.store.set<TokenBucket>(`bucket:${key}`, { tokens: tokens - 1, updatedAt: now }, ttlMs)
+			return { allowed: true }
+		})
+	}
+
+	async recordUsage(key: string, tokens: number, now = Date.now()): Promise<void> {
+		if (this.options.dailyTokenQuota <= 0 || !(tokens > 0)) return
+
+		await this.withLock(key, async () => {
+			const day = utcDay(now)
+			const usage = await this.store.get<DailyUsage>(`usage:${key}`)
+			const total = (usage?.day === day ? usage.tokens : 0) + tokens
+			await this.store.set<DailyUsage>(`usage:${key}`, { day, tokens: total }, msUntilNextUtcDay(now))
+		})
+	}
+}
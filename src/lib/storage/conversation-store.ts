@@ -0,0 +1,126 @@
+import { type ChatUIMessage, getMessageText } from '@/lib/chat/messages'
+import type { ContextSummary } from '@/lib/chat/context-window'
+import type { ConversationTree } from '@/lib/chat/conversation-tree'
+import type { LearningProgress, SavedLearningProgress } from '@/lib/chat/learning'
+
+export interface StoredConversation {
+	id: string
+	title: string
+	createdAt: string
+	updatedAt: string
+	// The active branch, i.e. what the learner currently sees
+	messages: ChatUIMessage[]
+	// Every branch, including the ones left behind by edits
+	tree: ConversationTree
+	// Summaries of older turns the server made for long sessions, newest last.
+	// Only the server writes them; clients can't change what goes in a prompt.
+	contextSummaries?: ContextSummary[]
+	// The server's assessments against the learning objective, newest last
+	learningProgress?: SavedLearningProgress[]
+}
+
+export type ConversationSummary = Omit<
+	StoredConversation,
+	'messages' | 'tree' | 'contextSummaries' | 'learningProgress'
+> & {
+	messageCount: number
+}
+
+export type ConversationSearchResult = ConversationSummary & {
+	// Excerpt of the first matching message, if the match wasn't in the title
+	snippet?: string
+}
+
+export interface CreateConversationInput {
+	id?: string
+	title?: string
+	messages?: ChatUIMessage[]
+}
+
+// Storage backends (file, SQLite, ...) implement this so routes stay unchanged
+export interface ConversationStore {
+	// Sorted by last activity, most recent first
+	list(): Promise<ConversationSummary[]>
+	// Case-insensitive match on titles and message text
+	search(query: string): Promise<ConversationSearchResult[]>
+	get(id: string): Promise<StoredConversation | null>
+	create(input?: CreateConversationInput): Promise<StoredConversation>
+	// Makes `messages` the active branch, merging it into the tree so earlier
+	// branches are kept. Creates the conversation if it doesn't exist yet.
+	saveMessages(id: string, messages: ChatUIMessage[]): Promise<StoredConversation>
+	// Keeps a summary for later requests, replacing one that ends at the same
+	// message. No-op for unknown conversations.
+	saveContextSummary(id: string, summary: ContextSummary): Promise<void>
+	// Keeps the assessment made after reply `messageId`, likewise
+	saveLearningProgress(id: string, messageId: string, progress: LearningProgress): Promise<void>
+	rename(id: string, title: string): Promise<StoredConversation | null>
+	delete(id: string): Promise<boolean>
+}
+
+export class ConversationStoreError extends Error {
+	constructor(message: string, public status: number) {
+		super(message)
+		this.name = 'ConversationStoreError'
+	}
+}
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation'
+export const MAX_TITLE_LENGTH = 80
+// Older ones are dropped; a branch that lost its summary is summarized
+// again, one that lost its assessment is assessed from scratch
+export const MAX_CONTEXT_SUMMARIES = 20
+export const MAX_LEARNING_PROGRESS = 20
+
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/
+
+export function isValidConversationId(id: unknown): id is string {
+	return typeof id === 'string' && CONVERSATION_ID_PATTERN.test(id)
+}
+
+export function toConversationSummary({
+	id,
+	title,
+	createdAt,
+	updatedAt,
+	messages,
+}: StoredConversation): ConversationSummary {
+	return { id, title, createdAt, updatedAt, messageCount: messages.length }
+}
+
+// Titles a conversation after the learner's opening message
+export function deriveConversationTitle(messages: ChatUIMessage[]): string {
+	const firstUserMessage = messages.find((message) => message.role === 'user')
+	const text = firstUserMessage ? getMessageText(firstUserMessage) : ''
+	const title = text.replace(/\s+/g, ' ').trim()
+
+	if (!title) return DEFAULT_CONVERSATION_TITLE
+	if (title.length <= MAX_TITLE_LENGTH) return title
+	return `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+}
+
+const SNIPPET_RADIUS = 40
+
+export function matchConversation(
+	conversation: StoredConversation,
+	query: string
+): ConversationSearchResult | null {
+	const needle = query.trim().toLowerCase()
+	if (!needle) return toConversationSummary(conversation)
+
+	if (conversation.title.toLowerCase().includes(needle)) {
+		return toConversationSummary(conversation)
+	}
+
+	for (const message of conversation.messages) {
+		const text = getMessageText(message).replace(/\s+/g, ' ')
+		const index = text.toLowerCase().indexOf(needle)
+		if (index === -1) continue
+
+		const start = Math.max(index - SNIPPET_RADIUS, 0)
+		const end = Math.min(index + needle.length + SNIPPET_RADIUS, text.length)
+		const snippet = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+		return { ...toConversationSummary(conversation), snippet }
+	}
+
+	return null
+}
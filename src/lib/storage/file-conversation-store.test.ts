@@ -0,0 +1,217 @@
+/**
+ * @jest-environment node
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { FileConversationStore } from './file-conversation-store'
+import { ConversationStoreError } from './conversation-store'
+import type { ChatUIMessage } from '@/lib/chat/messages'
+
+const userMessage = (id: string, text: string): ChatUIMessage => ({
+	id,
+	role: 'user',
+	parts: [{ type: 'text', text }],
+	metadata: { createdAt: '2025-09-18T10:00:00.000Z' },
+})
+
+describe('FileConversationStore', () => {
+	let directory: string
+	let store: FileConversationStore
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), 'conversations-'))
+		store = new FileConversationStore(directory)
+	})
+
+	afterEach(async () => {
+		await fs.rm(directory, { recursive: true, force: true })
+	})
+
+	it('returns an empty list before anything is stored', async () => {
+		await fs.rm(directory, { recursive: true, force: true })
+
+		expect(await store.list()).toEqual([])
+	})
+
+	it('creates and reads back a conversation', async () => {
+		const created = await store.create({
+			id: 'conv-1',
+			messages: [userMessage('m1', 'What is virtue?')],
+		})
+
+		expect(created.title).toBe('What is virtue?')
+		expect(await store.get('conv-1')).toEqual(created)
+	})
+
+	it('generates an id when none is given', async () => {
+		const created = await store.create()
+
+		expect(created.id).toEqual(expect.any(String))
+		expect(await store.get(created.id)).not.toBeNull()
+	})
+
+	it('rejects creating a conversation that already exists', async () => {
+		await store.create({ id: 'conv-1' })
+
+		await expect(store.create({ id: 'conv-1' })).rejects.toMatchObject({ status: 409 })
+	})
+
+	it('returns null for unknown conversations', async () => {
+		expect(await store.get('missing')).toBeNull()
+	})
+
+	it('upserts messages and keeps the creation date', async () => {
+		const first = await store.saveMessages('conv-1', [userMessage('m1', 'Hi')])
+		const second = await store.saveMessages('conv-1', [
+			userMessage('m1', 'Hi'),
+			userMessage('m2', 'Still there?'),
+		])
+
+		expect(second.createdAt).toBe(first.createdAt)
+		expect(second.messages).toHaveLength(2)
+		expect((await store.get('conv-1'))?.messages).toHaveLength(2)
+	})
+
+	it('keeps earlier branches when an edited path is saved', async () => {
+		await store.saveMessages('conv-1', [userMessage('m1', 'Hi'), userMessage('m2', 'First try')])
+		const saved = await store.saveMessages('conv-1', [
+			userMessage('m1', 'Hi'),
+			userMessage('m2b', 'Second try'),
+		])
+
+		expect(saved.messages.map((message) => message.id)).toEqual(['m1', 'm2b'])
+		expect(saved.tree.nodes.m1.childIds).toEqual(['m2', 'm2b'])
+	})
+
+	it('keeps context summaries across saves, newest last', async () => {
+		const summary = (throughMessageId: string, text: string) => ({
+			text,
+			claims: [],
+			throughMessageId,
+			summarizedCount: 1,
+		})
+		await store.saveContextSummary('missing', summary('m1', 'Nowhere'))
+		expect(await store.get('missing')).toBeNull()
+
+		await store.saveMessages('conv-1', [userMessage('m1', 'Hi'), userMessage('m2', 'Still there?')])
+		await store.saveContextSummary('conv-1', summary('m1', 'First'))
+		await store.saveContextSummary('conv-1', summary('m2', 'Second'))
+		await store.saveContextSummary('conv-1', summary('m1', 'First, again'))
+		await store.saveMessages('conv-1', [userMessage('m1', 'Hi')])
+
+		const saved = await store.get('conv-1')
+		expect(saved?.contextSummaries?.map((item) => item.text)).toEqual(['Second', 'First, again'])
+	})
+
+	it('keeps one progress assessment per reply', async () => {
+		const progress = (misconception: string) => ({ subGoals: [], misconceptions: [misconception] })
+		await store.saveMessages('conv-1', [userMessage('m1', 'Hi')])
+		await store.saveLearningProgress('conv-1', 'a1', progress('First'))
+		await store.saveLearningProgress('conv-1', 'a2', progress('Second'))
+		await store.saveLearningProgress('conv-1', 'a1', progress('First, again'))
+		await store.saveMessages('conv-1', [userMessage('m1', 'Hi')])
+
+		const saved = await store.get('conv-1')
+		expect(saved?.learningProgress).toEqual([
+			{ messageId: 'a2', progress: progress('Second') },
+			{ messageId: 'a1', progress: progress('First, again') },
+		])
+	})
+
+	it('builds a tree for conversations saved without one', async () => {
+		await fs.writeFile(
+			path.join(directory, 'legacy.json'),
+			JSON.stringify({
+				id: 'legacy',
+				title: 'Legacy',
+				createdAt: '2025-09-18T10:00:00.000Z',
+				updatedAt: '2025-09-18T10:00:00.000Z',
+				messages: [userMessage('m1', 'Hi')],
+			})
+		)
+
+		expect((await store.get('legacy'))?.tree.rootIds).toEqual(['m1'])
+	})
+
+	it('serializes concurrent saves to the same conversation', async () => {
+		await Promise.all(
+			Array.from({ length: 10 }, (_, i) =>
+				store.saveMessages('conv-1', [userMessage(`m${i}`, `Message ${i}`)])
+			)
+		)
+
+		const stored = await store.get('conv-1')
+		expect(stored?.messages).toHaveLength(1)
+		expect((await fs.readdir(directory)).filter((name) => name.endsWith('.tmp'))).toEqual([])
+	})
+
+	it('lists summaries sorted by last activity', async () => {
+		await store.saveMessages('older', [userMessage('m1', 'One')])
+		await new Promise((resolve) => setTimeout(resolve, 5))
+		await store.saveMessages('newer', [userMessage('m1', 'One'), userMessage('m2', 'Two')])
+
+		const summaries = await store.list()
+
+		expect(summaries.map((summary) => summary.id)).toEqual(['newer', 'older'])
+		expect(summaries[0]).toEqual(
+			expect.objectContaining({ messageCount: 2, title: 'One' })
+		)
+		expect(summaries[0]).not.toHaveProperty('messages')
+	})
+
+	it('auto-titles from the first user message until renamed', async () => {
+		const empty = await store.create({ id: 'conv-1' })
+		expect(empty.title).toBe('New conversation')
+
+		const titled = await store.saveMessages('conv-1', [userMessage('m1', 'Can machines think?')])
+		expect(titled.title).toBe('Can machines think?')
+
+		await store.rename('conv-1', 'Turing test')
+		const renamed = await store.saveMessages('conv-1', [userMessage('m1', 'Something else')])
+		expect(renamed.title).toBe('Turing test')
+	})
+
+	it('truncates long auto-titles', async () => {
+		const created = await store.create({ messages: [userMessage('m1', 'word '.repeat(40))] })
+
+		expect(created.title.length).toBeLessThanOrEqual(80)
+		expect(created.title.endsWith('…')).toBe(true)
+	})
+
+	it('returns null when renaming an unknown conversation', async () => {
+		expect(await store.rename('missing', 'Title')).toBeNull()
+	})
+
+	it('searches titles and message text case-insensitively', async () => {
+		await store.create({ id: 'by-title', title: 'Courage and fear' })
+		await store.saveMessages('by-message', [
+			userMessage('m1', 'Tell me about virtue'),
+			userMessage('m2', 'Is courage a kind of knowledge?'),
+		])
+		await store.create({ id: 'unrelated', title: 'Geometry' })
+
+		const results = await store.search('COURAGE')
+
+		expect(results.map((result) => result.id).sort()).toEqual(['by-message', 'by-title'])
+		expect(results.find((result) => result.id === 'by-title')?.snippet).toBeUndefined()
+		expect(results.find((result) => result.id === 'by-message')?.snippet).toBe(
+			'Is courage a kind of knowledge?'
+		)
+	})
+
+	it('deletes conversations', async () => {
+		await store.create({ id: 'conv-1' })
+
+		expect(await store.delete('conv-1')).toBe(true)
+		expect(await store.delete('conv-1')).toBe(false)
+		expect(await store.get('conv-1')).toBeNull()
+	})
+
+	it('rejects ids that could escape the storage directory', async () => {
+		await expect(store.get('../secrets')).rejects.toBeInstanceOf(ConversationStoreError)
+		await expect(store.saveMessages('a/b', [])).rejects.toMatchObject({ status: 400 })
+	})
+})
@@ -0,0 +1,197 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+
+import type { ChatUIMessage } from '@/lib/chat/messages'
+import type { ContextSummary } from '@/lib/chat/context-window'
+import type { LearningProgress } from '@/lib/chat/learning'
+import { createConversationTree, mergeMessagePath } from '@/lib/chat/conversation-tree'
+import {
+	ConversationStore,
+	ConversationSearchResult,
+	ConversationStoreError,
+	ConversationSummary,
+	CreateConversationInput,
+	DEFAULT_CONVERSATION_TITLE,
+	MAX_CONTEXT_SUMMARIES,
+	MAX_LEARNING_PROGRESS,
+	StoredConversation,
+	deriveConversationTitle,
+	isValidConversationId,
+	matchConversation,
+	toConversationSummary,
+} from './conversation-store'
+import { createKeyedLock, isMissingFileError, writeJsonFile } from './helpers'
+
+// One JSON file per conversation; fine for single-instance deployments
+export class FileConversationStore implements ConversationStore {
+	// Serializes read-modify-write cycles per conversation within this process
+	private withLock = createKeyedLock()
+
+	constructor(private directory: string) {}
+
+	async list(): Promise<ConversationSummary[]> {
+		const conversations = await this.readAll()
+		return conversations.map(toConversationSummary)
+	}
+
+	async search(query: string): Promise<ConversationSearchResult[]> {
+		const conversations = await this.readAll()
+		return conversations
+			.map((conversation) => matchConversation(conversation, query))
+			.filter((result): result is ConversationSearchResult => !!result)
+	}
+
+	async get(id: string): Promise<StoredConversation | null> {
+		return this.read(id)
+	}
+
+	async create({
+		id = randomUUID(),
+		messages = [],
+		title = deriveConversationTitle(messages),
+	}: CreateConversationInput = {}): Promise<StoredConversation> {
+		return this.withLock(id, async () => {
+			if (await this.read(id)) {
+				throw new ConversationStoreError(`Conversation already exists: ${id}`, 409)
+			}
+
+			const now = new Date().toISOString()
+			const conversation = {
+				id,
+				title,
+				createdAt: now,
+				updatedAt: now,
+				messages,
+				tree: createConversationTree(messages),
+			}
+			await this.write(conversation)
+			return conversation
+		})
+	}
+
+	async saveMessages(
+		id: string,
+		messages: ChatUIMessage[]
+	): Promise<StoredConversation> {
+		return this.withLock(id, async () => {
+			const now = new Date().toISOString()
+			const existing = await this.read(id)
+			// Keep renamed titles; auto-title until the learner says something
+			const title =
+				existing && existing.title !== DEFAULT_CONVERSATION_TITLE
+					? existing.title
+					: deriveConversationTitle(messages)
+			const conversation: StoredConversation = {
+				id,
+				title,
+				createdAt: existing?.createdAt ?? now,
+				updatedAt: now,
+				messages,
+				tree: mergeMessagePath(existing?.tree ?? createConversationTree(), messages),
+				...(existing?.contextSummaries && { contextSummaries: existing.contextSummaries }),
+				...(existing?.learningProgress && { learningProgress: existing.learningProgress }),
+			}
+
+			await this.write(conversation)
+			return conversation
+		})
+	}
+
+	async saveContextSummary(id: string, summary: ContextSummary): Promise<void> {
+		return this.withLock(id, async () => {
+			const existing = await this.read(id)
+			if (!existing) return
+
+			const contextSummaries = [
+				...(existing.contextSummaries ?? []).filter(
+					(item) => item.throughMessageId !== summary.throughMessageId
+				),
+				summary,
+			].slice(-MAX_CONTEXT_SUMMARIES)
+			await this.write({ ...existing, contextSummaries })
+		})
+	}
+
+	async saveLearningProgress(id: string, messageId: string, progress: LearningProgress): Promise<void> {
+		return this.withLock(id, async () => {
+			const existing = await this.read(id)
+			if (!existing) return
+
+			const learningProgress = [
+				...(existing.learningProgress ?? []).filter((item) => item.messageId !== messageId),
+				{ messageId, progress },
+			].slice(-MAX_LEARNING_PROGRESS)
+			await this.write({ ...existing, learningProgress })
+		})
+	}
+
+	async rename(id: string, title: string): Promise<StoredConversation | null> {
+		return this.withLock(id, async () => {
+			const existing = await this.read(id)
+			if (!existing) return null
+
+			const conversation = { ...existing, title, updatedAt: new Date().toISOString() }
+			await this.write(conversation)
+			return conversation
+		})
+	}
+
+	async delete(id: string): Promise<boolean> {
+		return this.withLock(id, async () => {
+			try {
+				await fs.unlink(this.filePath(id))
+				return true
+			} catch (error) {
+				if (isMissingFileError(error)) return false
+				throw error
+			}
+		})
+	}
+
+	private async readAll(): Promise<StoredConversation[]> {
+		let fileNames: string[]
+		try {
+			fileNames = await fs.readdir(this.directory)
+		} catch (error) {
+			if (isMissingFileError(error)) return []
+			throw error
+		}
+
+		const conversations = await Promise.all(
+			fileNames
+				.filter((fileName) => fileName.endsWith('.json'))
+				.map((fileName) => this.read(path.basename(fileName, '.json')))
+		)
+
+		return conversations
+			.filter((conversation): conversation is StoredConversation => !!conversation)
+			.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+	}
+
+	private filePath(id: string) {
+		// Ids become file names, so anything path-like is rejected outright
+		if (!isValidConversationId(id)) {
+			throw new ConversationStoreError(`Invalid conversation id: ${id}`, 400)
+		}
+		return path.join(this.directory, `${id}.json`)
+	}
+
+	private async read(id: string): Promise<StoredConversation | null> {
+		try {
+			const conversation = JSON.parse(await fs.readFile(this.filePath(id), 'utf8'))
+			// Conversations saved before branching only have the flat list
+			return {
+				...conversation,
+				tree: conversation.tree ?? createConversationTree(conversation.messages),
+			}
+		} catch (error) {
+			if (isMissingFileError(error)) return null
+			throw error
+		}
+	}
+
+	private async write(conversation: StoredConversation) {
+		await writeJsonFile(this.filePath(conversation.id), conversation)
+	}
+}
@@ -0,0 +1,58 @@
+/**
+ * @jest-environment node
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { FileShareStore } from './file-share-store'
+import { toPublicTranscript } from './share-store'
+import type { ChatUIMessage } from '@/lib/chat/messages'
+
+const messages: ChatUIMessage[] = [
+	{ id: 'm1', role: 'user', parts: [{ type: 'text', text: 'What is virtue?' }] },
+	{ id: 'm2', role: 'assistant', parts: [{ type: 'text', text: 'What do you think?' }] },
+]
+
+describe('FileShareStore', () => {
+	let directory: string
+	let store: FileShareStore
+
+	beforeEach(async () => {
+		directory = await fs.mkdtemp(path.join(os.tmpdir(), 'shares-'))
+		store = new FileShareStore(directory)
+	})
+
+	afterEach(async () => {
+		await fs.rm(directory, { recursive: true, force: true })
+	})
+
+	it('snapshots a transcript under a fresh id', async () => {
+		const first = await store.create({ conversationId: 'conv-1', title: 'Virtue', messages })
+		const second = await store.create({ conversationId: 'conv-1', title: 'Virtue', messages })
+
+		expect(first.id).not.toBe(second.id)
+		expect(await store.get(first.id)).toEqual(first)
+	})
+
+	it('revokes without touching the snapshot', async () => {
+		const share = await store.create({ conversationId: 'conv-1', title: 'Virtue', messages })
+
+		const revoked = await store.revoke(share.id)
+
+		expect(revoked).toEqual({ ...share, revokedAt: expect.any(String) })
+		expect(await store.get(share.id)).toEqual(revoked)
+		expect(await store.revoke('missing')).toBeNull()
+	})
+
+	it('rejects path-like ids', async () => {
+		await expect(store.get('../conv-1')).rejects.toMatchObject({ status: 400 })
+	})
+
+	it('keeps the source conversation out of the public view', async () => {
+		const share = await store.create({ conversationId: 'conv-1', title: 'Virtue', messages })
+
+		expect(toPublicTranscript(share)).not.toHaveProperty('conversationId')
+	})
+})
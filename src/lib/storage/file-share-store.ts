@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+
+import { ConversationStoreError } from './conversation-store'
+import {
+	CreateShareInput,
+	SharedTranscript,
+	ShareStore,
+	isValidShareId,
+} from './share-store'
+import { createKeyedLock, isMissingFileError, writeJsonFile } from './helpers'
+
+// One JSON file per shared transcript, next to the conversations
+export class FileShareStore implements ShareStore {
+	// Serializes revocations per share within this process
+	private withLock = createKeyedLock()
+
+	constructor(private directory: string) {}
+
+	async create({ conversationId, title, messages }: CreateShareInput): Promise<SharedTranscript> {
+		const transcript: SharedTranscript = {
+			id: randomUUID(),
+			conversationId,
+			title,
+			createdAt: new Date().toISOString(),
+			messages,
+		}
+		await this.write(transcript)
+		return transcript
+	}
+
+	async get(id: string): Promise<SharedTranscript | null> {
+		return this.read(id)
+	}
+
+	async revoke(id: string): Promise<SharedTranscript | null> {
+		return this.withLock(id, async () => {
+			const existing = await this.read(id)
+			if (!existing || existing.revokedAt) return existing
+
+			const transcript = { ...existing, revokedAt: new Date().toISOString() }
+			await this.write(transcript)
+			return transcript
+		})
+	}
+
+	private filePath(id: string) {
+		if (!isValidShareId(id)) {
+			throw new ConversationStoreError(`Invalid share id: ${id}`, 400)
+		}
+		return path.join(this.directory, `${id}.json`)
+	}
+
+	private async read(id: string): Promise<SharedTranscript | null> {
+		try {
+			return JSON.parse(await fs.readFile(this.filePath(id), 'utf8'))
+		} catch (error) {
+			if (isMissingFileError(error)) return null
+			throw error
+		}
+	}
+
+	private async write(transcript: SharedTranscript) {
+		await writeJsonFile(this.filePath(transcript.id), transcript)
+	}
+}
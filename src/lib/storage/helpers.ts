@@ -0,0 +1,34 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+
+export const isMissingFileError = (error: unknown) =>
+	(error as NodeJS.ErrnoException)?.code === 'ENOENT'
+
+// Write then rename so readers never see a half-written file
+export async function writeJsonFile(filePath: string, value: unknown) {
+	const tempPath = `${filePath}.${randomUUID()}.tmp`
+
+	await fs.mkdir(path.dirname(filePath), { recursive: true })
+	await fs.writeFile(tempPath, JSON.stringify(value, null, 2), 'utf8')
+	await fs.rename(tempPath, filePath)
+}
+
+// Runs tasks for the same key one after another within this process; a
+// failed task doesn't block the ones queued behind it
+export function createKeyedLock() {
+	const locks = new Map<string, Promise<unknown>>()
+
+	return function withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+		const previous = locks.get(key) ?? Promise.resolve()
+		const next = previous.catch(() => undefined).then(task)
+		const settled = next.catch(() => undefined)
+
+		locks.set(key, settled)
+		settled.then(() => {
+			if (locks.get(key) === settled) locks.delete(key)
+		})
+
+		return next
+	}
+}
@@ -0,0 +1,42 @@
+import path from 'path'
+
+import type { ConversationStore } from './conversation-store'
+import { FileConversationStore } from './file-conversation-store'
+import type { ShareStore } from './share-store'
+import { FileShareStore } from './file-share-store'
+
+export * from './conversation-store'
+export * from './share-store'
+export { FileConversationStore } from './file-conversation-store'
+export { FileShareStore } from './file-share-store'
+
+let conversationStore: ConversationStore | null = null
+let shareStore: ShareStore | null = null
+
+export const getDataDirectory = () =>
+	path.resolve(process.env.DATA_DIR || '.data')
+
+// Swap the backend here (e.g. SQLite) without touching the API routes
+export function getConversationStore(): ConversationStore {
+	if (!conversationStore) {
+		conversationStore = new FileConversationStore(
+			path.join(getDataDirectory(), 'conversations')
+		)
+	}
+	return conversationStore
+}
+
+export function setConversationStore(store: ConversationStore | null) {
+	conversationStore = store
+}
+
+export function getShareStore(): ShareStore {
+	if (!shareStore) {
+		shareStore = new FileShareStore(path.join(getDataDirectory(), 'shares'))
+	}
+	return shareStore
+}
+
+export function setShareStore(store: ShareStore | null) {
+	shareStore = store
+}
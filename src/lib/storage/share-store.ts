@@ -0,0 +1,51 @@
+import type { ChatUIMessage } from '@/lib/chat/messages'
+
+// A frozen copy of a conversation's active branch, readable by anyone with
+// the link. The messages never change; revoking only takes the link down.
+export interface SharedTranscript {
+	id: string
+	// The conversation it was taken from; only its owner may revoke the link
+	conversationId: string
+	title: string
+	createdAt: string
+	revokedAt?: string
+	messages: ChatUIMessage[]
+}
+
+// What the share page and fork endpoint may reveal
+export type PublicSharedTranscript = Omit<SharedTranscript, 'conversationId'>
+
+export interface CreateShareInput {
+	conversationId: string
+	title: string
+	messages: ChatUIMessage[]
+}
+
+export interface ShareStore {
+	create(input: CreateShareInput): Promise<SharedTranscript>
+	get(id: string): Promise<SharedTranscript | null>
+	// Marks the share revoked; returns null if it doesn't exist
+	revoke(id: string): Promise<SharedTranscript | null>
+}
+
+// Share ids end up in public URLs, so they are random rather than derived
+const SHARE_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/
+
+export function isValidShareId(id: unknown): id is string {
+	return typeof id === 'string' && SHARE_ID_PATTERN.test(id)
+}
+
+// What the share page and API responses expose: never the source conversation
+export const toPublicTranscript = ({
+	id,
+	title,
+	createdAt,
+	revokedAt,
+	messages,
+}: SharedTranscript): PublicSharedTranscript => ({
+	id,
+	title,
+	createdAt,
+	...(revokedAt && { revokedAt }),
+	messages,
+})